@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ArchiveEntry, ArchiveFormat, writeArchive } from './archiveWriter';
+import { EntryDocument, collectEntryDocuments } from './projectManifest';
+import { getResourceConfiguration, isPathInside, resolveProjectContext } from './projectContext';
+
+type ArchiveContents = 'outputs' | 'sources' | 'all';
+
+const ARCHIVE_DIRECTORY = 'archive';
+const ARCHIVE_MANIFEST_NAME = 'archive-manifest.json';
+
+const CONTENTS_ITEMS: (vscode.QuickPickItem & { contents: ArchiveContents; prefix: string })[] = [
+    { label: '成果物のみ', description: 'PDF / HTML / EPUB などの出力ファイル', contents: 'outputs', prefix: 'output' },
+    { label: 'ソース一式', description: 'ドキュメント・画像・テーマ', contents: 'sources', prefix: 'source' },
+    { label: '成果物とソース', description: '上記の両方', contents: 'all', prefix: 'archive' }
+];
+
+// アーカイブに同梱するマニフェストのドキュメント情報
+interface ArchivedDocument {
+    input: string;
+    title?: string;
+    revnumber?: string;
+    revdate?: string;
+    formats: string[];
+    options?: unknown;
+}
+
+// ビルド成果物やソースをアーカイブとしてエクスポートする
+export class ArchiveExporter {
+    constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+    async exportArchive(workspaceRoot: string): Promise<void> {
+        const selected = await vscode.window.showQuickPick(CONTENTS_ITEMS, {
+            placeHolder: 'アーカイブに含める内容を選択してください'
+        });
+        if (!selected) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(workspaceRoot));
+        const format = config.get<ArchiveFormat>('archive.format', 'zip');
+
+        this.outputChannel.show();
+        this.outputChannel.appendLine('アーカイブエクスポートを開始します...');
+
+        const archiveFile = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'アーカイブを作成中...'
+        }, async () => {
+            // 選択したワークスペースフォルダのドキュメントのみを対象とする
+            const documents = (await collectEntryDocuments())
+                .filter(document => isPathInside(document.target.filePath, workspaceRoot));
+            const files = new Set<string>();
+
+            if (selected.contents !== 'sources') {
+                const outputFiles = await this.collectOutputFiles(workspaceRoot, documents);
+                if (outputFiles.length === 0) {
+                    vscode.window.showErrorMessage('ビルド成果物が見つかりません。先にビルドを実行してください。');
+                    return undefined;
+                }
+                outputFiles.forEach(file => files.add(file));
+            }
+
+            if (selected.contents !== 'outputs') {
+                for (const file of await this.collectSourceFiles(documents)) {
+                    files.add(file);
+                }
+            }
+
+            const entries = await this.createEntries(workspaceRoot, [...files]);
+            entries.push(await this.createManifestEntry(workspaceRoot, selected.contents, documents, entries));
+
+            // タイムスタンプ付きファイル名
+            const archiveDir = path.join(workspaceRoot, ARCHIVE_DIRECTORY);
+            await fs.ensureDir(archiveDir);
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+            const file = path.join(archiveDir, `${selected.prefix}-${timestamp}.${format}`);
+
+            await writeArchive(file, format, entries);
+            this.outputChannel.appendLine(`${entries.length}件のファイルをアーカイブしました: ${file}`);
+            return file;
+        });
+
+        if (archiveFile) {
+            this.outputChannel.appendLine('アーカイブエクスポートが完了しました。');
+            vscode.window.showInformationMessage(`アーカイブが作成されました: ${archiveFile}`);
+        }
+    }
+
+    // 設定とマニフェストの出力ディレクトリ内のファイルを収集
+    // ビルドと同じく、設定の出力ディレクトリはドキュメントの属するプロジェクトのルートを基準とする
+    private async collectOutputFiles(workspaceRoot: string, documents: EntryDocument[]): Promise<string[]> {
+        const outputDirectories = new Set<string>([
+            path.resolve(workspaceRoot, getResourceConfiguration(workspaceRoot).get<string>('build.outputDirectory', './output'))
+        ]);
+        for (const document of documents) {
+            const filePath = document.target.filePath;
+            if (document.target.options?.outputDirectory) {
+                outputDirectories.add(path.resolve(document.target.options.outputDirectory));
+            } else {
+                const { projectRoot } = await resolveProjectContext(filePath);
+                outputDirectories.add(path.resolve(projectRoot, getResourceConfiguration(filePath).get<string>('build.outputDirectory', './output')));
+            }
+        }
+
+        const files: string[] = [];
+        for (const directory of outputDirectories) {
+            files.push(...await this.listFiles(directory));
+        }
+        return files;
+    }
+
+    // エントリドキュメントとインクルード・画像・テーマを収集
+    private async collectSourceFiles(documents: EntryDocument[]): Promise<string[]> {
+        const files = new Set<string>();
+
+        for (const document of documents) {
+            for (const dependency of document.dependencies) {
+                if (!await this.isFile(dependency)) {
+                    continue;
+                }
+                files.add(dependency);
+
+                // テーマが参照するフォントや画像も含めるため、テーマ用ディレクトリは丸ごと収集する
+                const dependencyDir = path.dirname(dependency);
+                if (/\.ya?ml$/i.test(dependency) && dependencyDir !== path.dirname(document.target.filePath)) {
+                    (await this.listFiles(dependencyDir)).forEach(file => files.add(file));
+                }
+            }
+        }
+
+        return [...files];
+    }
+
+    private async createEntries(workspaceRoot: string, files: string[]): Promise<ArchiveEntry[]> {
+        const archiveDir = path.join(workspaceRoot, ARCHIVE_DIRECTORY);
+        const entries: ArchiveEntry[] = [];
+
+        for (const file of files.sort()) {
+            const relativePath = path.relative(workspaceRoot, file);
+            if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+                this.outputChannel.appendLine(`ワークスペース外のファイルはアーカイブに含めません: ${file}`);
+                continue;
+            }
+            if (!path.relative(archiveDir, file).startsWith('..')) {
+                continue;
+            }
+
+            const stat = await fs.stat(file);
+            entries.push({
+                name: relativePath.split(path.sep).join('/'),
+                data: await fs.readFile(file),
+                mtime: stat.mtime
+            });
+        }
+
+        return entries;
+    }
+
+    // 収録ファイルのハッシュ、ドキュメントの版数、ビルド設定を記録したマニフェストを作成
+    private async createManifestEntry(
+        workspaceRoot: string,
+        contents: ArchiveContents,
+        documents: EntryDocument[],
+        entries: ArchiveEntry[]
+    ): Promise<ArchiveEntry> {
+        const config = vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(workspaceRoot));
+        const archivedDocuments: ArchivedDocument[] = [];
+
+        for (const document of documents) {
+            const header = await this.readDocumentHeader(document.target.filePath);
+            const overrides = document.target.options?.attributes ?? {};
+            const attribute = (name: string) =>
+                typeof overrides[name] === 'string' ? overrides[name] as string : header.attributes.get(name);
+
+            archivedDocuments.push({
+                input: path.relative(workspaceRoot, document.target.filePath).split(path.sep).join('/'),
+                title: header.title,
+                revnumber: attribute('revnumber'),
+                revdate: attribute('revdate'),
+                formats: document.target.formats,
+                options: document.target.options
+                    ? {
+                        ...document.target.options,
+                        outputDirectory: document.target.options.outputDirectory
+                            ? path.relative(workspaceRoot, document.target.options.outputDirectory).split(path.sep).join('/')
+                            : undefined
+                    }
+                    : undefined
+            });
+        }
+
+        const manifest = {
+            createdAt: new Date().toISOString(),
+            contents,
+            documents: archivedDocuments,
+            buildSettings: {
+                outputFormat: config.get('build.outputFormat'),
+                runner: config.get('build.runner'),
+                useDocker: config.get('build.useDocker'),
+                dockerImage: config.get('build.dockerImage'),
+                dockerImageTag: config.get('build.dockerImageTag'),
+                pdfTheme: config.get('build.pdfTheme'),
+                outputDirectory: config.get('build.outputDirectory'),
+                enableDiagrams: config.get('build.enableDiagrams')
+            },
+            files: entries.map(entry => ({
+                path: entry.name,
+                size: entry.data.length,
+                sha256: crypto.createHash('sha256').update(entry.data).digest('hex')
+            }))
+        };
+
+        return {
+            name: ARCHIVE_MANIFEST_NAME,
+            data: Buffer.from(JSON.stringify(manifest, null, 2) + '\n', 'utf8'),
+            mtime: new Date()
+        };
+    }
+
+    // ドキュメントヘッダーからタイトルと属性（版数・改訂日など）を読み取る
+    private async readDocumentHeader(filePath: string): Promise<{ title?: string; attributes: Map<string, string> }> {
+        const attributes = new Map<string, string>();
+        let title: string | undefined;
+        let text: string;
+        try {
+            text = await fs.readFile(filePath, 'utf8');
+        } catch {
+            return { attributes };
+        }
+
+        const lines = text.split(/\r?\n/);
+        for (let index = 0; index < lines.length; index++) {
+            const line = lines[index];
+            if (line.startsWith('//')) {
+                continue;
+            }
+            // ヘッダーはタイトル以降の最初の空行で終わる
+            if (line.trim() === '') {
+                if (title) {
+                    break;
+                }
+                continue;
+            }
+
+            const titleMatch = /^=\s+(.+)$/.exec(line);
+            if (titleMatch && !title) {
+                title = titleMatch[1].trim();
+                // タイトルの2行後の改訂行（v1.0, 2024-01-01: 備考）
+                const revisionLine = lines[index + 2];
+                const revisionMatch = revisionLine !== undefined && lines[index + 1]?.trim()
+                    ? /^v?(\d[^,:]*)(?:,\s*([^:]+))?(?::.*)?$/.exec(revisionLine.trim())
+                    : null;
+                if (revisionMatch) {
+                    attributes.set('revnumber', revisionMatch[1].trim());
+                    if (revisionMatch[2]) {
+                        attributes.set('revdate', revisionMatch[2].trim());
+                    }
+                }
+                continue;
+            }
+
+            const attributeMatch = /^:([\w-]+):\s*(.*)$/.exec(line);
+            if (attributeMatch) {
+                attributes.set(attributeMatch[1], attributeMatch[2].trim());
+            }
+        }
+
+        // {docdate} はドキュメントの更新日に置き換える
+        const revdate = attributes.get('revdate');
+        if (revdate?.includes('{docdate}')) {
+            const stat = await fs.stat(filePath);
+            const docdate = [
+                stat.mtime.getFullYear(),
+                String(stat.mtime.getMonth() + 1).padStart(2, '0'),
+                String(stat.mtime.getDate()).padStart(2, '0')
+            ].join('-');
+            attributes.set('revdate', revdate.replace(/\{docdate\}/g, docdate));
+        }
+
+        return { title, attributes };
+    }
+
+    private async listFiles(directory: string): Promise<string[]> {
+        if (!await fs.pathExists(directory)) {
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                if (entry.name !== 'node_modules' && entry.name !== '.git') {
+                    files.push(...await this.listFiles(entryPath));
+                }
+            } else if (entry.isFile()) {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            return (await fs.stat(filePath)).isFile();
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import * as fs from 'fs-extra';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+
+const deflateRaw = promisify(zlib.deflateRaw);
+const gzip = promisify(zlib.gzip);
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export interface ArchiveEntry {
+    // アーカイブ内のパス（区切り文字は /）
+    name: string;
+    data: Buffer;
+    mtime: Date;
+}
+
+// アーカイブファイルを書き出す
+export async function writeArchive(archiveFile: string, format: ArchiveFormat, entries: ArchiveEntry[]): Promise<void> {
+    const data = format === 'zip' ? await createZip(entries) : await gzip(createTar(entries));
+    await fs.writeFile(archiveFile, data);
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+// ZIP（Deflate圧縮、ファイル名はUTF-8）を作成
+async function createZip(entries: ArchiveEntry[]): Promise<Buffer> {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const compressed = await deflateRaw(entry.data);
+        const crc = crc32(entry.data);
+        const { time, date } = toDosDateTime(entry.mtime);
+        const utf8Flag = 0x0800;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(utf8Flag, 6);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(utf8Flag, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, compressed);
+        centralParts.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function createTarHeader(name: string, size: number, mtime: Date, type: string): Buffer {
+    const header = Buffer.alloc(512);
+    const writeString = (value: string, offset: number, length: number) => {
+        Buffer.from(value, 'utf8').copy(header, offset, 0, length);
+    };
+    const writeOctal = (value: number, offset: number, length: number) => {
+        writeString(value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+    };
+
+    writeString(name, 0, 100);
+    writeOctal(0o644, 100, 8);
+    writeOctal(0, 108, 8);
+    writeOctal(0, 116, 8);
+    writeOctal(size, 124, 12);
+    writeOctal(Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.fill(' ', 148, 156);
+    writeString(type, 156, 1);
+    writeString('ustar', 257, 6);
+    writeString('00', 263, 2);
+
+    let checksum = 0;
+    for (const byte of header) {
+        checksum += byte;
+    }
+    writeString(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+
+    return header;
+}
+
+function padTarBlock(data: Buffer): Buffer[] {
+    const padding = (512 - (data.length % 512)) % 512;
+    return padding > 0 ? [data, Buffer.alloc(padding)] : [data];
+}
+
+// tar（ustar形式、長いファイル名はPAX拡張ヘッダー）を作成
+function createTar(entries: ArchiveEntry[]): Buffer {
+    const parts: Buffer[] = [];
+
+    for (const entry of entries) {
+        if (Buffer.byteLength(entry.name, 'utf8') > 100) {
+            const record = (length: number) => `${length} path=${entry.name}\n`;
+            let length = Buffer.byteLength(record(0), 'utf8');
+            while (Buffer.byteLength(record(length), 'utf8') !== length) {
+                length = Buffer.byteLength(record(length), 'utf8');
+            }
+            const pax = Buffer.from(record(length), 'utf8');
+            parts.push(createTarHeader('PaxHeader', pax.length, entry.mtime, 'x'), ...padTarBlock(pax));
+        }
+
+        parts.push(createTarHeader(entry.name, entry.data.length, entry.mtime, '0'), ...padTarBlock(entry.data));
+    }
+
+    parts.push(Buffer.alloc(1024));
+    return Buffer.concat(parts);
+}
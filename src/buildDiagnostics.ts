@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// Asciidoctorのログ1件分
+export interface AsciidoctorLogEntry {
+    severity: vscode.DiagnosticSeverity;
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+// コンテナ内パスとホスト側パスの対応
+export interface PathMapping {
+    containerRoot: string;
+    hostRoot: string;
+}
+
+const LOG_LINE_PATTERN = /^asciidoctor:\s+(FATAL|ERROR|WARNING|WARN|INFO|DEBUG):\s+(.*)$/;
+const LOCATION_PATTERN = /^(.+?): line (\d+): (.*)$/;
+
+// asciidoctor / asciidoctor-pdf のログ出力を解析する
+export function parseAsciidoctorLog(output: string): AsciidoctorLogEntry[] {
+    const entries: AsciidoctorLogEntry[] = [];
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const match = LOG_LINE_PATTERN.exec(rawLine.trim());
+        if (!match) {
+            continue;
+        }
+
+        const severity = toDiagnosticSeverity(match[1]);
+        const location = LOCATION_PATTERN.exec(match[2]);
+
+        if (location) {
+            entries.push({
+                severity,
+                file: location[1],
+                line: parseInt(location[2], 10),
+                message: location[3]
+            });
+        } else {
+            entries.push({ severity, message: match[2] });
+        }
+    }
+
+    return entries;
+}
+
+function toDiagnosticSeverity(level: string): vscode.DiagnosticSeverity {
+    switch (level) {
+        case 'FATAL':
+        case 'ERROR':
+            return vscode.DiagnosticSeverity.Error;
+        case 'WARNING':
+        case 'WARN':
+            return vscode.DiagnosticSeverity.Warning;
+        default:
+            return vscode.DiagnosticSeverity.Information;
+    }
+}
+
+export class BuildDiagnostics {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private diagnostics = new Map<string, vscode.Diagnostic[]>();
+
+    constructor() {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('asciidoc-build');
+    }
+
+    // ビルド開始時に前回の診断結果を消去
+    clear(): void {
+        this.diagnostics.clear();
+        this.diagnosticCollection.clear();
+    }
+
+    // ビルドのログ出力を解析し、該当する .adoc の行に診断結果を追加
+    // 戻り値は追加された診断の件数
+    report(output: string, cwd: string, entryFile: string, pathMapping?: PathMapping): number {
+        let count = 0;
+
+        for (const entry of parseAsciidoctorLog(output)) {
+            const file = entry.file ? this.resolveLogPath(entry.file, cwd, pathMapping) : entryFile;
+            const line = entry.line ? entry.line - 1 : 0;
+            if (this.add(file, line, entry.message, entry.severity)) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    // ログから位置を特定できないビルド失敗をエントリドキュメントに記録
+    reportFailure(entryFile: string, message: string, line = 0): void {
+        this.add(entryFile, line, message, vscode.DiagnosticSeverity.Error);
+    }
+
+    private add(file: string, line: number, message: string, severity: vscode.DiagnosticSeverity): boolean {
+        const fileDiagnostics = this.diagnostics.get(file) ?? [];
+
+        // 複数形式のビルドで同じ警告が重複しないようにする
+        if (fileDiagnostics.some(d => d.range.start.line === line && d.message === message)) {
+            return false;
+        }
+
+        const range = new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = 'asciidoctor';
+
+        fileDiagnostics.push(diagnostic);
+        this.diagnostics.set(file, fileDiagnostics);
+        this.diagnosticCollection.set(vscode.Uri.file(file), fileDiagnostics);
+        return true;
+    }
+
+    private resolveLogPath(logPath: string, cwd: string, pathMapping?: PathMapping): string {
+        if (pathMapping) {
+            const containerRoot = pathMapping.containerRoot;
+            if (logPath === containerRoot || logPath.startsWith(`${containerRoot}/`)) {
+                return path.join(pathMapping.hostRoot, logPath.slice(containerRoot.length));
+            }
+        }
+        return path.resolve(cwd, logPath);
+    }
+
+    dispose(): void {
+        this.diagnosticCollection.dispose();
+    }
+}
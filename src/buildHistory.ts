@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { OutputFormat } from './outputFormats';
+import { runProcess } from './processUtils';
+import { getResourceConfiguration } from './projectContext';
+
+// ビルド1回（1つの出力形式）の記録
+export interface BuildHistoryEntry {
+    id: string;
+    // ビルド開始時刻（ISO 8601）
+    time: string;
+    // 履歴を保存するワークスペースフォルダ
+    workspaceRoot: string;
+    document: string;
+    format: OutputFormat;
+    profile?: string;
+    runner: string;
+    durationMs: number;
+    // 問題パネルに追加した警告・エラーの件数（失敗したビルドでは記録しない）
+    warnings?: number;
+    succeeded: boolean;
+    outputFile?: string;
+    // 出力ファイルの複製（履歴ディレクトリからの相対パス）
+    snapshot?: string;
+    // ビルド時点のソースのコミット
+    commit?: string;
+    // コミットされていない変更があった場合
+    dirty?: boolean;
+}
+
+export type NewBuildHistoryEntry = Omit<BuildHistoryEntry, 'id' | 'snapshot'>;
+
+// ソースのリビジョン
+export interface SourceRevision {
+    commit: string;
+    dirty: boolean;
+}
+
+interface HistoryFile {
+    version: 1;
+    entries: BuildHistoryEntry[];
+}
+
+const HISTORY_DIRECTORY = '.asciidoctor/history';
+const HISTORY_FILE = 'history.json';
+const SNAPSHOT_DIRECTORY = 'outputs';
+const TEXT_DIRECTORY = 'text';
+const GIT_TIMEOUT_SECONDS = 10;
+
+function getHistoryDirectory(workspaceRoot: string): string {
+    return path.join(workspaceRoot, HISTORY_DIRECTORY);
+}
+
+// ドキュメントのディレクトリが属する Git リポジトリの HEAD（リポジトリ外の場合は undefined）
+export async function getSourceRevision(directory: string): Promise<SourceRevision | undefined> {
+    const head = await runProcess('git', ['rev-parse', 'HEAD'], { cwd: directory, timeoutSeconds: GIT_TIMEOUT_SECONDS });
+    if (head.error) {
+        return undefined;
+    }
+    const status = await runProcess('git', ['status', '--porcelain', '--untracked-files=no'], {
+        cwd: directory,
+        timeoutSeconds: GIT_TIMEOUT_SECONDS
+    });
+    return { commit: head.stdout.trim(), dirty: !status.error && status.stdout.trim() !== '' };
+}
+
+// pdftotext でPDFのテキストを取り出し、ページの区切りを見出し行にして書き出す
+export async function extractPdfText(pdfFile: string, textFile: string, command: string): Promise<void> {
+    const rawFile = `${textFile}.raw`;
+    await fs.ensureDir(path.dirname(textFile));
+
+    const result = await runProcess(command, ['-enc', 'UTF-8', pdfFile, rawFile], { timeoutSeconds: 120 });
+    if (result.error) {
+        const detail = result.stderr.trim();
+        throw new Error(detail ? `${result.error.message}\n${detail}` : result.error.message);
+    }
+
+    const pages = (await fs.readFile(rawFile, 'utf8')).replace(/\f$/, '').split('\f');
+    const text = pages.map((page, index) => `===== ${index + 1} ページ =====\n${page.trimEnd()}\n`).join('\n');
+    await fs.writeFile(textFile, text, 'utf8');
+    await fs.remove(rawFile);
+}
+
+// ワークスペースフォルダごとにビルドの記録と出力ファイルの複製を保存する
+export class BuildHistory implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    // すべてのワークスペースフォルダの履歴（新しい順）
+    async getEntries(): Promise<BuildHistoryEntry[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const entries = (await Promise.all(folders.map(folder => this.load(folder.uri.fsPath)))).flat();
+        return entries.sort((a, b) => b.time.localeCompare(a.time));
+    }
+
+    // ビルド結果を記録し、出力ファイルを履歴に複製する
+    record(entry: NewBuildHistoryEntry): Promise<BuildHistoryEntry> {
+        return this.update(entry.workspaceRoot, async entries => {
+            const id = `${Date.parse(entry.time)}-${crypto.randomBytes(4).toString('hex')}`;
+            const recorded: BuildHistoryEntry = { ...entry, id };
+
+            if (entry.succeeded && entry.outputFile && await fs.pathExists(entry.outputFile)) {
+                const snapshot = path.posix.join(SNAPSHOT_DIRECTORY, id, path.basename(entry.outputFile));
+                await fs.copy(entry.outputFile, path.join(getHistoryDirectory(entry.workspaceRoot), snapshot));
+                recorded.snapshot = snapshot;
+            }
+
+            // 上限を超えた古い記録は出力ファイルの複製ごと削除する
+            const maxEntries = Math.max(1, getResourceConfiguration(entry.workspaceRoot).get<number>('history.maxEntries', 50));
+            const kept = [recorded, ...entries].slice(0, maxEntries);
+            await this.removeFiles(entries.filter(item => !kept.includes(item)));
+            return { entries: kept, result: recorded };
+        });
+    }
+
+    async remove(entry: BuildHistoryEntry): Promise<void> {
+        await this.update(entry.workspaceRoot, async entries => {
+            await this.removeFiles([entry]);
+            return { entries: entries.filter(item => item.id !== entry.id), result: undefined };
+        });
+    }
+
+    // すべてのワークスペースフォルダの履歴を削除する
+    async clear(): Promise<void> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            await this.update(folder.uri.fsPath, async entries => {
+                await this.removeFiles(entries);
+                return { entries: [], result: undefined };
+            });
+        }
+    }
+
+    // 出力ファイルの複製のパス（複製がない・削除された場合は undefined）
+    async getSnapshotPath(entry: BuildHistoryEntry): Promise<string | undefined> {
+        if (!entry.snapshot) {
+            return undefined;
+        }
+        const snapshotPath = path.join(getHistoryDirectory(entry.workspaceRoot), entry.snapshot);
+        return await fs.pathExists(snapshotPath) ? snapshotPath : undefined;
+    }
+
+    // PDFの複製から取り出したテキストファイルのパス（抽出済みの場合は再利用する）
+    async getPdfText(entry: BuildHistoryEntry, command: string): Promise<string> {
+        const pdfFile = await this.getSnapshotPath(entry);
+        if (!pdfFile || entry.format !== 'pdf') {
+            throw new Error('PDFの出力ファイルが履歴に残っていません。');
+        }
+
+        const textFile = path.join(getHistoryDirectory(entry.workspaceRoot), TEXT_DIRECTORY, `${entry.id}.txt`);
+        if (!await fs.pathExists(textFile)) {
+            await extractPdfText(pdfFile, textFile, command);
+        }
+        return textFile;
+    }
+
+    private async load(workspaceRoot: string): Promise<BuildHistoryEntry[]> {
+        const historyFile = path.join(getHistoryDirectory(workspaceRoot), HISTORY_FILE);
+        try {
+            const data = await fs.readJson(historyFile) as Partial<HistoryFile>;
+            return Array.isArray(data.entries) ? data.entries.map(entry => ({ ...entry, workspaceRoot })) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    // 同時に書き込まないよう、履歴ファイルの更新を順番に実行する
+    private update<T>(
+        workspaceRoot: string,
+        change: (entries: BuildHistoryEntry[]) => Promise<{ entries: BuildHistoryEntry[]; result: T }>
+    ): Promise<T> {
+        const run = this.writeQueue.then(async () => {
+            const { entries, result } = await change(await this.load(workspaceRoot));
+            const historyFile = path.join(getHistoryDirectory(workspaceRoot), HISTORY_FILE);
+            const data: HistoryFile = { version: 1, entries };
+            await fs.outputJson(historyFile, data, { spaces: 2 });
+            this._onDidChange.fire();
+            return result;
+        });
+        this.writeQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async removeFiles(entries: BuildHistoryEntry[]): Promise<void> {
+        for (const entry of entries) {
+            const historyDir = getHistoryDirectory(entry.workspaceRoot);
+            await fs.remove(path.join(historyDir, SNAPSHOT_DIRECTORY, entry.id));
+            await fs.remove(path.join(historyDir, TEXT_DIRECTORY, `${entry.id}.txt`));
+        }
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
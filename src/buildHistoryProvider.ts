@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OUTPUT_FORMATS } from './outputFormats';
+import { BuildHistory, BuildHistoryEntry } from './buildHistory';
+import { isTrustedSetting } from './processUtils';
+import { getResourceConfiguration } from './projectContext';
+
+type HistoryNode = DocumentNode | EntryNode;
+
+interface DocumentNode {
+    type: 'document';
+    document: string;
+    entries: BuildHistoryEntry[];
+}
+
+interface EntryNode {
+    type: 'entry';
+    entry: BuildHistoryEntry;
+}
+
+interface EntryQuickPickItem extends vscode.QuickPickItem {
+    entry: BuildHistoryEntry;
+}
+
+function formatTime(entry: BuildHistoryEntry): string {
+    return new Date(entry.time).toLocaleString();
+}
+
+function formatDuration(durationMs: number): string {
+    return durationMs < 60000
+        ? `${(durationMs / 1000).toFixed(1)}秒`
+        : `${Math.floor(durationMs / 60000)}分${Math.round((durationMs % 60000) / 1000)}秒`;
+}
+
+function formatCommit(entry: BuildHistoryEntry): string | undefined {
+    return entry.commit ? `${entry.commit.slice(0, 7)}${entry.dirty ? '（未コミットの変更あり）' : ''}` : undefined;
+}
+
+// ビルド履歴をドキュメントごとに表示し、過去の出力ファイルを開く・比較する
+export class BuildHistoryProvider implements vscode.TreeDataProvider<HistoryNode>, vscode.Disposable {
+    public static readonly viewType = 'asciidocBuildHistory';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<HistoryNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly history: BuildHistory) {
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            history.onDidChange(() => this.refresh()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh())
+        );
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    async getChildren(node?: HistoryNode): Promise<HistoryNode[]> {
+        if (node) {
+            return node.type === 'document'
+                ? node.entries.map(entry => ({ type: 'entry', entry }))
+                : [];
+        }
+
+        // 最後にビルドした順にドキュメントを並べる
+        const documents = new Map<string, BuildHistoryEntry[]>();
+        for (const entry of await this.history.getEntries()) {
+            const entries = documents.get(entry.document) ?? [];
+            entries.push(entry);
+            documents.set(entry.document, entries);
+        }
+        return [...documents].map(([document, entries]) => ({ type: 'document', document, entries }));
+    }
+
+    getTreeItem(node: HistoryNode): vscode.TreeItem {
+        if (node.type === 'document') {
+            const item = new vscode.TreeItem(path.basename(node.document), vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${vscode.workspace.asRelativePath(node.document)}  ${node.entries.length}件`;
+            item.tooltip = node.document;
+            item.iconPath = new vscode.ThemeIcon('book');
+            item.contextValue = 'historyDocument';
+            return item;
+        }
+
+        const { entry } = node;
+        const item = new vscode.TreeItem(formatTime(entry));
+        item.description = [
+            OUTPUT_FORMATS[entry.format]?.label ?? entry.format,
+            entry.profile,
+            formatDuration(entry.durationMs),
+            entry.warnings ? `警告 ${entry.warnings}件` : undefined,
+            entry.commit ? `${entry.commit.slice(0, 7)}${entry.dirty ? '*' : ''}` : undefined
+        ].filter(Boolean).join(' · ');
+        item.tooltip = this.describeEntry(entry);
+        item.iconPath = !entry.succeeded
+            ? new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'))
+            : entry.warnings
+                ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+                : new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        item.contextValue = !entry.succeeded ? 'historyFailed' : entry.format === 'pdf' ? 'historyPdf' : 'historyOutput';
+        if (entry.snapshot) {
+            item.command = { command: 'asciidocSuite.history.openOutput', title: '出力を開く', arguments: [node] };
+        }
+        return item;
+    }
+
+    private describeEntry(entry: BuildHistoryEntry): string {
+        return [
+            `日時: ${formatTime(entry)}`,
+            `ドキュメント: ${vscode.workspace.asRelativePath(entry.document)}`,
+            `形式: ${OUTPUT_FORMATS[entry.format]?.label ?? entry.format}`,
+            `結果: ${entry.succeeded ? '成功' : '失敗'}`,
+            `プロファイル: ${entry.profile ?? 'なし'}`,
+            `ビルド方法: ${entry.runner}`,
+            `所要時間: ${formatDuration(entry.durationMs)}`,
+            entry.warnings !== undefined ? `警告・エラー: ${entry.warnings}件` : undefined,
+            entry.outputFile ? `出力ファイル: ${vscode.workspace.asRelativePath(entry.outputFile)}` : undefined,
+            `コミット: ${formatCommit(entry) ?? '不明（Git リポジトリ外）'}`
+        ].filter(Boolean).join('\n');
+    }
+
+    // 履歴に保存した出力ファイルを開く
+    async openOutput(node?: HistoryNode): Promise<void> {
+        const entry = node?.type === 'entry' ? node.entry : await this.pickEntry('開くビルドを選択してください', entry => Boolean(entry.snapshot));
+        if (!entry) {
+            return;
+        }
+
+        const snapshotPath = await this.history.getSnapshotPath(entry);
+        if (!snapshotPath) {
+            vscode.window.showErrorMessage('このビルドの出力ファイルは履歴に残っていません。');
+            return;
+        }
+        await vscode.env.openExternal(vscode.Uri.file(snapshotPath));
+    }
+
+    // 同じドキュメントの2つのPDFビルドのテキストを比較する
+    // ビューで2件選択している場合はその2件を、それ以外は比較対象を選択する
+    async compare(node?: HistoryNode, selection?: HistoryNode[]): Promise<void> {
+        const isComparable = (entry: BuildHistoryEntry) => entry.succeeded && entry.format === 'pdf' && Boolean(entry.snapshot);
+        const selected = (selection ?? [])
+            .filter((item): item is EntryNode => item.type === 'entry' && isComparable(item.entry))
+            .map(item => item.entry);
+
+        let pair: [BuildHistoryEntry, BuildHistoryEntry] | undefined;
+        if (selected.length === 2) {
+            if (selected[0].document !== selected[1].document) {
+                vscode.window.showErrorMessage('同じドキュメントのビルドを2件選択してください。');
+                return;
+            }
+            pair = [selected[0], selected[1]];
+        } else {
+            const target = node?.type === 'entry' && isComparable(node.entry)
+                ? node.entry
+                : await this.pickEntry('比較するPDFビルドを選択してください', isComparable);
+            if (!target) {
+                return;
+            }
+
+            // 直前のビルドが既定の候補になるよう、古いビルドを先に並べる
+            const entries = (await this.history.getEntries())
+                .filter(entry => entry.id !== target.id && entry.document === target.document && isComparable(entry));
+            const candidates = [...entries.filter(entry => entry.time < target.time), ...entries.filter(entry => entry.time >= target.time)];
+            if (candidates.length === 0) {
+                vscode.window.showInformationMessage('比較できる同じドキュメントのPDFビルドが履歴にありません。');
+                return;
+            }
+
+            const base = await vscode.window.showQuickPick(
+                candidates.map(entry => this.toQuickPickItem(entry)),
+                { placeHolder: `${formatTime(target)} のビルドと比較するビルドを選択してください` }
+            );
+            if (!base) {
+                return;
+            }
+            pair = [base.entry, target];
+        }
+
+        // 古いビルドを左側に表示する
+        const [older, newer] = pair[0].time <= pair[1].time ? pair : [pair[1], pair[0]];
+        await this.showTextDiff(older, newer);
+    }
+
+    private async showTextDiff(older: BuildHistoryEntry, newer: BuildHistoryEntry): Promise<void> {
+        const config = getResourceConfiguration(newer.document);
+        const command = isTrustedSetting('asciidocSuite', 'history.pdftotextPath')
+            ? config.get<string>('history.pdftotextPath', 'pdftotext') || 'pdftotext'
+            : 'pdftotext';
+
+        let texts: [string, string];
+        try {
+            texts = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'PDFのテキストを抽出しています...'
+            }, async () => [
+                await this.history.getPdfText(older, command),
+                await this.history.getPdfText(newer, command)
+            ]);
+        } catch (error) {
+            const selection = await vscode.window.showErrorMessage(
+                `PDFのテキストを抽出できませんでした（pdftotext が必要です）: ${error}`,
+                '環境を診断',
+                '設定を開く'
+            );
+            if (selection === '環境を診断') {
+                vscode.commands.executeCommand('asciidocSuite.checkEnvironment');
+            } else if (selection === '設定を開く') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'asciidocSuite.history.pdftotextPath');
+            }
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(texts[0]),
+            vscode.Uri.file(texts[1]),
+            `${path.basename(newer.document)}: ${formatTime(older)} ↔ ${formatTime(newer)}`
+        );
+    }
+
+    async deleteEntry(node?: HistoryNode): Promise<void> {
+        if (node?.type !== 'entry') {
+            return;
+        }
+        await this.history.remove(node.entry);
+    }
+
+    async clear(): Promise<void> {
+        const confirmation = await vscode.window.showWarningMessage(
+            'ビルド履歴と保存した出力ファイルをすべて削除しますか？',
+            { modal: true },
+            '削除'
+        );
+        if (confirmation === '削除') {
+            await this.history.clear();
+        }
+    }
+
+    private async pickEntry(
+        placeHolder: string,
+        filter: (entry: BuildHistoryEntry) => boolean
+    ): Promise<BuildHistoryEntry | undefined> {
+        const entries = (await this.history.getEntries()).filter(filter);
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('ビルド履歴がありません。');
+            return undefined;
+        }
+        const selected = await vscode.window.showQuickPick(entries.map(entry => this.toQuickPickItem(entry)), { placeHolder });
+        return selected?.entry;
+    }
+
+    private toQuickPickItem(entry: BuildHistoryEntry): EntryQuickPickItem {
+        return {
+            label: `${path.basename(entry.document)}  ${formatTime(entry)}`,
+            description: [entry.profile, formatCommit(entry)].filter(Boolean).join(' · '),
+            detail: vscode.workspace.asRelativePath(entry.document),
+            entry
+        };
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -1,171 +1,374 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { OutputFormat, OUTPUT_FORMATS, ALL_OUTPUT_FORMATS } from './outputFormats';
+import { BuildDiagnostics } from './buildDiagnostics';
+import { BuildRunner, RunnerCommand, RunnerKind, createRunner, formatCommandLine } from './buildRunner';
+import { runProcess } from './processUtils';
+import { ArchiveExporter } from './archiveExporter';
+import { getDiagramCacheArgs } from './diagramCache';
+import { loadPdfTheme } from './pdfTheme';
+import { CHANGE_MARKS_ATTRIBUTE, applyBuildProfile, findTodos, getActiveBuildProfile, getDefaultOutputFormat, getProfileLabel } from './buildProfiles';
+import { ProjectContext, getResourceConfiguration, pickWorkspaceFolder, resolveProjectContext } from './projectContext';
+import { BuildHistory, NewBuildHistoryEntry, SourceRevision, getSourceRevision } from './buildHistory';
+import {
+    AttributeValue,
+    ManifestTarget,
+    findProjectManifests,
+    loadProjectManifest,
+    resolveManifestTargets
+} from './projectManifest';
+
+// 対話なしでビルドするドキュメント
+export interface DocumentBuildTarget {
+    filePath: string;
+    formats: OutputFormat[];
+    options?: BuildOptions;
+}
+
+// 複数ドキュメントのビルド結果
+export interface DocumentBuildSummary {
+    successes: string[];
+    failures: string[];
+    cancelled: boolean;
+}
+
+// 1つの入力ファイルのビルド完了通知
+export interface BuildCompletedEvent {
+    filePath: string;
+    outputFiles: string[];
+    failedFormats: string[];
+}
+
+// ビルド対象ごとの設定の上書き
+export interface BuildOptions {
+    outputDirectory?: string;
+    outputName?: string;
+    pdfTheme?: string;
+    attributes?: Record<string, AttributeValue>;
+    // false の場合は選択中のビルドプロファイルを適用しない
+    applyProfile?: boolean;
+    // false の場合はビルド履歴に記録しない
+    recordHistory?: boolean;
+    // 読み込むAsciidoctorの拡張（コマンドに渡すパス）
+    extensions?: string[];
+}
 
-const execAsync = promisify(exec);
+// 1つの出力形式のビルド結果
+interface FormatBuildResult {
+    outputFile: string;
+    // 問題パネルに追加した警告・エラーの件数
+    warnings: number;
+}
 
 export class BuildManager {
     private outputChannel: vscode.OutputChannel;
-
-    constructor() {
+    private diagnostics: BuildDiagnostics;
+    private archiveExporter: ArchiveExporter;
+    private readonly _onDidBuild = new vscode.EventEmitter<BuildCompletedEvent>();
+    readonly onDidBuild = this._onDidBuild.event;
+    private buildQueue: Promise<unknown> = Promise.resolve();
+    private queuedBuilds = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly history: BuildHistory) {
         this.outputChannel = vscode.window.createOutputChannel('Asciidoc Build');
+        this.diagnostics = new BuildDiagnostics();
+        this.archiveExporter = new ArchiveExporter(this.outputChannel);
     }
 
-    // Dockerの可用性をチェック
-    private async checkDockerAvailability(): Promise<boolean> {
-        try {
-            const { stdout } = await execAsync('docker --version');
-            this.outputChannel.appendLine(`Docker検出: ${stdout.trim()}`);
-            return true;
-        } catch (error) {
-            this.outputChannel.appendLine(`Dockerが見つかりません: ${error}`);
-            return false;
+    // すべてのランナーで共通のAsciidoctorオプションを組み立てる
+    // パスは入力ファイルのディレクトリを基準とする
+    private async buildAsciidoctorArgs(
+        format: OutputFormat,
+        config: vscode.WorkspaceConfiguration,
+        workspaceRoot: string,
+        inputFileDir: string,
+        runnerKind: RunnerKind,
+        buildOptions: BuildOptions
+    ): Promise<string[]> {
+        // 未解決の相互参照なども診断結果に含めるため詳細ログを有効化
+        const args = ['-v'];
+
+        // 図表機能の有効化
+        if (config.get<boolean>('build.enableDiagrams', true)) {
+            args.push('-r', 'asciidoctor-diagram');
+            // 描画済みの図表をビルド間で再利用する
+            args.push(...getDiagramCacheArgs(format, workspaceRoot, inputFileDir, runnerKind));
         }
-    }
 
-    // ネイティブAsciidoctorの可用性をチェック
-    private async checkNativeAsciidoctorAvailability(): Promise<boolean> {
-        try {
-            const config = vscode.workspace.getConfiguration('asciidocSuite');
-            const nativeAsciidoctorPath = config.get<string>('build.nativeAsciidoctorPath', 'asciidoctor-pdf');
-            const { stdout } = await execAsync(`${nativeAsciidoctorPath} --version`);
-            this.outputChannel.appendLine(`ネイティブAsciidoctor PDF検出: ${stdout.trim()}`);
-            return true;
-        } catch (error) {
-            this.outputChannel.appendLine(`ネイティブAsciidoctor PDFが見つかりません: ${error}`);
-            return false;
+        for (const extension of buildOptions.extensions ?? []) {
+            args.push('-r', extension);
         }
-    }
 
-    // Asciidoctor Dockerイメージの取得を確認
-    private async ensureAsciidoctorImage(): Promise<boolean> {
-        try {
-            this.outputChannel.appendLine('Asciidoctor Dockerイメージを確認中...');
-            
-            // イメージが既に存在するかチェック
-            const { stdout } = await execAsync('docker images asciidoctor/docker-asciidoctor --format "{{.Repository}}"');
-            
-            if (stdout.trim()) {
-                this.outputChannel.appendLine('Asciidoctor Dockerイメージが利用可能です。');
-                return true;
+        switch (format) {
+            case 'pdf': {
+                // CJKスクリプト有効化
+                args.push('-a', 'scripts=cjk');
+
+                // PDFテーマの指定
+                const pdfTheme = buildOptions.pdfTheme ?? config.get<string>('build.pdfTheme', './theme/document-theme.yml');
+                const themePath = await this.resolveFormatResource('PDFテーマ', pdfTheme, inputFileDir);
+                if (themePath) {
+                    args.push('-a', `pdf-theme=${themePath}`);
+                    await this.reportThemeIssues(path.resolve(inputFileDir, themePath), CHANGE_MARKS_ATTRIBUTE in (buildOptions.attributes ?? {}));
+                }
+                break;
             }
+            case 'html5': {
+                // スタイルシートの指定
+                const stylesheet = config.get<string>('build.html.stylesheet', './style.css');
+                const stylesheetPath = await this.resolveFormatResource('スタイルシート', stylesheet, inputFileDir);
+                if (stylesheetPath) {
+                    args.push('-a', `stylesheet=${stylesheetPath}`);
+                }
 
-            // イメージが存在しない場合、プルを提案
-            const pullImage = await vscode.window.showInformationMessage(
-                'Asciidoctor Dockerイメージが必要です。ダウンロードしますか？（初回のみ、数分かかる場合があります）',
-                'はい',
-                'いいえ'
-            );
+                // 画像をData URIとして埋め込む
+                if (config.get<boolean>('build.html.embedImages', true)) {
+                    args.push('-a', 'data-uri');
+                }
+                break;
+            }
+            case 'epub3': {
+                // EPUBスタイルディレクトリの指定
+                const stylesDir = config.get<string>('build.epub.stylesDirectory', './theme/epub');
+                const stylesDirPath = await this.resolveFormatResource('EPUBスタイル', stylesDir, inputFileDir);
+                if (stylesDirPath) {
+                    args.push('-a', `epub3-stylesdir=${stylesDirPath}`);
+                }
+                break;
+            }
+        }
 
-            if (pullImage === 'はい') {
-                this.outputChannel.appendLine('Asciidoctor Dockerイメージをダウンロード中...');
-                vscode.window.showInformationMessage('Asciidoctor Dockerイメージをダウンロード中です。しばらくお待ちください。');
-                
-                const { stdout: pullOutput } = await execAsync('docker pull asciidoctor/docker-asciidoctor');
-                this.outputChannel.appendLine('ダウンロード完了:');
-                this.outputChannel.appendLine(pullOutput);
-                
-                vscode.window.showInformationMessage('Asciidoctor Dockerイメージのダウンロードが完了しました。');
-                return true;
+        // ドキュメント属性の上書き
+        for (const [name, value] of Object.entries(buildOptions.attributes ?? {})) {
+            if (value === false) {
+                args.push('-a', `${name}!`);
+            } else if (value === true) {
+                args.push('-a', name);
+            } else {
+                args.push('-a', `${name}=${value}`);
             }
+        }
 
-            return false;
-        } catch (error) {
-            this.outputChannel.appendLine(`イメージ確認エラー: ${error}`);
-            vscode.window.showErrorMessage('Asciidoctor Dockerイメージの確認中にエラーが発生しました。');
-            return false;
+        return args;
+    }
+
+    // テーマやスタイルシートの存在を確認し、コマンドに渡すパスを返す
+    private async resolveFormatResource(
+        label: string,
+        resourcePath: string | undefined,
+        inputFileDir: string
+    ): Promise<string | undefined> {
+        if (!resourcePath) {
+            return undefined;
+        }
+
+        this.outputChannel.appendLine(`${label}検索を開始...`);
+        const fullResourcePath = path.resolve(inputFileDir, resourcePath);
+        this.outputChannel.appendLine(`  チェック中: ${resourcePath} -> ${fullResourcePath}`);
+
+        if (await fs.pathExists(fullResourcePath)) {
+            this.outputChannel.appendLine(`  ✓ ${label}を発見: ${fullResourcePath}`);
+            return resourcePath;
         }
+
+        this.outputChannel.appendLine(`  ✗ ${label}が見つかりません: ${fullResourcePath}`);
+        this.outputChannel.appendLine('デフォルト設定でビルドを続行します。');
+        vscode.window.showWarningMessage(`${label}が見つかりません: ${resourcePath}（デフォルト設定でビルドします）`);
+        return undefined;
     }
 
-    // ネイティブAsciidoctor-PDFを使用してビルド
-    private async buildPdfNative(filePath: string, workspaceRoot: string, config: vscode.WorkspaceConfiguration): Promise<void> {
-        const outputDir = config.get<string>('build.outputDirectory', './output');
-        const pdfTheme = config.get<string>('build.pdfTheme', './theme/document-theme.yml');
-        const enableDiagrams = config.get<boolean>('build.enableDiagrams', true);
-        const nativeAsciidoctorPath = config.get<string>('build.nativeAsciidoctorPath', 'asciidoctor-pdf');
+    // テーマの誤りは asciidoctor-pdf が既定値で続行してしまうため、ビルド前に検証して知らせる
+    private async reportThemeIssues(themeFile: string, changeMarks: boolean): Promise<void> {
+        const theme = await loadPdfTheme(themeFile);
+        const errors = theme.issues.filter(issue => issue.severity === 'error');
+        const warningCount = theme.issues.length - errors.length;
 
-        // 出力ディレクトリの準備
-        const fullOutputDir = path.resolve(workspaceRoot, outputDir);
-        await fs.ensureDir(fullOutputDir);
+        if (changeMarks && ![...theme.values.keys()].some(key => key.startsWith('role_changed_'))) {
+            this.outputChannel.appendLine('  PDFテーマに role の changed が定義されていないため、変更箇所は強調されません。');
+        }
 
-        const fileName = path.basename(filePath, '.adoc');
-        const outputFile = path.join(fullOutputDir, `${fileName}.pdf`);
-        const relativeFilePath = path.relative(workspaceRoot, filePath);
-        const relativeOutputFile = path.relative(workspaceRoot, outputFile);
-        
-        this.outputChannel.appendLine(`ワークスペースルート: ${workspaceRoot}`);
-        this.outputChannel.appendLine(`入力ファイル: ${relativeFilePath}`);
-        this.outputChannel.appendLine(`出力ファイル: ${relativeOutputFile}`);
-        
-        let command = nativeAsciidoctorPath;
-        
-        // CJKスクリプト有効化
-        command += ` -a scripts=cjk`;
-        
-        // 図表機能の有効化
-        if (enableDiagrams) {
-            command += ` -r asciidoctor-diagram`;
+        errors.forEach(issue => {
+            this.outputChannel.appendLine(`  ✗ ${path.basename(issue.file)}:${issue.line + 1} ${issue.message}`);
+        });
+        if (warningCount > 0) {
+            this.outputChannel.appendLine(`  PDFテーマに${warningCount}件の警告があります（問題パネルを確認してください）。`);
         }
-        
-        // PDFテーマの指定
-        if (pdfTheme) {
-            const inputFileDir = path.dirname(relativeFilePath);
-            const themePathFromInputDir = path.join(inputFileDir, pdfTheme);
-            
-            this.outputChannel.appendLine(`PDFテーマ検索を開始...`);
-            const fullThemePath = path.resolve(workspaceRoot, themePathFromInputDir);
-            this.outputChannel.appendLine(`  チェック中: ${themePathFromInputDir} -> ${fullThemePath}`);
-            
-            if (await fs.pathExists(fullThemePath)) {
-                command += ` -a pdf-theme=${themePathFromInputDir}`;
-                this.outputChannel.appendLine(`  ✓ PDFテーマを発見: ${fullThemePath}`);
-            } else {
-                this.outputChannel.appendLine(`  ✗ PDFテーマが見つかりません: ${fullThemePath}`);
-                this.outputChannel.appendLine('デフォルトテーマでビルドを続行します。');
-            }
+
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(
+                `PDFテーマに${errors.length}件のエラーがあります。既定値で出力される箇所があります。`,
+                'テーマエディタを開く'
+            ).then(selection => {
+                if (selection) {
+                    vscode.commands.executeCommand('asciidocSuite.openThemeEditor', vscode.Uri.file(themeFile));
+                }
+            });
         }
+    }
+
+    // 指定されたランナーで1つの出力形式をビルド
+    private async buildFormat(
+        filePath: string,
+        project: ProjectContext,
+        config: vscode.WorkspaceConfiguration,
+        runner: BuildRunner,
+        format: OutputFormat,
+        buildOptions: BuildOptions,
+        token: vscode.CancellationToken
+    ): Promise<FormatBuildResult> {
+        const formatInfo = OUTPUT_FORMATS[format];
+        const outputDir = config.get<string>('build.outputDirectory', './output');
 
-        command += ` -o "${relativeOutputFile}" "${relativeFilePath}"`;
+        // 出力ディレクトリの準備（ドキュメントの属するプロジェクトを基準とする）
+        const fullOutputDir = buildOptions.outputDirectory ?? path.resolve(project.projectRoot, outputDir);
+        await fs.ensureDir(fullOutputDir);
+
+        const fileName = buildOptions.outputName ?? path.basename(filePath, '.adoc');
+        const outputFile = path.join(fullOutputDir, `${fileName}${formatInfo.extension}`);
 
-        this.outputChannel.appendLine(`実行コマンド: ${command}`);
+        this.outputChannel.appendLine(`ワークスペースルート: ${project.workspaceRoot}`);
+        this.outputChannel.appendLine(`プロジェクトルート: ${project.projectRoot}`);
+        this.outputChannel.appendLine(`入力ファイル: ${vscode.workspace.asRelativePath(filePath)}`);
+        this.outputChannel.appendLine(`出力ファイル: ${vscode.workspace.asRelativePath(outputFile)}`);
+
+        const args = await this.buildAsciidoctorArgs(
+            format, config, project.workspaceRoot, path.dirname(filePath), runner.kind, buildOptions
+        );
+        const runnerCommand = runner.createCommand({
+            format,
+            workspaceRoot: project.workspaceRoot,
+            inputFile: filePath,
+            outputFile,
+            args
+        });
+
+        this.outputChannel.appendLine(`実行コマンド: ${formatCommandLine(runnerCommand.command, runnerCommand.args)}`);
 
         // ビルド実行
-        const { stdout, stderr } = await execAsync(command, { 
-            cwd: workspaceRoot,
-            maxBuffer: 1024 * 1024 * 10 // 10MB
+        const warnings = await this.runBuildCommand(runnerCommand, filePath, token);
+
+        this.outputChannel.appendLine(`${formatInfo.label} ビルドが完了しました（${runner.label}）。`);
+        return { outputFile, warnings };
+    }
+
+    // ビルドコマンドを実行し、出力をチャンネルと診断結果に反映する
+    // 戻り値は問題パネルに追加した警告・エラーの件数
+    private async runBuildCommand(
+        runnerCommand: RunnerCommand,
+        entryFile: string,
+        token: vscode.CancellationToken
+    ): Promise<number> {
+        const config = getResourceConfiguration(entryFile);
+        const logLines: string[] = [];
+        let firstErrorLine: string | undefined;
+
+        // 出力は受け取った順にチャンネルへ流し、診断に必要なログ行だけを保持する
+        const { error: failure } = await runProcess(runnerCommand.command, runnerCommand.args, {
+            cwd: runnerCommand.cwd,
+            token,
+            timeoutSeconds: config.get<number>('build.timeout', 600),
+            captureOutput: false,
+            onLine: (line, stream) => {
+                this.outputChannel.appendLine(stream === 'stderr' ? `[stderr] ${line}` : line);
+                if (line.startsWith('asciidoctor:')) {
+                    logLines.push(line);
+                }
+                if (stream === 'stderr' && !firstErrorLine && line.trim()) {
+                    firstErrorLine = line.trim();
+                }
+            },
+            // コンテナはクライアントを止めても動き続けるため、停止コマンドを実行する
+            onStop: () => {
+                if (runnerCommand.stopCommand) {
+                    const { command, args } = runnerCommand.stopCommand;
+                    runProcess(command, args);
+                }
+            }
         });
 
-        if (stdout) {
-            this.outputChannel.appendLine('STDOUT:');
-            this.outputChannel.appendLine(stdout);
+        if (failure instanceof vscode.CancellationError) {
+            this.outputChannel.appendLine('ビルドがキャンセルされました。');
+            throw failure;
         }
 
-        if (stderr) {
-            this.outputChannel.appendLine('STDERR:');
-            this.outputChannel.appendLine(stderr);
+        // ログ中のコンテナ内パスはホスト側のパスに読み替える
+        const reported = this.diagnostics.report(
+            logLines.join('\n'),
+            runnerCommand.logBaseDir,
+            entryFile,
+            runnerCommand.pathMapping
+        );
+        if (reported > 0) {
+            this.outputChannel.appendLine(`問題パネルに${reported}件の警告・エラーを追加しました。`);
         }
 
-        this.outputChannel.appendLine('PDF ビルドが完了しました（ネイティブ）。');
-        vscode.window.showInformationMessage(`PDF ビルドが完了しました: ${outputFile}`);
+        if (failure) {
+            if (reported === 0) {
+                this.diagnostics.reportFailure(entryFile, `ビルドに失敗しました: ${firstErrorLine ?? failure.message}`);
+            }
+            throw failure;
+        }
+        return reported;
+    }
 
-        // 生成されたPDFファイルを開くかどうか確認
-        const openFile = await vscode.window.showInformationMessage(
-            'ビルドが完了しました。PDFファイルを開きますか？',
-            '開く',
-            'キャンセル'
-        );
+    // ビルドを順番に実行するキューに追加する
+    // 同じ対象のビルドが待機中・実行中の場合は新たに実行せず、その結果を共有する
+    private enqueueBuild<T>(
+        key: string,
+        title: string,
+        job: (progress: vscode.Progress<{ message?: string }>, token: vscode.CancellationToken) => Promise<T>
+    ): Promise<T> {
+        const existing = this.queuedBuilds.get(key) as Promise<T> | undefined;
+        if (existing) {
+            this.outputChannel.appendLine(`同じ対象のビルドが既に実行中または待機中です: ${title}`);
+            vscode.window.showInformationMessage('同じ対象のビルドが既に実行中または待機中です。');
+            return existing;
+        }
 
-        if (openFile === '開く') {
-            await vscode.env.openExternal(vscode.Uri.file(outputFile));
+        if (this.queuedBuilds.size > 0) {
+            this.outputChannel.appendLine(`ビルドを待機キューに追加しました: ${title}`);
         }
+
+        const run = this.buildQueue.then(() => vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: true
+        }, job));
+
+        const tracked = run.finally(() => this.queuedBuilds.delete(key));
+        this.buildQueue = tracked.catch(() => undefined);
+        this.queuedBuilds.set(key, tracked);
+        return tracked;
     }
 
     async buildPdf(): Promise<void> {
+        await this.build(['pdf']);
+    }
+
+    async buildHtml(): Promise<void> {
+        await this.build(['html5']);
+    }
+
+    async buildEpub(): Promise<void> {
+        await this.build(['epub3']);
+    }
+
+    async buildAllFormats(): Promise<void> {
+        await this.build(ALL_OUTPUT_FORMATS);
+    }
+
+    // 設定された出力形式（ビルドプロファイルの形式を優先）でビルド
+    async buildConfiguredFormat(): Promise<void> {
+        await this.build([getDefaultOutputFormat(vscode.window.activeTextEditor?.document.fileName)]);
+    }
+
+    async build(formats: OutputFormat[]): Promise<void> {
+        const formatLabels = formats.map(format => OUTPUT_FORMATS[format].label).join(' / ');
+
         try {
             this.outputChannel.show();
-            this.outputChannel.appendLine('PDF ビルドを開始します...');
+            this.outputChannel.appendLine(`${formatLabels} ビルドを開始します...`);
 
             // Asciidocファイルの選択
             const filePath = await this.selectAsciidocFile();
@@ -173,161 +376,346 @@ export class BuildManager {
                 return;
             }
 
-            const workspaceRoot = this.getWorkspaceRoot();
-            const config = vscode.workspace.getConfiguration('asciidocSuite');
-            const useDocker = config.get<boolean>('build.useDocker', true);
+            const config = getResourceConfiguration(filePath);
 
-            // ビルド方法の決定
-            let useDockerBuild = false;
-            let useNativeBuild = false;
-
-            if (useDocker) {
-                // Docker優先設定の場合
-                const dockerAvailable = await this.checkDockerAvailability();
-                if (dockerAvailable && await this.ensureAsciidoctorImage()) {
-                    useDockerBuild = true;
-                    this.outputChannel.appendLine('Dockerを使用してビルドします。');
-                } else {
-                    // Dockerが利用できない場合はネイティブにフォールバック
-                    const nativeAvailable = await this.checkNativeAsciidoctorAvailability();
-                    if (nativeAvailable) {
-                        useNativeBuild = true;
-                        this.outputChannel.appendLine('Dockerが利用できないため、ネイティブAsciidoctorを使用します。');
+            const result = await this.enqueueBuild(
+                this.getBuildKey(filePath, formats),
+                `${formatLabels} ビルド: ${path.basename(filePath)}`,
+                async (progress, token) => {
+                    const runner = await this.selectRunner(formats, config);
+                    if (!runner) {
+                        return undefined;
                     }
+
+                    this.diagnostics.clear();
+
+                    // 選択されたビルド方法で形式ごとに実行
+                    return this.buildFormats(filePath, runner, formats, {}, progress, token);
                 }
-            } else {
-                // ネイティブ優先設定の場合
-                const nativeAvailable = await this.checkNativeAsciidoctorAvailability();
-                if (nativeAvailable) {
-                    useNativeBuild = true;
-                    this.outputChannel.appendLine('ネイティブAsciidoctorを使用してビルドします。');
-                } else {
-                    // ネイティブが利用できない場合はDockerにフォールバック
-                    const dockerAvailable = await this.checkDockerAvailability();
-                    if (dockerAvailable && await this.ensureAsciidoctorImage()) {
-                        useDockerBuild = true;
-                        this.outputChannel.appendLine('ネイティブAsciidoctorが利用できないため、Dockerを使用します。');
-                    }
+            );
+
+            if (!result) {
+                return;
+            }
+
+            if (result.cancelled) {
+                vscode.window.showInformationMessage('ビルドをキャンセルしました。');
+                return;
+            }
+
+            if (result.failedFormats.length > 0) {
+                vscode.window.showErrorMessage(`${result.failedFormats.join(' / ')} ビルド中にエラーが発生しました。出力パネルを確認してください。`);
+            }
+
+            await this.offerToOpenOutputs(result.outputFiles);
+
+        } catch (error) {
+            this.outputChannel.appendLine(`エラー: ${error}`);
+            vscode.window.showErrorMessage(`${formatLabels} ビルド中にエラーが発生しました: ${error}`);
+        }
+    }
+
+    // プロジェクトマニフェストに宣言されたすべてのドキュメントをビルド
+    async buildAll(): Promise<void> {
+        try {
+            this.outputChannel.show();
+            this.outputChannel.appendLine('プロジェクトマニフェストのビルドを開始します...');
+
+            const manifestPaths = await findProjectManifests();
+            if (manifestPaths.length === 0) {
+                vscode.window.showErrorMessage('プロジェクトマニフェスト（asciidoc-suite.yml）が見つかりません。');
+                return;
+            }
+
+
+            // マニフェストの読み込み
+            const targets: ManifestTarget[] = [];
+            const failures: string[] = [];
+
+            for (const manifestPath of manifestPaths) {
+                this.outputChannel.appendLine(`マニフェスト: ${vscode.workspace.asRelativePath(manifestPath)}`);
+                try {
+                    const manifest = await loadProjectManifest(manifestPath);
+                    targets.push(...resolveManifestTargets(manifestPath, manifest, getDefaultOutputFormat(manifestPath)));
+                } catch (error) {
+                    failures.push(vscode.workspace.asRelativePath(manifestPath));
+                    this.outputChannel.appendLine(`  ✗ マニフェストの読み込みに失敗しました: ${error}`);
                 }
             }
 
-            if (!useDockerBuild && !useNativeBuild) {
-                vscode.window.showErrorMessage(
-                    'DockerもネイティブAsciidoctorも利用できません。どちらかをインストールしてください。',
-                    'Dockerについて',
-                    'Asciidoctorについて'
-                ).then(selection => {
-                    if (selection === 'Dockerについて') {
-                        vscode.env.openExternal(vscode.Uri.parse('https://docs.docker.com/get-docker/'));
-                    } else if (selection === 'Asciidoctorについて') {
-                        vscode.env.openExternal(vscode.Uri.parse('https://docs.asciidoctor.org/asciidoctor/latest/install/'));
-                    }
-                });
+            if (targets.length === 0) {
+                vscode.window.showErrorMessage('ビルド対象のドキュメントがマニフェストに宣言されていません。');
                 return;
             }
 
-            // 選択されたビルド方法で実行
-            if (useNativeBuild) {
-                await this.buildPdfNative(filePath, workspaceRoot, config);
+            const result = await this.buildDocuments(targets);
+            if (!result) {
                 return;
             }
-            
-            // useDockerBuildの場合のみ以下のDockerビルドを実行
-            const outputDir = config.get<string>('build.outputDirectory', './output');
-            const pdfTheme = config.get<string>('build.pdfTheme', './theme/document-theme.yml');
-            const enableDiagrams = config.get<boolean>('build.enableDiagrams', true);
-
-            // 出力ディレクトリの準備
-            const fullOutputDir = path.resolve(workspaceRoot, outputDir);
-            await fs.ensureDir(fullOutputDir);
-
-            // Dockerコンテナを使用してAsciidoctor-PDFを実行
-            const fileName = path.basename(filePath, '.adoc');
-            const outputFile = path.join(fullOutputDir, `${fileName}.pdf`);
-            const relativeFilePath = path.relative(workspaceRoot, filePath);
-            const relativeOutputDir = path.relative(workspaceRoot, fullOutputDir);
-            
-            // 入力ファイルのディレクトリを取得
-            const inputFileDir = path.dirname(filePath);
-            const relativeInputFileDir = path.relative(workspaceRoot, inputFileDir);
-            const inputFileName = path.basename(filePath);
-            
-            // 入力ファイルディレクトリから出力ディレクトリへの相対パス
-            const outputDirFromInputDir = path.relative(inputFileDir, fullOutputDir);
-            const relativeOutputFile = path.join(outputDirFromInputDir, `${fileName}.pdf`);
-            
-            this.outputChannel.appendLine(`ワークスペースルート: ${workspaceRoot}`);
-            this.outputChannel.appendLine(`入力ファイル: ${relativeFilePath}`);
-            this.outputChannel.appendLine(`入力ファイルディレクトリ: ${relativeInputFileDir}`);
-            this.outputChannel.appendLine(`出力ディレクトリ: ${relativeOutputDir}`);
-            this.outputChannel.appendLine(`出力ファイル（入力ディレクトリからの相対パス）: ${relativeOutputFile}`);
-            
-            let command = `docker run --rm `;
-            command += `-v "${workspaceRoot}:/workspace" `;
-            command += `-w /workspace/${relativeInputFileDir} `;
-            command += `asciidoctor/docker-asciidoctor asciidoctor-pdf`;
-            
-            // CJKスクリプト有効化
-            command += ` -a scripts=cjk`;
-            
-            // 図表機能の有効化
-            if (enableDiagrams) {
-                command += ` -r asciidoctor-diagram`;
+
+            if (result.cancelled) {
+                vscode.window.showInformationMessage('一括ビルドをキャンセルしました。');
+                return;
             }
-            
-            // PDFテーマの指定
-            if (pdfTheme) {
-                this.outputChannel.appendLine(`PDFテーマ検索を開始...`);
-                const fullThemePath = path.resolve(inputFileDir, pdfTheme);
-                this.outputChannel.appendLine(`  チェック中: ${pdfTheme} -> ${fullThemePath}`);
-                
-                if (await fs.pathExists(fullThemePath)) {
-                    command += ` -a pdf-theme=${pdfTheme}`;
-                    this.outputChannel.appendLine(`  ✓ PDFテーマを発見: ${fullThemePath}`);
-                } else {
-                    this.outputChannel.appendLine(`  ✗ PDFテーマが見つかりません: ${fullThemePath}`);
-                    this.outputChannel.appendLine('デフォルトテーマでビルドを続行します。');
+
+            const successes = result.successes;
+            failures.push(...result.failures);
+
+            // ビルド結果のサマリー
+            this.outputChannel.appendLine('--- ビルド結果 ---');
+            successes.forEach(file => this.outputChannel.appendLine(`  ✓ ${file}`));
+            failures.forEach(item => this.outputChannel.appendLine(`  ✗ ${item}`));
+
+            const summary = `ビルドが完了しました: 成功 ${successes.length}件 / 失敗 ${failures.length}件`;
+            this.outputChannel.appendLine(summary);
+
+            if (failures.length > 0) {
+                vscode.window.showWarningMessage(`${summary}。出力パネルを確認してください。`);
+            } else {
+                vscode.window.showInformationMessage(summary);
+            }
+
+        } catch (error) {
+            this.outputChannel.appendLine(`エラー: ${error}`);
+            vscode.window.showErrorMessage(`一括ビルド中にエラーが発生しました: ${error}`);
+        }
+    }
+
+    // 指定されたドキュメントを対話なしでビルドする（ビルド方法が決まらない場合は undefined）
+    async buildDocuments(targets: DocumentBuildTarget[]): Promise<DocumentBuildSummary | undefined> {
+        // ビルド方法は最初のドキュメントのフォルダの設定で決める
+        const config = getResourceConfiguration(targets[0]?.filePath);
+
+        const key = targets
+            .map(target => this.getBuildKey(target.filePath, target.formats, target.options))
+            .sort()
+            .join('|');
+        const title = targets.length === 1
+            ? `ビルド: ${path.basename(targets[0].filePath)}`
+            : `一括ビルド: ${targets.length}件のドキュメント`;
+
+        return this.enqueueBuild(key, title, async (progress, token) => {
+            const allFormats = ALL_OUTPUT_FORMATS.filter(format =>
+                targets.some(target => target.formats.includes(format))
+            );
+            const runner = await this.selectRunner(allFormats, config);
+            if (!runner) {
+                return undefined;
+            }
+
+            this.diagnostics.clear();
+
+            const successes: string[] = [];
+            const failures: string[] = [];
+            let cancelled = false;
+
+            for (const target of targets) {
+                if (token.isCancellationRequested) {
+                    cancelled = true;
+                    break;
+                }
+
+                const relativeFilePath = vscode.workspace.asRelativePath(target.filePath);
+                this.outputChannel.appendLine(`=== ${relativeFilePath} ===`);
+
+                if (!await fs.pathExists(target.filePath)) {
+                    failures.push(relativeFilePath);
+                    this.outputChannel.appendLine(`  ✗ 入力ファイルが見つかりません: ${target.filePath}`);
+                    continue;
                 }
+
+                const result = await this.buildFormats(
+                    target.filePath, runner, target.formats, target.options ?? {}, progress, token
+                );
+
+                successes.push(...result.outputFiles.map(file => vscode.workspace.asRelativePath(file)));
+                failures.push(...result.failedFormats.map(label => `${relativeFilePath} (${label})`));
+                cancelled = result.cancelled;
+            }
+
+            return { successes, failures, cancelled };
+        });
+    }
+
+    // 1つの入力ファイルを指定された形式ごとにビルド
+    private async buildFormats(
+        filePath: string,
+        runner: BuildRunner,
+        formats: OutputFormat[],
+        buildOptions: BuildOptions,
+        progress: vscode.Progress<{ message?: string }>,
+        token: vscode.CancellationToken
+    ): Promise<{ outputFiles: string[]; failedFormats: string[]; cancelled: boolean }> {
+        const outputFiles: string[] = [];
+        const failedFormats: string[] = [];
+        let cancelled = false;
+
+        // ドキュメントの属するプロジェクトとフォルダの設定
+        const project = await resolveProjectContext(filePath);
+        const config = getResourceConfiguration(filePath);
+
+        // ワークスペースフォルダ内のドキュメントのみ履歴に記録する
+        const keepHistory = buildOptions.recordHistory !== false
+            && project.workspaceFolder !== undefined
+            && config.get<boolean>('history.enabled', true);
+        const revision = keepHistory ? await getSourceRevision(path.dirname(filePath)) : undefined;
+
+        // 選択中のビルドプロファイルの属性・テーマ・出力ファイル名を反映する
+        const profile = buildOptions.applyProfile === false ? undefined : getActiveBuildProfile(filePath);
+        if (profile) {
+            this.outputChannel.appendLine(`ビルドプロファイル: ${getProfileLabel(profile)}`);
+            buildOptions = await applyBuildProfile(profile, filePath, project, runner.kind, buildOptions, message => this.outputChannel.appendLine(message));
+
+            if (profile.failOnTodo && !await this.checkTodos(filePath)) {
+                failedFormats.push(...formats.map(format => OUTPUT_FORMATS[format].label));
+                this._onDidBuild.fire({ filePath, outputFiles, failedFormats });
+                return { outputFiles, failedFormats, cancelled };
             }
+        }
 
-            command += ` -o "${relativeOutputFile}" "${inputFileName}"`;
+        for (const format of formats) {
+            if (token.isCancellationRequested) {
+                cancelled = true;
+                break;
+            }
 
-            this.outputChannel.appendLine(`実行コマンド: ${command}`);
+            const formatInfo = OUTPUT_FORMATS[format];
+            this.outputChannel.appendLine(`--- ${formatInfo.label} ---`);
+            progress.report({ message: `${formatInfo.label}: ${path.basename(filePath)}` });
+
+            const startTime = new Date();
+            const entry = {
+                time: startTime.toISOString(),
+                workspaceRoot: project.workspaceRoot,
+                document: filePath,
+                format,
+                profile: profile ? getProfileLabel(profile) : undefined,
+                runner: runner.label
+            };
 
-            // 出力ディレクトリを確実に作成するため、Dockerコンテナ内でもmkdirを実行
-            const mkdirCommand = `docker run --rm -v "${workspaceRoot}:/workspace" -w /workspace/${relativeInputFileDir} asciidoctor/docker-asciidoctor mkdir -p "${outputDirFromInputDir}"`;
-            this.outputChannel.appendLine(`ディレクトリ作成コマンド: ${mkdirCommand}`);
-            
             try {
-                await execAsync(mkdirCommand, { cwd: workspaceRoot });
-                this.outputChannel.appendLine('出力ディレクトリを作成しました。');
+                const { outputFile, warnings } = await this.buildFormat(filePath, project, config, runner, format, buildOptions, token);
+                outputFiles.push(outputFile);
+                if (keepHistory) {
+                    await this.recordHistory({ ...entry, durationMs: Date.now() - startTime.getTime(), warnings, succeeded: true, outputFile }, revision);
+                }
             } catch (error) {
-                this.outputChannel.appendLine(`ディレクトリ作成警告: ${error}`);
-                // エラーでも続行（既に存在する場合など）
+                if (error instanceof vscode.CancellationError) {
+                    cancelled = true;
+                    break;
+                }
+                failedFormats.push(formatInfo.label);
+                this.outputChannel.appendLine(`エラー: ${error}`);
+                if (keepHistory) {
+                    await this.recordHistory({ ...entry, durationMs: Date.now() - startTime.getTime(), succeeded: false }, revision);
+                }
+            }
+        }
+
+        this._onDidBuild.fire({ filePath, outputFiles, failedFormats });
+        return { outputFiles, failedFormats, cancelled };
+    }
+
+    // ビルド履歴に記録する（記録に失敗してもビルドは失敗としない）
+    private async recordHistory(entry: NewBuildHistoryEntry, revision: SourceRevision | undefined): Promise<void> {
+        try {
+            await this.history.record({ ...entry, commit: revision?.commit, dirty: revision?.dirty });
+        } catch (error) {
+            this.outputChannel.appendLine(`ビルド履歴の記録に失敗しました: ${error}`);
+        }
+    }
+
+    // TODO が残っていないか確認し、残っている箇所を問題パネルに記録する
+    private async checkTodos(filePath: string): Promise<boolean> {
+        const todos = await findTodos(filePath);
+        if (todos.length === 0) {
+            return true;
+        }
+
+        this.outputChannel.appendLine(`TODO が${todos.length}件残っているため、ビルドを中止しました。`);
+        for (const todo of todos) {
+            this.outputChannel.appendLine(`  ${vscode.workspace.asRelativePath(todo.file)}:${todo.line + 1}: ${todo.text}`);
+            this.diagnostics.reportFailure(todo.file, `ビルドプロファイルの設定により TODO が残っている文書はビルドできません: ${todo.text}`, todo.line);
+        }
+        return false;
+    }
+
+    // ビルドキューで重複を判定するためのキー
+    private getBuildKey(filePath: string, formats: OutputFormat[], buildOptions: BuildOptions = {}): string {
+        return [path.resolve(filePath), [...formats].sort().join(','), buildOptions.outputName ?? ''].join('#');
+    }
+
+    // 設定と環境からビルドに使用するランナーを決定
+    private async selectRunner(
+        formats: OutputFormat[],
+        config: vscode.WorkspaceConfiguration
+    ): Promise<BuildRunner | undefined> {
+        const runnerSetting = config.get<RunnerKind | 'auto'>('build.runner', 'auto');
+
+        // ランナーが明示的に指定されている場合はフォールバックしない
+        if (runnerSetting !== 'auto') {
+            const runner = createRunner(runnerSetting, this.outputChannel);
+            if (await runner.prepare(formats)) {
+                this.outputChannel.appendLine(`${runner.label}を使用してビルドします。`);
+                return runner;
             }
 
-            // ビルド実行
-            const { stdout, stderr } = await execAsync(command, { 
-                cwd: workspaceRoot,
-                maxBuffer: 1024 * 1024 * 10 // 10MB
+            vscode.window.showErrorMessage(
+                `${runner.label}を利用できません。asciidocSuite.build.runner の設定を確認してください。`,
+                '環境を診断'
+            ).then(selection => {
+                if (selection === '環境を診断') {
+                    vscode.commands.executeCommand('asciidocSuite.checkEnvironment');
+                }
             });
+            return undefined;
+        }
+
+        // 自動選択の場合は useDocker の設定で優先順位を決める
+        const useDocker = config.get<boolean>('build.useDocker', true);
+        const candidates = (useDocker ? ['docker', 'native'] : ['native', 'docker'])
+            .map(kind => createRunner(kind as RunnerKind, this.outputChannel));
 
-            if (stdout) {
-                this.outputChannel.appendLine('STDOUT:');
-                this.outputChannel.appendLine(stdout);
+        for (const runner of candidates) {
+            if (await runner.prepare(formats)) {
+                if (runner === candidates[0]) {
+                    this.outputChannel.appendLine(`${runner.label}を使用してビルドします。`);
+                } else {
+                    this.outputChannel.appendLine(`${candidates[0].label}が利用できないため、${runner.label}を使用します。`);
+                }
+                return runner;
             }
+        }
 
-            if (stderr) {
-                this.outputChannel.appendLine('STDERR:');
-                this.outputChannel.appendLine(stderr);
+        vscode.window.showErrorMessage(
+            'DockerもネイティブAsciidoctorも利用できません。どちらかをインストールしてください。',
+            '環境を診断',
+            'Dockerについて',
+            'Asciidoctorについて'
+        ).then(selection => {
+            if (selection === '環境を診断') {
+                vscode.commands.executeCommand('asciidocSuite.checkEnvironment');
+            } else if (selection === 'Dockerについて') {
+                vscode.env.openExternal(vscode.Uri.parse('https://docs.docker.com/get-docker/'));
+            } else if (selection === 'Asciidoctorについて') {
+                vscode.env.openExternal(vscode.Uri.parse('https://docs.asciidoctor.org/asciidoctor/latest/install/'));
             }
+        });
+        return undefined;
+    }
 
-            this.outputChannel.appendLine('PDF ビルドが完了しました（Docker）。');
-            vscode.window.showInformationMessage(`PDF ビルドが完了しました: ${outputFile}`);
+    // 生成されたファイル（複数の場合は出力フォルダ）を開くかどうか確認
+    private async offerToOpenOutputs(outputFiles: string[]): Promise<void> {
+        if (outputFiles.length === 0) {
+            return;
+        }
+
+        if (outputFiles.length === 1) {
+            const outputFile = outputFiles[0];
+            vscode.window.showInformationMessage(`ビルドが完了しました: ${outputFile}`);
 
-            // 生成されたPDFファイルを開くかどうか確認
             const openFile = await vscode.window.showInformationMessage(
-                'ビルドが完了しました。PDFファイルを開きますか？',
+                'ビルドが完了しました。出力ファイルを開きますか？',
                 '開く',
                 'キャンセル'
             );
@@ -335,60 +723,30 @@ export class BuildManager {
             if (openFile === '開く') {
                 await vscode.env.openExternal(vscode.Uri.file(outputFile));
             }
+            return;
+        }
 
-        } catch (error) {
-            this.outputChannel.appendLine(`エラー: ${error}`);
-            vscode.window.showErrorMessage(`PDF ビルド中にエラーが発生しました: ${error}`);
+        const openFolder = await vscode.window.showInformationMessage(
+            `${outputFiles.length}件の出力ファイルを生成しました。出力フォルダを開きますか？`,
+            '開く',
+            'キャンセル'
+        );
+
+        if (openFolder === '開く') {
+            await vscode.env.openExternal(vscode.Uri.file(path.dirname(outputFiles[0])));
         }
     }
 
     async exportArchive(): Promise<void> {
         try {
-            this.outputChannel.show();
-            this.outputChannel.appendLine('アーカイブエクスポートを開始します...');
-
-            const workspaceRoot = this.getWorkspaceRoot();
-            const config = vscode.workspace.getConfiguration('asciidocSuite');
-            const outputDir = config.get<string>('build.outputDirectory', './output');
-            
-            const fullOutputDir = path.resolve(workspaceRoot, outputDir);
-            
-            // 出力ディレクトリの存在確認
-            if (!await fs.pathExists(fullOutputDir)) {
-                vscode.window.showErrorMessage('出力ディレクトリが見つかりません。先にビルドを実行してください。');
+            const folder = await pickWorkspaceFolder('アーカイブを作成するワークスペースフォルダを選択してください');
+            if (!folder) {
+                if (!vscode.workspace.workspaceFolders?.length) {
+                    vscode.window.showErrorMessage('ワークスペースが開かれていません。');
+                }
                 return;
             }
-
-            // アーカイブディレクトリの準備
-            const archiveDir = path.join(workspaceRoot, 'archive');
-            await fs.ensureDir(archiveDir);
-
-            // タイムスタンプ付きファイル名
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-            const archiveFile = path.join(archiveDir, `output-${timestamp}.zip`);
-
-            // ZIPコマンドの実行
-            const command = `zip -r "${archiveFile}" "${outputDir}"`;
-            this.outputChannel.appendLine(`実行コマンド: ${command}`);
-
-            const { stdout, stderr } = await execAsync(command, { 
-                cwd: workspaceRoot,
-                maxBuffer: 1024 * 1024 * 10 // 10MB
-            });
-
-            if (stdout) {
-                this.outputChannel.appendLine('STDOUT:');
-                this.outputChannel.appendLine(stdout);
-            }
-
-            if (stderr) {
-                this.outputChannel.appendLine('STDERR:');
-                this.outputChannel.appendLine(stderr);
-            }
-
-            this.outputChannel.appendLine('アーカイブエクスポートが完了しました。');
-            vscode.window.showInformationMessage(`アーカイブが作成されました: ${archiveFile}`);
-
+            await this.archiveExporter.exportArchive(folder.uri.fsPath);
         } catch (error) {
             this.outputChannel.appendLine(`エラー: ${error}`);
             vscode.window.showErrorMessage(`アーカイブエクスポート中にエラーが発生しました: ${error}`);
@@ -448,15 +806,9 @@ export class BuildManager {
         return selectedFile?.detail;
     }
 
-    private getWorkspaceRoot(): string {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            throw new Error('ワークスペースが開かれていません。');
-        }
-        return workspaceFolders[0].uri.fsPath;
-    }
-
     dispose(): void {
         this.outputChannel.dispose();
+        this.diagnostics.dispose();
+        this._onDidBuild.dispose();
     }
 }
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { OUTPUT_FORMATS } from './outputFormats';
+import {
+    ActiveBuildProfile,
+    BuildProfile,
+    getActiveBuildProfile,
+    getBuildProfiles,
+    getProfileLabel,
+    setActiveBuildProfile
+} from './buildProfiles';
+
+interface ProfileQuickPickItem extends vscode.QuickPickItem {
+    name: string;
+}
+
+export class BuildProfileManager implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private readonly _onDidChangeProfile = new vscode.EventEmitter<ActiveBuildProfile | undefined>();
+    readonly onDidChangeProfile = this._onDidChangeProfile.event;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = 'asciidocSuite.selectBuildProfile';
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('asciidocSuite.build.profiles')
+                    || event.affectsConfiguration('asciidocSuite.build.activeProfile')) {
+                    this.updateStatus();
+                    this._onDidChangeProfile.fire(this.activeProfile);
+                }
+            }),
+            // プロファイルの定義はフォルダごとに異なる場合がある
+            vscode.window.onDidChangeActiveTextEditor(() => {
+                this.updateStatus();
+                this._onDidChangeProfile.fire(this.activeProfile);
+            })
+        );
+
+        this.updateStatus();
+    }
+
+    get activeProfile(): ActiveBuildProfile | undefined {
+        return getActiveBuildProfile(this.activeFile);
+    }
+
+    // プロファイルの定義を読み込むフォルダを決めるファイル
+    private get activeFile(): string | undefined {
+        const document = vscode.window.activeTextEditor?.document;
+        return document?.uri.scheme === 'file' ? document.fileName : undefined;
+    }
+
+    // 定義済みのプロファイルから選択し、ワークスペース設定に保存する
+    async selectProfile(): Promise<void> {
+        const profiles = getBuildProfiles(this.activeFile);
+        const active = this.activeProfile;
+
+        const items: ProfileQuickPickItem[] = [
+            {
+                name: '',
+                label: '$(circle-slash) プロファイルなし',
+                description: active ? undefined : '選択中',
+                detail: '設定（asciidocSuite.build.*）のみでビルドします'
+            },
+            ...Object.entries(profiles).map(([name, profile]) => ({
+                name,
+                label: `$(tag) ${profile.label ?? name}`,
+                description: name === active?.name ? '選択中' : profile.description,
+                detail: this.describeProfile(profile)
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'ビルドプロファイルを選択してください'
+        });
+        if (!selected) {
+            return;
+        }
+
+        try {
+            await setActiveBuildProfile(selected.name);
+        } catch (error) {
+            vscode.window.showErrorMessage(`ビルドプロファイルの保存に失敗しました: ${error}`);
+        }
+    }
+
+    // プロファイルの設定内容の要約
+    private describeProfile(profile: BuildProfile): string {
+        const details: string[] = [];
+        if (profile.backend && OUTPUT_FORMATS[profile.backend]) {
+            details.push(OUTPUT_FORMATS[profile.backend].label);
+        }
+        const attributes = Object.entries(profile.attributes ?? {})
+            .map(([name, value]) => value === false ? `${name}!` : value === true ? name : `${name}=${value}`);
+        if (attributes.length > 0) {
+            details.push(`属性: ${attributes.join(' ')}`);
+        }
+        if (profile.theme) {
+            details.push(`テーマ: ${profile.theme}`);
+        }
+        if (profile.outputName) {
+            details.push(`出力名: ${profile.outputName}`);
+        }
+        if (profile.watermark) {
+            details.push(`透かし: ${profile.watermark}`);
+        }
+        if (profile.failOnTodo) {
+            details.push('TODO 禁止');
+        }
+        return details.join(' / ');
+    }
+
+    private updateStatus(): void {
+        const profile = this.activeProfile;
+        const hasProfiles = Object.keys(getBuildProfiles(this.activeFile)).length > 0;
+
+        if (!profile && !hasProfiles) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        this.statusBarItem.text = `$(tag) ${profile ? getProfileLabel(profile) : 'プロファイルなし'}`;
+        this.statusBarItem.tooltip = profile
+            ? `ビルドプロファイル: ${getProfileLabel(profile)}\n${this.describeProfile(profile)}\nクリックして切り替え`
+            : 'ビルドプロファイルを選択';
+        this.statusBarItem.show();
+    }
+
+    dispose(): void {
+        this.statusBarItem.dispose();
+        this._onDidChangeProfile.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,329 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { OutputFormat, OUTPUT_FORMATS } from './outputFormats';
+import { RunnerKind } from './buildRunner';
+import { collectReferences, scanDocumentLines } from './includeGraph';
+import type { AttributeValue } from './projectManifest';
+import type { BuildOptions } from './buildManager';
+import { ProjectContext, getResourceConfiguration, isPathInside } from './projectContext';
+import { collectReleaseChanges, findGitRepository, findLastReleaseTag, selectMarkedLines } from './releaseChanges';
+import { DEFAULT_TAG_FORMAT, formatTagName } from './revisionHistory';
+
+// ワークスペース設定 asciidocSuite.build.profiles の1項目
+export interface BuildProfile {
+    label?: string;
+    description?: string;
+    // ドキュメント属性の上書き（false で属性を無効化）
+    attributes?: Record<string, AttributeValue>;
+    // PDFテーマ（プロジェクトルートからの相対パス）
+    theme?: string;
+    // 出力ファイル名のパターン（{name} {revnumber} {date} {profile}）
+    outputName?: string;
+    // 出力形式を指定しないビルドで使用する形式
+    backend?: OutputFormat;
+    // 全ページに表示する透かしの文字列
+    watermark?: string;
+    // 本文に TODO が残っている場合はビルドしない
+    failOnTodo?: boolean;
+    // 前回のリリースタグから変更したブロックに changed ロールを付ける
+    changeBars?: boolean;
+}
+
+export interface ActiveBuildProfile extends BuildProfile {
+    name: string;
+}
+
+// 本文中の TODO の位置
+export interface TodoLocation {
+    file: string;
+    line: number;
+    text: string;
+}
+
+const CONTAINER_WORKSPACE = '/workspace';
+const WATERMARK_DIRECTORY = '.asciidoctor/profiles';
+const TODO_PATTERN = /\bTODO\b/;
+// 変更箇所のデータファイルを渡す属性
+export const CHANGE_MARKS_ATTRIBUTE = 'change-marks-file';
+
+// 変更箇所のデータ（ファイルのパスと行番号）を読み込み、該当するブロックに changed ロールを付ける拡張
+// 段落とリストの項目は本文を changed ロールの文字列として囲み、PDFテーマの role: changed で表示する
+const CHANGE_MARKS_EXTENSION = [
+    "require 'json'",
+    '',
+    'Asciidoctor::Extensions.register do',
+    '  preprocessor do',
+    '    process do |document, reader|',
+    "      document.sourcemap = true if document.attr? 'change-marks-file'",
+    '      reader',
+    '    end',
+    '  end',
+    '',
+    '  tree_processor do',
+    '    process do |document|',
+    "      data_file = document.attr 'change-marks-file'",
+    '      next document unless data_file && ::File.file?(data_file)',
+    '      marks = ::JSON.parse ::File.read(data_file, mode: \'r:UTF-8\')',
+    '      blocks = document.find_by(traverse_documents: true) {|block| block.context != :document && block.source_location }',
+    '      by_file = blocks.group_by {|block| ::File.expand_path(block.source_location.file || document.attr(\'docfile\').to_s) }',
+    '      marks.each do |file, lines|',
+    '        # 同じ行から始まるリストと最初の項目は項目を優先する',
+    '        candidates = (by_file[::File.expand_path file] || []).sort_by {|block| [block.source_location.lineno, (block.is_a? Asciidoctor::List) ? 0 : 1] }',
+    '        lines.each do |line|',
+    '          block = candidates.select {|candidate| candidate.source_location.lineno <= line }.last',
+    '          next unless block',
+    "          block.add_role 'changed'",
+    '          if (block.context == :list_item || block.context == :paragraph) && !(block.instance_variable_get :@change_marked)',
+    '            block.instance_variable_set :@change_marked, true',
+    '            if block.context == :list_item',
+    "              text = block.instance_variable_get :@text",
+    '              block.text = %([.changed]###{text}##) if text && !text.empty?',
+    "            elsif block.content_model == :simple",
+    '              block.lines.replace [%([.changed]###{block.lines.join "\\n"}##)] unless block.lines.empty?',
+    '            end',
+    '          end',
+    '        end',
+    '      end',
+    '      document',
+    '    end',
+    '  end',
+    'end',
+    ''
+].join('\n');
+
+// filePath を指定した場合はそのファイルのフォルダの設定で定義されたプロファイル
+export function getBuildProfiles(filePath?: string): Record<string, BuildProfile> {
+    return getResourceConfiguration(filePath).get<Record<string, BuildProfile>>('build.profiles', {});
+}
+
+// 選択中のプロファイル（未選択または定義が削除された場合は undefined）
+export function getActiveBuildProfile(filePath?: string): ActiveBuildProfile | undefined {
+    const config = vscode.workspace.getConfiguration('asciidocSuite');
+    const name = config.get<string>('build.activeProfile', '');
+    const profile = name ? getBuildProfiles(filePath)[name] : undefined;
+    return profile ? { ...profile, name } : undefined;
+}
+
+export function getProfileLabel(profile: ActiveBuildProfile): string {
+    return profile.label ?? profile.name;
+}
+
+// 選択中のプロファイルをワークスペース設定に保存する
+export async function setActiveBuildProfile(name: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('asciidocSuite');
+    const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    await config.update('build.activeProfile', name, target);
+}
+
+// 出力形式を指定しないビルドの形式（プロファイルの backend を優先する）
+export function getDefaultOutputFormat(filePath?: string): OutputFormat {
+    const backend = getActiveBuildProfile(filePath)?.backend;
+    if (backend && OUTPUT_FORMATS[backend]) {
+        return backend;
+    }
+    const config = getResourceConfiguration(filePath);
+    const format = config.get<OutputFormat>('build.outputFormat', 'pdf');
+    return OUTPUT_FORMATS[format] ? format : 'pdf';
+}
+
+// ドキュメントヘッダーで定義された属性の値
+async function readHeaderAttribute(filePath: string, name: string): Promise<string | undefined> {
+    let text: string;
+    try {
+        text = await fs.readFile(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+    const pattern = new RegExp(`^:${name}:\\s*(.*)$`, 'm');
+    return pattern.exec(text)?.[1].trim() || undefined;
+}
+
+function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+// 出力ファイル名のパターンを展開する（値がない項目の前後の区切り文字は詰める）
+export function expandOutputName(pattern: string, values: Record<string, string | undefined>): string {
+    return pattern
+        .replace(/\{(\w+)\}/g, (match, name: string) => name in values ? values[name] ?? '' : match)
+        .replace(/[-_.]{2,}/g, separators => separators[0])
+        .replace(/^[-_.]+|[-_.]+$/g, '')
+        .replace(/[\\/:*?"<>|]/g, '_');
+}
+
+// コマンドに渡すパス（コンテナ内ではワークスペースのマウント先のパス）
+function toRunnerPath(file: string, workspaceRoot: string, runnerKind: RunnerKind): string {
+    if (runnerKind === 'docker' || runnerKind === 'podman') {
+        return path.posix.join(CONTAINER_WORKSPACE, ...path.relative(workspaceRoot, file).split(path.sep));
+    }
+    return file;
+}
+
+function hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+// 透かしを描いたSVGを作成し、コマンドに渡すパスを返す
+// コンテナにはワークスペースフォルダをマウントするため、その中に作成する
+async function createWatermark(text: string, workspaceRoot: string, runnerKind: RunnerKind): Promise<string> {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const svg = [
+        '<svg xmlns="http://www.w3.org/2000/svg" width="595" height="842" viewBox="0 0 595 842">',
+        '  <text x="297.5" y="421" text-anchor="middle" dominant-baseline="middle" transform="rotate(-45 297.5 421)"',
+        `        font-family="sans-serif" font-size="96" font-weight="bold" fill="#000000" fill-opacity="0.08">${escaped}</text>`,
+        '</svg>',
+        ''
+    ].join('\n');
+
+    const fileName = `watermark-${hashText(text)}.svg`;
+    const watermarkFile = path.join(workspaceRoot, WATERMARK_DIRECTORY, fileName);
+    await fs.ensureDir(path.dirname(watermarkFile));
+    await fs.writeFile(watermarkFile, svg, 'utf8');
+    return toRunnerPath(watermarkFile, workspaceRoot, runnerKind);
+}
+
+// 前回のリリースタグから変更した行を書き出し、変更箇所の拡張とデータファイルのコマンドに渡すパスを返す
+// インクルードしたコード・画像・図表のファイルの変更は、参照している行の変更とする
+async function createChangeMarks(
+    filePath: string,
+    project: ProjectContext,
+    runnerKind: RunnerKind,
+    log: (message: string) => void
+): Promise<{ extension: string; dataFile: string } | undefined> {
+    const repository = await findGitRepository(path.dirname(filePath));
+    if (!repository) {
+        log('変更箇所: Git リポジトリではないため表示しません。');
+        return undefined;
+    }
+    const tagFormat = getResourceConfiguration(filePath).get<string>('release.tagFormat', DEFAULT_TAG_FORMAT) || DEFAULT_TAG_FORMAT;
+    const tagPattern = formatTagName(tagFormat, path.parse(filePath).name, '*');
+    const tag = await findLastReleaseTag(repository, tagPattern);
+    if (!tag) {
+        log(`変更箇所: リリースタグ（${tagPattern}）がないため表示しません。`);
+        return undefined;
+    }
+
+    const references = await collectReferences(filePath);
+    const files = new Set<string>();
+    for (const [file, fileReferences] of references) {
+        files.add(file);
+        fileReferences.forEach(reference => files.add(reference.path));
+    }
+    const changes = await collectReleaseChanges(repository, tag, [...files].filter(file => isPathInside(file, project.workspaceRoot)));
+
+    const marks: Record<string, number[]> = {};
+    for (const [file, fileReferences] of references) {
+        let text: string;
+        try {
+            text = await fs.readFile(file, 'utf8');
+        } catch {
+            continue;
+        }
+        // タグにない新規のファイルはすべての行を変更とする
+        const changedLines = changes.lines.get(file)
+            ?? (changes.files.has(file) ? text.split(/\r?\n/).map((_line, index) => index + 1) : []);
+        const lines = new Set(selectMarkedLines(text, changedLines));
+        fileReferences
+            .filter(reference => reference.kind !== 'theme' && !references.has(reference.path) && changes.files.has(reference.path))
+            .forEach(reference => lines.add(reference.line + 1));
+        if (lines.size > 0 && isPathInside(file, project.workspaceRoot)) {
+            marks[toRunnerPath(file, project.workspaceRoot, runnerKind)] = [...lines].sort((a, b) => a - b);
+        }
+    }
+    log(`変更箇所: ${tag} からの変更（${Object.keys(marks).length}ファイル）を表示します。`);
+
+    const directory = path.join(project.workspaceRoot, WATERMARK_DIRECTORY);
+    const extensionFile = path.join(directory, 'change-marks.rb');
+    const dataFile = path.join(directory, `change-marks-${hashText(filePath)}.json`);
+    await fs.ensureDir(directory);
+    await fs.writeFile(extensionFile, CHANGE_MARKS_EXTENSION, 'utf8');
+    await fs.writeFile(dataFile, JSON.stringify(marks), 'utf8');
+    return {
+        extension: toRunnerPath(extensionFile, project.workspaceRoot, runnerKind),
+        dataFile: toRunnerPath(dataFile, project.workspaceRoot, runnerKind)
+    };
+}
+
+// プロファイルの設定をビルドオプションに反映する（プロファイルの値を優先する）
+export async function applyBuildProfile(
+    profile: ActiveBuildProfile,
+    filePath: string,
+    project: ProjectContext,
+    runnerKind: RunnerKind,
+    buildOptions: BuildOptions,
+    log: (message: string) => void
+): Promise<BuildOptions> {
+    const attributes: Record<string, AttributeValue> = { ...buildOptions.attributes, ...profile.attributes };
+    const options: BuildOptions = { ...buildOptions, attributes };
+
+    if (profile.theme) {
+        options.pdfTheme = path.relative(path.dirname(filePath), path.resolve(project.projectRoot, profile.theme)).split(path.sep).join('/');
+    }
+
+    if (profile.watermark) {
+        const watermark = await createWatermark(profile.watermark, project.workspaceRoot, runnerKind);
+        attributes['page-background-image'] = `image:${watermark}[fit=fill]`;
+    }
+
+    if (profile.changeBars) {
+        // 変更箇所を取得できない場合も変更の表示なしでビルドする
+        const changeMarks = await createChangeMarks(filePath, project, runnerKind, log).catch(error => {
+            log(`変更箇所: ${error instanceof Error ? error.message : error}`);
+            return undefined;
+        });
+        if (changeMarks) {
+            options.extensions = [...buildOptions.extensions ?? [], changeMarks.extension];
+            attributes[CHANGE_MARKS_ATTRIBUTE] = changeMarks.dataFile;
+        }
+    }
+
+    const outputName = await resolveProfileOutputName(profile, filePath, buildOptions.outputName, attributes);
+    if (outputName) {
+        options.outputName = outputName;
+    }
+
+    return options;
+}
+
+// プロファイルの出力ファイル名のパターンを展開する（パターンがなければ undefined）
+export async function resolveProfileOutputName(
+    profile: ActiveBuildProfile,
+    filePath: string,
+    outputName: string | undefined,
+    attributes: Record<string, AttributeValue> = { ...profile.attributes }
+): Promise<string | undefined> {
+    if (!profile.outputName) {
+        return undefined;
+    }
+    const revnumber = attributes.revnumber;
+    return expandOutputName(profile.outputName, {
+        name: outputName ?? path.basename(filePath, path.extname(filePath)),
+        revnumber: typeof revnumber === 'string' ? revnumber : await readHeaderAttribute(filePath, 'revnumber'),
+        date: formatDate(new Date()),
+        profile: profile.name
+    });
+}
+
+// エントリドキュメントとインクルード先の本文に残っている TODO を探す（コメントとリテラルブロックは除く）
+export async function findTodos(entryFile: string): Promise<TodoLocation[]> {
+    const todos: TodoLocation[] = [];
+
+    for (const file of (await collectReferences(entryFile)).keys()) {
+        let text: string;
+        try {
+            text = await fs.readFile(file, 'utf8');
+        } catch {
+            continue;
+        }
+        scanDocumentLines(text, (_line, trimmed, index) => {
+            if (TODO_PATTERN.test(trimmed)) {
+                todos.push({ file, line: index, text: trimmed });
+            }
+        });
+    }
+
+    return todos;
+}
@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OutputFormat, OUTPUT_FORMATS } from './outputFormats';
+import { PathMapping } from './buildDiagnostics';
+import { execProcess, isTrustedSetting } from './processUtils';
+
+export type RunnerKind = 'native' | 'docker' | 'podman' | 'custom';
+
+// 実行環境に依存しないAsciidoctorの呼び出し内容
+export interface AsciidoctorInvocation {
+    format: OutputFormat;
+    workspaceRoot: string;
+    inputFile: string;
+    outputFile: string;
+    // 入力ファイルのディレクトリを基準としたオプション
+    args: string[];
+}
+
+// ランナーが組み立てた実行コマンド
+export interface RunnerCommand {
+    command: string;
+    args: string[];
+    cwd: string;
+    // ログ中の相対パスを解決するためのホスト側ディレクトリ
+    logBaseDir: string;
+    pathMapping?: PathMapping;
+    // キャンセル時にプロセスの停止だけでは止まらない場合の停止コマンド
+    stopCommand?: { command: string; args: string[] };
+}
+
+export interface BuildRunner {
+    readonly kind: RunnerKind;
+    readonly label: string;
+    // 実行環境が利用可能か確認し、必要な準備（イメージの取得など）を行う
+    prepare(formats: OutputFormat[]): Promise<boolean>;
+    createCommand(invocation: AsciidoctorInvocation): RunnerCommand;
+}
+
+const CONTAINER_WORKSPACE = '/workspace';
+
+// 入力ファイルのディレクトリで実行する場合の入出力パス
+function relativeInputOutput(invocation: AsciidoctorInvocation): { input: string; output: string } {
+    const inputDir = path.dirname(invocation.inputFile);
+    return {
+        input: path.basename(invocation.inputFile),
+        output: path.relative(inputDir, invocation.outputFile)
+    };
+}
+
+// 実行コマンドをログに表示するため、空白などを含む引数をクォートする
+export function quoteShellArg(arg: string): string {
+    return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+export function formatCommandLine(command: string, args: string[]): string {
+    return [command, ...args].map(quoteShellArg).join(' ');
+}
+
+// ネイティブにインストールされたAsciidoctorで実行
+export class NativeRunner implements BuildRunner {
+    readonly kind = 'native';
+    readonly label = 'ネイティブAsciidoctor';
+
+    constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+    async prepare(formats: OutputFormat[]): Promise<boolean> {
+        for (const format of formats) {
+            const pathConfigKey = OUTPUT_FORMATS[format].pathConfigKey;
+            if (!isTrustedSetting('asciidocSuite', pathConfigKey)) {
+                this.outputChannel.appendLine(`信頼されていないワークスペースのため、ワークスペース設定の asciidocSuite.${pathConfigKey} は使用できません。`);
+                return false;
+            }
+            if (!await this.checkAvailability(format)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private async checkAvailability(format: OutputFormat): Promise<boolean> {
+        const formatInfo = OUTPUT_FORMATS[format];
+        try {
+            const stdout = await execProcess(this.getCommand(format), ['--version']);
+            this.outputChannel.appendLine(`ネイティブAsciidoctor ${formatInfo.label}検出: ${stdout.trim()}`);
+            return true;
+        } catch (error) {
+            this.outputChannel.appendLine(`ネイティブAsciidoctor ${formatInfo.label}が見つかりません: ${error}`);
+            return false;
+        }
+    }
+
+    private getCommand(format: OutputFormat): string {
+        const formatInfo = OUTPUT_FORMATS[format];
+        const config = vscode.workspace.getConfiguration('asciidocSuite');
+        return config.get<string>(formatInfo.pathConfigKey, formatInfo.defaultCommand);
+    }
+
+    createCommand(invocation: AsciidoctorInvocation): RunnerCommand {
+        const inputDir = path.dirname(invocation.inputFile);
+        const { input, output } = relativeInputOutput(invocation);
+
+        return {
+            command: this.getCommand(invocation.format),
+            args: [...invocation.args, '-o', output, input],
+            cwd: inputDir,
+            logBaseDir: inputDir
+        };
+    }
+}
+
+// Docker / Podman コンテナ内のAsciidoctorで実行
+export class ContainerRunner implements BuildRunner {
+    readonly label: string;
+
+    constructor(
+        readonly kind: 'docker' | 'podman',
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        this.label = kind === 'docker' ? 'Docker' : 'Podman';
+    }
+
+    // 設定されたイメージ名（タグ未指定の場合は設定のタグを付与）
+    get image(): string {
+        const config = vscode.workspace.getConfiguration('asciidocSuite');
+        const image = config.get<string>('build.dockerImage', 'asciidoctor/docker-asciidoctor');
+        const tag = config.get<string>('build.dockerImageTag', 'latest');
+        const hasTag = image.lastIndexOf(':') > image.lastIndexOf('/');
+        return hasTag || !tag ? image : `${image}:${tag}`;
+    }
+
+    async prepare(): Promise<boolean> {
+        return await this.checkAvailability() && await this.ensureImage();
+    }
+
+    // コンテナエンジンの可用性をチェック
+    private async checkAvailability(): Promise<boolean> {
+        try {
+            const stdout = await execProcess(this.kind, ['--version']);
+            this.outputChannel.appendLine(`${this.label}検出: ${stdout.trim()}`);
+            return true;
+        } catch (error) {
+            this.outputChannel.appendLine(`${this.label}が見つかりません: ${error}`);
+            return false;
+        }
+    }
+
+    // Asciidoctorイメージの取得を確認
+    private async ensureImage(): Promise<boolean> {
+        const image = this.image;
+        try {
+            this.outputChannel.appendLine(`Asciidoctorイメージを確認中: ${image}`);
+
+            // イメージが既に存在するかチェック
+            const stdout = await execProcess(this.kind, ['images', '-q', image]);
+
+            if (stdout.trim()) {
+                this.outputChannel.appendLine('Asciidoctorイメージが利用可能です。');
+                return true;
+            }
+
+            // イメージが存在しない場合、プルを提案
+            const pullImage = await vscode.window.showInformationMessage(
+                `Asciidoctorイメージ（${image}）が必要です。ダウンロードしますか？（初回のみ、数分かかる場合があります）`,
+                'はい',
+                'いいえ'
+            );
+
+            if (pullImage === 'はい') {
+                this.outputChannel.appendLine('Asciidoctorイメージをダウンロード中...');
+                vscode.window.showInformationMessage('Asciidoctorイメージをダウンロード中です。しばらくお待ちください。');
+
+                const pullOutput = await execProcess(this.kind, ['pull', image]);
+                this.outputChannel.appendLine('ダウンロード完了:');
+                this.outputChannel.appendLine(pullOutput);
+
+                vscode.window.showInformationMessage('Asciidoctorイメージのダウンロードが完了しました。');
+                return true;
+            }
+
+            return false;
+        } catch (error) {
+            this.outputChannel.appendLine(`イメージ確認エラー: ${error}`);
+            vscode.window.showErrorMessage('Asciidoctorイメージの確認中にエラーが発生しました。');
+            return false;
+        }
+    }
+
+    createCommand(invocation: AsciidoctorInvocation): RunnerCommand {
+        const inputDir = path.dirname(invocation.inputFile);
+        const relativeInputDir = path.relative(invocation.workspaceRoot, inputDir).split(path.sep).join('/');
+        const { input, output } = relativeInputOutput(invocation);
+        const containerName = `asciidoc-suite-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+
+        return {
+            command: this.kind,
+            args: [
+                'run', '--rm',
+                '--name', containerName,
+                '-v', `${invocation.workspaceRoot}:${CONTAINER_WORKSPACE}`,
+                '-w', path.posix.join(CONTAINER_WORKSPACE, relativeInputDir),
+                this.image,
+                OUTPUT_FORMATS[invocation.format].defaultCommand,
+                ...invocation.args,
+                '-o', output.split(path.sep).join('/'),
+                input
+            ],
+            cwd: invocation.workspaceRoot,
+            logBaseDir: inputDir,
+            pathMapping: {
+                containerRoot: CONTAINER_WORKSPACE,
+                hostRoot: invocation.workspaceRoot
+            },
+            stopCommand: {
+                command: this.kind,
+                args: ['kill', containerName]
+            }
+        };
+    }
+}
+
+// ユーザー定義のコマンドテンプレートで実行
+// テンプレートは空白で引数に分割してから {command} {args} {input} {output} {inputDir} {workspaceRoot} {format} を置換する
+export class CustomCommandRunner implements BuildRunner {
+    readonly kind = 'custom';
+    readonly label = 'カスタムコマンド';
+
+    constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+    private get template(): string {
+        const config = vscode.workspace.getConfiguration('asciidocSuite');
+        return config.get<string>('build.customCommand', '').trim();
+    }
+
+    async prepare(): Promise<boolean> {
+        if (!isTrustedSetting('asciidocSuite', 'build.customCommand')) {
+            this.outputChannel.appendLine('信頼されていないワークスペースのため、ワークスペース設定の asciidocSuite.build.customCommand は使用できません。');
+            return false;
+        }
+        if (!this.template) {
+            this.outputChannel.appendLine('カスタムコマンド（asciidocSuite.build.customCommand）が設定されていません。');
+            return false;
+        }
+        this.outputChannel.appendLine(`カスタムコマンド: ${this.template}`);
+        return true;
+    }
+
+    createCommand(invocation: AsciidoctorInvocation): RunnerCommand {
+        const inputDir = path.dirname(invocation.inputFile);
+        const { input, output } = relativeInputOutput(invocation);
+        const values: Record<string, string> = {
+            command: OUTPUT_FORMATS[invocation.format].defaultCommand,
+            input,
+            output,
+            inputDir,
+            workspaceRoot: invocation.workspaceRoot,
+            format: invocation.format
+        };
+
+        const parts: string[] = [];
+        for (const token of this.template.split(/\s+/)) {
+            if (token === '{args}') {
+                parts.push(...invocation.args);
+            } else {
+                parts.push(token.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match));
+            }
+        }
+
+        return {
+            command: parts[0],
+            args: parts.slice(1),
+            cwd: inputDir,
+            logBaseDir: inputDir
+        };
+    }
+}
+
+export function createRunner(kind: RunnerKind, outputChannel: vscode.OutputChannel): BuildRunner {
+    switch (kind) {
+        case 'native':
+            return new NativeRunner(outputChannel);
+        case 'docker':
+        case 'podman':
+            return new ContainerRunner(kind, outputChannel);
+        case 'custom':
+            return new CustomCommandRunner(outputChannel);
+    }
+}
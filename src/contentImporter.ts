@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { convertMarkdown, safeDecode } from './markdownConverter';
+import { decodeText, detectDelimiter, parseDelimited, renderAsciidocTable } from './tableConverter';
+import { getResourceConfiguration, resolveProjectContext } from './projectContext';
+
+// Markdown 文書や CSV ファイルを AsciiDoc に変換して取り込む
+export class ContentImporter {
+    async importMarkdown(uri?: vscode.Uri): Promise<void> {
+        const source = uri?.fsPath ?? await this.selectFile('取り込む Markdown ファイルを選択してください', { 'Markdown': ['md', 'markdown'] });
+        if (!source) {
+            return;
+        }
+
+        try {
+            const project = await resolveProjectContext(source);
+            const outputSetting = getResourceConfiguration(source).get<string>('import.outputDirectory', './components');
+            const outputDir = path.resolve(project.projectRoot, outputSetting);
+            const target = path.join(outputDir, `${path.parse(source).name}.adoc`);
+
+            if (await fs.pathExists(target)) {
+                const answer = await vscode.window.showWarningMessage(
+                    `${vscode.workspace.asRelativePath(target)} は既に存在します。上書きしますか？`,
+                    { modal: true },
+                    '上書き'
+                );
+                if (answer !== '上書き') {
+                    return;
+                }
+            }
+
+            // 画像やリンクの相対パスは変換後のファイルの位置からのパスにする
+            const rewritePath = (reference: string) => {
+                const resolved = path.resolve(path.dirname(source), safeDecode(reference, decodeURI));
+                return path.relative(outputDir, resolved).split(path.sep).join('/');
+            };
+            const markdown = decodeText(await fs.readFile(source));
+            await fs.outputFile(target, convertMarkdown(markdown, { rewritePath }), 'utf8');
+
+            await vscode.window.showTextDocument(vscode.Uri.file(target));
+            vscode.window.showInformationMessage(`${path.basename(source)} を ${vscode.workspace.asRelativePath(target)} に変換しました。`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Markdown の取り込みに失敗しました: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    async insertCsvTable(uri?: vscode.Uri): Promise<void> {
+        const source = uri?.fsPath ?? await this.selectFile('表として挿入する CSV ファイルを選択してください', { 'CSV': ['csv', 'tsv'] });
+        if (!source) {
+            return;
+        }
+
+        try {
+            const text = decodeText(await fs.readFile(source));
+            const rows = parseDelimited(text, detectDelimiter(text, source));
+            if (rows.length === 0) {
+                vscode.window.showWarningMessage(`${path.basename(source)} にデータがありません。`);
+                return;
+            }
+
+            const header = getResourceConfiguration(source).get<boolean>('import.csvHeader', true);
+            const table = renderAsciidocTable(rows, { header });
+
+            // AsciiDoc のエディタが開いていなければ新しいドキュメントに挿入する
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'asciidoc') {
+                const document = await vscode.workspace.openTextDocument({ language: 'asciidoc', content: `${table}\n` });
+                await vscode.window.showTextDocument(document);
+                return;
+            }
+
+            // 前後の段落と続かないよう空行をはさむ
+            const position = editor.selection.active;
+            const lineText = editor.document.lineAt(position.line).text;
+            const before = position.character > 0 ? '\n\n' : position.line > 0 && editor.document.lineAt(position.line - 1).text.trim() !== '' ? '\n' : '';
+            const after = position.character < lineText.length ? '\n\n' : '\n';
+            await editor.edit(builder => builder.replace(editor.selection, `${before}${table}${after}`));
+            vscode.window.showInformationMessage(`${path.basename(source)} を ${rows.length - (header ? 1 : 0)}行の表として挿入しました。`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`CSV の挿入に失敗しました: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async selectFile(title: string, filters: Record<string, string[]>): Promise<string | undefined> {
+        const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: '選択',
+            title,
+            filters
+        });
+        return selected?.[0].fsPath;
+    }
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { OutputFormat } from './outputFormats';
+import { RunnerKind } from './buildRunner';
+
+export const DEFAULT_DIAGRAM_CACHE_DIRECTORY = '.asciidoctor/diagram-cache';
+
+// ビルド時の図表画像とメタデータ、単体プレビューのSVGを置くサブディレクトリ
+const IMAGES_SUBDIRECTORY = 'images';
+const METADATA_SUBDIRECTORY = 'meta';
+const PREVIEW_SUBDIRECTORY = 'preview';
+
+// 図表キャッシュのディレクトリ（無効の場合は undefined）
+export function getDiagramCacheDirectory(workspaceRoot: string): string | undefined {
+    const config = vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(workspaceRoot));
+    if (!config.get<boolean>('diagrams.cache', true)) {
+        return undefined;
+    }
+    const directory = config.get<string>('diagrams.cacheDirectory', DEFAULT_DIAGRAM_CACHE_DIRECTORY) || DEFAULT_DIAGRAM_CACHE_DIRECTORY;
+    return path.resolve(workspaceRoot, directory);
+}
+
+export function getPreviewCacheDirectory(workspaceRoot: string): string {
+    return path.join(getDiagramCacheDirectory(workspaceRoot) ?? path.resolve(workspaceRoot, DEFAULT_DIAGRAM_CACHE_DIRECTORY), PREVIEW_SUBDIRECTORY);
+}
+
+// 図表ソースの内容から求めたキャッシュキー
+export function hashDiagramSource(kind: string, source: string): string {
+    return crypto.createHash('sha256').update(`${kind}\n${source}`).digest('hex');
+}
+
+// asciidoctor-diagram は図表ソースのチェックサムから画像名を決め、メタデータが一致すれば再描画しない
+// 出力先とメタデータをビルドごとに消えない場所へ固定し、内容が変わらない図表の描画を省略する
+export function getDiagramCacheArgs(
+    format: OutputFormat,
+    workspaceRoot: string,
+    inputFileDir: string,
+    runnerKind: RunnerKind
+): string[] {
+    const cacheDir = getDiagramCacheDirectory(workspaceRoot);
+    if (!cacheDir) {
+        return [];
+    }
+
+    // HTMLで画像を埋め込まない場合は imagesdir からの参照になるため、出力先を変更しない
+    const config = vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(inputFileDir));
+    if (format === 'epub3' || (format === 'html5' && !config.get<boolean>('build.html.embedImages', true))) {
+        return [];
+    }
+
+    // コンテナにはワークスペースのみをマウントする
+    const relativeToWorkspace = path.relative(workspaceRoot, cacheDir);
+    if ((runnerKind === 'docker' || runnerKind === 'podman')
+        && (relativeToWorkspace.startsWith('..') || path.isAbsolute(relativeToWorkspace))) {
+        return [];
+    }
+
+    const toArgPath = (subdirectory: string) =>
+        path.relative(inputFileDir, path.join(cacheDir, subdirectory)).split(path.sep).join('/') || '.';
+    return [
+        '-a', `imagesoutdir=${toArgPath(IMAGES_SUBDIRECTORY)}`,
+        '-a', `diagram-cachedir=${toArgPath(METADATA_SUBDIRECTORY)}`
+    ];
+}
+
+// キャッシュされているファイルの数と合計サイズ
+export async function getDiagramCacheStats(cacheDir: string): Promise<{ files: number; size: number }> {
+    let files = 0;
+    let size = 0;
+
+    const visit = async (dir: string) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await visit(entryPath);
+            } else if (entry.isFile()) {
+                files++;
+                size += (await fs.stat(entryPath)).size;
+            }
+        }
+    };
+
+    await visit(cacheDir);
+    return { files, size };
+}
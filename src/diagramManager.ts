@@ -0,0 +1,503 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ContainerRunner, formatCommandLine } from './buildRunner';
+import { createReferenceContext, parseDocumentReferences } from './includeGraph';
+import { runProcess, isTrustedSetting } from './processUtils';
+import { getResourceConfiguration, resolveProjectContext } from './projectContext';
+import {
+    getDiagramCacheDirectory,
+    getDiagramCacheStats,
+    getPreviewCacheDirectory,
+    hashDiagramSource
+} from './diagramCache';
+
+type PlantumlRenderer = 'auto' | 'jar' | 'docker';
+
+const PLANTUML_BLOCK_PATTERN = /^\[plantuml(?:[,#.%\]]|$)/;
+const BLOCK_DELIMITER_PATTERN = /^(-{4,}|\.{4,})$/;
+const RENDER_TIMEOUT_SECONDS = 120;
+
+// プレビュー対象の図表（line はブロック属性行または図表マクロの行）
+interface DiagramSource {
+    filePath: string;
+    line: number;
+    source: string;
+}
+
+// 描画結果
+interface RenderedDiagram {
+    svg: string;
+    cached: boolean;
+}
+
+// カーソル位置の [plantuml] ブロックを探す
+function findPlantumlBlock(lines: string[], cursorLine: number): { line: number; source: string } | undefined {
+    for (let index = Math.min(cursorLine, lines.length - 1); index >= 0; index--) {
+        if (!PLANTUML_BLOCK_PATTERN.test(lines[index].trim())) {
+            continue;
+        }
+
+        const delimiter = lines[index + 1]?.trimEnd();
+        if (!delimiter || !BLOCK_DELIMITER_PATTERN.test(delimiter)) {
+            return undefined;
+        }
+
+        let end = index + 2;
+        while (end < lines.length && lines[end].trimEnd() !== delimiter) {
+            end++;
+        }
+        // カーソルより前で閉じているブロックは対象外
+        if (end < cursorLine) {
+            return undefined;
+        }
+        return { line: index, source: lines.slice(index + 2, end).join('\n') };
+    }
+    return undefined;
+}
+
+// asciidoctor-diagram と同様に、@start〜@end がない場合は補う
+function wrapPlantumlSource(source: string): string {
+    return /^\s*@start\w+/.test(source) ? source : `@startuml\n${source}\n@enduml`;
+}
+
+// PDFビルドを行わずに、1つの PlantUML 図表だけを描画してプレビューする
+export class DiagramManager {
+    public static readonly viewType = 'asciidocSuite.diagramPreview';
+
+    private outputChannel: vscode.OutputChannel;
+    private panel?: vscode.WebviewPanel;
+    private current?: { filePath: string; line: number };
+    private rendering?: Promise<void>;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.outputChannel = vscode.window.createOutputChannel('Asciidoc Diagram');
+        this.disposables.push(
+            this.outputChannel,
+            // 表示中の図表を含むファイルが保存されたら再描画する
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (this.panel && this.current && path.resolve(document.fileName) === this.current.filePath) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    // カーソル位置の図表をプレビューする
+    async previewDiagramAtCursor(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !/\.(adoc|asciidoc)$/i.test(editor.document.fileName)) {
+            vscode.window.showErrorMessage('プレビューするAsciidocファイルを開いてください。');
+            return;
+        }
+
+        const diagram = await this.findDiagram(editor.document, editor.selection.active.line);
+        if (!diagram) {
+            vscode.window.showErrorMessage('カーソル位置に [plantuml] ブロックまたは plantuml:: マクロが見つかりません。');
+            return;
+        }
+
+        this.current = { filePath: diagram.filePath, line: diagram.line };
+        this.showPanel();
+        await this.render(diagram);
+    }
+
+    // 図表キャッシュを削除する
+    async clearCache(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        const cacheDirs = workspaceFolders
+            .map(folder => getDiagramCacheDirectory(folder.uri.fsPath))
+            .filter((dir): dir is string => !!dir);
+
+        let files = 0;
+        let size = 0;
+        for (const cacheDir of cacheDirs) {
+            const stats = await getDiagramCacheStats(cacheDir);
+            files += stats.files;
+            size += stats.size;
+        }
+
+        if (files === 0) {
+            vscode.window.showInformationMessage('図表キャッシュは空です。');
+            return;
+        }
+
+        const answer = await vscode.window.showWarningMessage(
+            `図表キャッシュ（${files}ファイル、${(size / 1024 / 1024).toFixed(1)}MB）を削除しますか？次回のビルドではすべての図表が再描画されます。`,
+            { modal: true },
+            '削除'
+        );
+        if (answer !== '削除') {
+            return;
+        }
+
+        for (const cacheDir of cacheDirs) {
+            await fs.remove(cacheDir);
+        }
+        vscode.window.showInformationMessage('図表キャッシュを削除しました。');
+    }
+
+    private async findDiagram(document: vscode.TextDocument, cursorLine: number): Promise<DiagramSource | undefined> {
+        const filePath = path.resolve(document.fileName);
+        const text = document.getText();
+        const lines = text.split(/\r?\n/);
+
+        // plantuml::diagram.puml[] の行では参照先ファイルを描画する
+        if (/^\s*plantuml::/.test(lines[cursorLine] ?? '')) {
+            const reference = parseDocumentReferences(filePath, text, createReferenceContext(filePath))
+                .find(item => item.kind === 'diagram' && item.line === cursorLine);
+            if (!reference || !await fs.pathExists(reference.path)) {
+                vscode.window.showErrorMessage(`図表ファイルが見つかりません: ${reference?.target ?? lines[cursorLine].trim()}`);
+                return undefined;
+            }
+            return { filePath, line: cursorLine, source: await fs.readFile(reference.path, 'utf8') };
+        }
+
+        const block = findPlantumlBlock(lines, cursorLine);
+        return block ? { filePath, ...block } : undefined;
+    }
+
+    private showPanel(): void {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            DiagramManager.viewType,
+            '図表プレビュー',
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            { enableScripts: true }
+        );
+        this.panel.webview.html = this.getHtmlForWebview(this.panel.webview);
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            this.current = undefined;
+        }, null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(data => {
+            switch (data.type) {
+                case 'refresh':
+                    this.refresh();
+                    break;
+                case 'reveal':
+                    this.revealSource();
+                    break;
+            }
+        }, null, this.disposables);
+    }
+
+    // 表示中の図表を最新の内容で再描画する
+    private async refresh(): Promise<void> {
+        if (!this.current) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(this.current.filePath);
+        const diagram = await this.findDiagram(document, this.current.line);
+        if (!diagram) {
+            this.showMessage('図表が見つかりません。ブロックが移動または削除された可能性があります。', true);
+            return;
+        }
+        await this.render(diagram);
+    }
+
+    private async render(diagram: DiagramSource): Promise<void> {
+        // 描画中の要求は完了を待ってから処理する
+        const previous = this.rendering ?? Promise.resolve();
+        const rendering = previous.then(async () => {
+            if (!this.panel) {
+                return;
+            }
+            this.panel.title = `図表: ${path.basename(diagram.filePath)}:${diagram.line + 1}`;
+            this.showMessage('描画中...', false);
+
+            try {
+                const rendered = await this.renderPlantuml(diagram);
+                this.panel?.webview.postMessage({
+                    type: 'update',
+                    svg: Buffer.from(rendered.svg).toString('base64'),
+                    status: rendered.cached ? 'キャッシュから表示' : '描画しました'
+                });
+            } catch (error) {
+                this.outputChannel.appendLine(`図表の描画に失敗しました: ${error}`);
+                this.showMessage(`図表の描画に失敗しました: ${error instanceof Error ? error.message : error}`, true);
+            }
+        });
+
+        this.rendering = rendering.finally(() => {
+            if (this.rendering === rendering) {
+                this.rendering = undefined;
+            }
+        });
+        await rendering;
+    }
+
+    // 内容のハッシュをキーにSVGをキャッシュし、未描画の場合のみ PlantUML を実行する
+    private async renderPlantuml(diagram: DiagramSource): Promise<RenderedDiagram> {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(diagram.filePath));
+        const workspaceRoot = workspaceFolder?.uri.fsPath ?? path.dirname(diagram.filePath);
+        const cacheDir = getPreviewCacheDirectory(workspaceRoot);
+        const source = wrapPlantumlSource(diagram.source);
+        const hash = hashDiagramSource('plantuml', source);
+        const svgFile = path.join(cacheDir, `${hash}.svg`);
+
+        if (await fs.pathExists(svgFile)) {
+            return { svg: await fs.readFile(svgFile, 'utf8'), cached: true };
+        }
+
+        await fs.ensureDir(cacheDir);
+        const renderer = await this.selectRenderer(diagram.filePath);
+        if (renderer === 'jar') {
+            await this.renderWithJar(diagram.filePath, cacheDir, hash, source);
+        } else {
+            await this.renderWithContainer(diagram.filePath, cacheDir, hash, source);
+        }
+
+        if (!await fs.pathExists(svgFile)) {
+            throw new Error('SVGファイルが生成されませんでした。出力パネル（Asciidoc Diagram）を確認してください。');
+        }
+        return { svg: await fs.readFile(svgFile, 'utf8'), cached: false };
+    }
+
+    // auto の場合は PlantUML の jar が設定されていれば優先する
+    private async selectRenderer(filePath: string): Promise<'jar' | 'docker'> {
+        const config = getResourceConfiguration(filePath);
+        const renderer = config.get<PlantumlRenderer>('diagrams.plantumlRenderer', 'auto');
+        if (renderer !== 'auto') {
+            return renderer;
+        }
+        const jar = await this.getPlantumlJar(filePath);
+        return jar && await fs.pathExists(jar) ? 'jar' : 'docker';
+    }
+
+    // 相対パスの jar はドキュメントのプロジェクトのルートから解決する
+    private async getPlantumlJar(filePath: string): Promise<string | undefined> {
+        const jar = getResourceConfiguration(filePath).get<string>('diagrams.plantumlJar', '').trim();
+        if (!jar) {
+            return undefined;
+        }
+        const project = await resolveProjectContext(filePath);
+        return path.resolve(project.projectRoot, jar);
+    }
+
+    private async renderWithJar(filePath: string, cacheDir: string, hash: string, source: string): Promise<void> {
+        for (const key of ['diagrams.plantumlJar', 'diagrams.javaPath']) {
+            if (!isTrustedSetting('asciidocSuite', key)) {
+                throw new Error(`信頼されていないワークスペースのため、ワークスペース設定の asciidocSuite.${key} は使用できません。`);
+            }
+        }
+
+        const jar = await this.getPlantumlJar(filePath);
+        if (!jar) {
+            throw new Error('PlantUML の jar（asciidocSuite.diagrams.plantumlJar）が設定されていません。');
+        }
+
+        const java = getResourceConfiguration(filePath).get<string>('diagrams.javaPath', 'java') || 'java';
+        const sourceFile = path.join(cacheDir, `${hash}.puml`);
+        await fs.writeFile(sourceFile, source, 'utf8');
+
+        try {
+            await this.runRenderer(java, [
+                '-Djava.awt.headless=true',
+                '-jar', jar,
+                '-tsvg',
+                '-charset', 'UTF-8',
+                sourceFile
+            ], cacheDir);
+        } finally {
+            await fs.remove(sourceFile);
+        }
+    }
+
+    // ビルドと同じ Asciidoctor イメージの asciidoctor-diagram で描画する
+    private async renderWithContainer(filePath: string, cacheDir: string, hash: string, source: string): Promise<void> {
+        const kind = getResourceConfiguration(filePath).get<string>('build.runner', 'auto') === 'podman' ? 'podman' : 'docker';
+        const runner = new ContainerRunner(kind, this.outputChannel);
+        if (!await runner.prepare()) {
+            throw new Error(`${runner.label}を利用できません。PlantUML の jar（asciidocSuite.diagrams.plantumlJar）を設定するか、${runner.label}をインストールしてください。`);
+        }
+
+        const documentFile = path.join(cacheDir, `${hash}.adoc`);
+        await fs.writeFile(documentFile, `[plantuml,target=${hash},format=svg]\n----\n${source}\n----\n`, 'utf8');
+
+        try {
+            await this.runRenderer(kind, [
+                'run', '--rm',
+                '-v', `${cacheDir}:/workspace`,
+                '-w', '/workspace',
+                runner.image,
+                'asciidoctor',
+                '-r', 'asciidoctor-diagram',
+                '-a', 'imagesoutdir=.',
+                '-o', '/dev/null',
+                `${hash}.adoc`
+            ], cacheDir);
+        } finally {
+            await fs.remove(documentFile);
+            await fs.remove(path.join(cacheDir, '.asciidoctor'));
+        }
+    }
+
+    private async runRenderer(command: string, args: string[], cwd: string): Promise<void> {
+        this.outputChannel.appendLine(`実行コマンド: ${formatCommandLine(command, args)}`);
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: '図表を描画中...'
+        }, () => runProcess(command, args, { cwd, timeoutSeconds: RENDER_TIMEOUT_SECONDS }));
+
+        const output = `${result.stdout}${result.stderr}`.trim();
+        if (output) {
+            this.outputChannel.appendLine(output);
+        }
+        if (result.error) {
+            throw new Error(result.stderr.trim() || result.error.message);
+        }
+    }
+
+    private revealSource(): void {
+        if (!this.current) {
+            return;
+        }
+        const position = new vscode.Position(this.current.line, 0);
+        vscode.window.showTextDocument(vscode.Uri.file(this.current.filePath), {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position)
+        });
+    }
+
+    private showMessage(message: string, isError: boolean): void {
+        this.panel?.webview.postMessage({ type: 'message', message, isError });
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+        <html lang="ja">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>図表プレビュー</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 0 24px 48px;
+                }
+
+                .toolbar {
+                    position: sticky;
+                    top: 0;
+                    display: flex;
+                    gap: 8px;
+                    align-items: center;
+                    padding: 8px 0;
+                    background-color: var(--vscode-editor-background);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                .toolbar button {
+                    padding: 4px 10px;
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-family: var(--vscode-font-family);
+                }
+
+                .toolbar button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                #status {
+                    margin-left: auto;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                #diagram {
+                    margin-top: 16px;
+                    padding: 16px;
+                    background-color: #ffffff;
+                    text-align: center;
+                }
+
+                #diagram img {
+                    max-width: 100%;
+                }
+
+                .error {
+                    margin-top: 16px;
+                    color: var(--vscode-errorForeground);
+                    white-space: pre-wrap;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <button id="refresh">🔄 再描画</button>
+                <button id="reveal">📝 ソースへ移動</button>
+                <span id="status"></span>
+            </div>
+            <div id="error" class="error" hidden></div>
+            <div id="diagram" hidden><img id="image" alt="図表"></div>
+
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                const status = document.getElementById('status');
+                const error = document.getElementById('error');
+                const diagram = document.getElementById('diagram');
+                const image = document.getElementById('image');
+
+                document.getElementById('refresh').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'refresh' });
+                });
+                document.getElementById('reveal').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'reveal' });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'update':
+                            image.src = 'data:image/svg+xml;base64,' + message.svg;
+                            diagram.hidden = false;
+                            error.hidden = true;
+                            status.textContent = message.status;
+                            break;
+                        case 'message':
+                            if (message.isError) {
+                                error.textContent = message.message;
+                                error.hidden = false;
+                                status.textContent = '';
+                            } else {
+                                status.textContent = message.message;
+                            }
+                            break;
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
@@ -0,0 +1,163 @@
+import { scanDocumentLines } from './includeGraph';
+
+// ドキュメント内の見出し（level 0 は文書タイトル）
+export interface DocumentSection {
+    title: string;
+    level: number;
+    line: number;
+    id: string;
+}
+
+const SECTION_PATTERN = /^(={1,6})\s+(.+?)\s*=*$/;
+const BLOCK_ANCHOR_PATTERN = /^\[\[([\w:.-][^,\]]*)(?:,[^\]]*)?\]\]$|^\[#([\w:-]+)[^\]]*\]$/;
+
+// Asciidoctorと同じ規則で見出しから自動IDを生成する
+export function generateSectionId(title: string, idprefix = '_', idseparator = '_'): string {
+    const normalized = title
+        .toLowerCase()
+        .replace(/<[^>]+>/g, '')
+        .replace(/&[^;\s]+;/g, '')
+        .replace(/[^\p{L}\p{N}_\s.-]/gu, '')
+        .replace(/[\s.-]+/g, idseparator);
+
+    let id = idprefix + normalized;
+    if (idseparator) {
+        const escaped = idseparator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        id = id.replace(new RegExp(`${escaped}{2,}`, 'g'), idseparator).replace(new RegExp(`${escaped}$`), '');
+    }
+    return id;
+}
+
+// 見出しの一覧を解析する（直前の [[id]] / [#id] があればそのIDを使用する）
+export function parseSections(text: string): DocumentSection[] {
+    const sections: DocumentSection[] = [];
+    let idprefix = '_';
+    let idseparator = '_';
+    let pendingId: string | undefined;
+
+    scanDocumentLines(text, (_line, trimmed, index) => {
+        const attribute = /^:(idprefix|idseparator):\s*(.*)$/.exec(trimmed);
+        if (attribute) {
+            if (attribute[1] === 'idprefix') {
+                idprefix = attribute[2];
+            } else {
+                idseparator = attribute[2];
+            }
+            return;
+        }
+
+        const anchor = BLOCK_ANCHOR_PATTERN.exec(trimmed);
+        if (anchor) {
+            pendingId = anchor[1] ?? anchor[2];
+            return;
+        }
+
+        const section = SECTION_PATTERN.exec(trimmed);
+        if (section) {
+            const title = section[2];
+            sections.push({
+                title,
+                level: section[1].length - 1,
+                line: index,
+                id: pendingId ?? generateSectionId(title, idprefix, idseparator)
+            });
+        }
+
+        // ブロック属性行（[source] など）の後は見出しのIDとして引き継ぐ
+        if (trimmed && !/^\[.*\]$/.test(trimmed)) {
+            pendingId = undefined;
+        }
+    });
+
+    return sections;
+}
+
+// xref の参照先となるアンカー（explicit が false のものは見出しの自動ID）
+export interface DocumentAnchor {
+    id: string;
+    line: number;
+    character: number;
+    title?: string;
+    explicit: boolean;
+}
+
+// <<id>> / xref:id[] による相互参照
+export interface DocumentXref {
+    id: string;
+    // 他ファイルを指す場合のパス（<<file.adoc#id>>）
+    file?: string;
+    line: number;
+    character: number;
+}
+
+const INLINE_ANCHOR_PATTERN = /\[\[([\w:][\w:.-]*)(?:,[^\]]*)?\]\]|^\[#([\w:-]+)[^\]]*\]$|anchor:([\w:][\w:.-]*)\[/g;
+const XREF_PATTERN = /<<([^>,\s]+)(?:,[^>]*)?>>|xref:([^\[\s]+)\[/g;
+
+// 明示的なアンカーと見出しのIDを解析する
+export function parseAnchors(text: string): DocumentAnchor[] {
+    const anchors: DocumentAnchor[] = [];
+
+    scanDocumentLines(text, (line, _trimmed, index) => {
+        INLINE_ANCHOR_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = INLINE_ANCHOR_PATTERN.exec(line)) !== null) {
+            const id = match[1] ?? match[2] ?? match[3];
+            anchors.push({
+                id,
+                line: index,
+                character: match.index + match[0].indexOf(id),
+                explicit: true
+            });
+        }
+    });
+
+    const lines = text.split(/\r?\n/);
+    // 文書タイトル（level 0）はIDを持たない
+    for (const section of parseSections(text).filter(section => section.level > 0)) {
+        const explicit = anchors.find(anchor => anchor.id === section.id);
+        if (explicit) {
+            explicit.title = section.title;
+            continue;
+        }
+        anchors.push({
+            id: section.id,
+            line: section.line,
+            character: Math.max(lines[section.line].indexOf(section.title), 0),
+            title: section.title,
+            explicit: false
+        });
+    }
+
+    return anchors;
+}
+
+// 相互参照を解析する
+export function parseXrefs(text: string): DocumentXref[] {
+    const xrefs: DocumentXref[] = [];
+
+    scanDocumentLines(text, (line, _trimmed, index) => {
+        XREF_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = XREF_PATTERN.exec(line)) !== null) {
+            const target = match[1] ?? match[2];
+            const hashIndex = target.indexOf('#');
+            const file = hashIndex >= 0 ? target.slice(0, hashIndex) : undefined;
+            const id = hashIndex >= 0 ? target.slice(hashIndex + 1) : target;
+
+            // ファイル全体への参照（<<other.adoc>>）はアンカーを持たない
+            if (!id || (hashIndex < 0 && /\.(adoc|asciidoc)$/i.test(id))) {
+                continue;
+            }
+
+            const prefixLength = match[1] !== undefined ? 2 : 5;
+            xrefs.push({
+                id,
+                file: file || undefined,
+                line: index,
+                character: match.index + prefixLength + (hashIndex >= 0 ? hashIndex + 1 : 0)
+            });
+        }
+    });
+
+    return xrefs;
+}
@@ -0,0 +1,456 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OUTPUT_FORMATS } from './outputFormats';
+import { ContainerRunner, RunnerKind } from './buildRunner';
+import { isTrustedSetting, runProcess } from './processUtils';
+import { getActiveBuildProfile } from './buildProfiles';
+import { getResourceConfiguration, resolveProjectContext } from './projectContext';
+import { loadProjectManifest } from './projectManifest';
+import { loadPdfTheme, resolveThemeValue } from './pdfTheme';
+
+export type CheckStatus = 'ok' | 'warning' | 'error' | 'info';
+
+// 問題を解消するための操作（ターミナルで実行するコマンド・URL・VS Codeのコマンドのいずれか）
+export interface Remediation {
+    label: string;
+    terminalCommand?: string;
+    url?: string;
+    command?: { command: string; args?: unknown[] };
+}
+
+export interface EnvironmentCheckResult {
+    id: string;
+    label: string;
+    status: CheckStatus;
+    version?: string;
+    detail: string;
+    remediations: Remediation[];
+}
+
+// 検出したツールのバージョン（見つからない場合は error に理由を入れる）
+interface ToolProbe {
+    found: boolean;
+    version?: string;
+    output: string;
+    error?: string;
+}
+
+const PROBE_TIMEOUT_SECONDS = 20;
+
+// 動作を確認している最小バージョン
+const MIN_VERSIONS = {
+    ruby: '2.7.0',
+    asciidoctor: '2.0.0',
+    // scripts=cjk 属性とテーマの font_catalog の merge は 2.0 以降
+    asciidoctorPdf: '2.0.0',
+    asciidoctorEpub3: '1.5.0',
+    // diagram-cachedir 属性は 2.0 以降
+    asciidoctorDiagram: '2.0.0',
+    java: '8'
+};
+
+// 日本語のグリフを含む主なフォント（ファミリー名またはファイル名で判定）
+const CJK_FONT_PATTERN = /M\+ ?1p|mplus-?1p|Noto ?(Sans|Serif) ?(CJK|JP)|Source ?Han|GenShin|GenJyuu|IPA|Koruri|Migu|Kosugi|BIZ ?UD|Sawarabi|Meiryo|Yu ?Gothic|Yu ?Mincho|Hiragino|MS ?Gothic|MS ?Mincho|Takao|VL ?Gothic|Ume|HackGen|UDEV/i;
+
+const LINKS = {
+    ruby: 'https://www.ruby-lang.org/ja/documentation/installation/',
+    java: 'https://adoptium.net/ja/',
+    graphviz: 'https://graphviz.org/download/',
+    plantuml: 'https://plantuml.com/ja/download',
+    docker: 'https://docs.docker.com/get-docker/',
+    poppler: 'https://poppler.freedesktop.org/',
+    cjkFonts: 'https://github.com/notofonts/noto-cjk'
+};
+
+// ドット区切りのバージョンを比較する（a < b なら負）
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split(/[._-]/).map(part => parseInt(part, 10) || 0);
+    const partsB = b.split(/[._-]/).map(part => parseInt(part, 10) || 0);
+    for (let index = 0; index < Math.max(partsA.length, partsB.length); index++) {
+        const difference = (partsA[index] ?? 0) - (partsB[index] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+// コマンドを実行し、標準出力・標準エラー出力からバージョンを取り出す
+async function probe(command: string, args: string[], pattern: RegExp): Promise<ToolProbe> {
+    const result = await runProcess(command, args, { timeoutSeconds: PROBE_TIMEOUT_SECONDS });
+    const output = `${result.stdout}\n${result.stderr}`.trim();
+    if (result.error) {
+        return { found: false, output, error: output.split(/\r?\n/)[0] || result.error.message };
+    }
+    return { found: true, version: pattern.exec(output)?.[1], output };
+}
+
+// java -version の表記（1.8.0_392 / 17.0.9 / 21）をメジャーバージョンにする
+function toJavaMajorVersion(version: string): string {
+    const [first, second] = version.split('.');
+    return first === '1' && second ? second : first;
+}
+
+// アクティブなエディタのフォルダ（なければ最初のフォルダ）を対象とする
+function getWorkspaceRoot(): string | undefined {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const folder = (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ?? vscode.workspace.workspaceFolders?.[0];
+    return folder?.uri.fsPath;
+}
+
+function gemRemediation(gem: string, update: boolean): Remediation {
+    return update
+        ? { label: `${gem} を更新`, terminalCommand: `gem update ${gem}` }
+        : { label: `${gem} をインストール`, terminalCommand: `gem install ${gem}` };
+}
+
+function openSettingRemediation(key: string): Remediation {
+    return {
+        label: `設定 ${key} を開く`,
+        command: { command: 'workbench.action.openSettings', args: [key] }
+    };
+}
+
+// バージョンが最小バージョンを満たすかで状態を決める
+function versionResult(
+    id: string,
+    label: string,
+    tool: ToolProbe,
+    minVersion: string,
+    missingStatus: CheckStatus,
+    missingDetail: string,
+    remediation: (update: boolean) => Remediation[]
+): EnvironmentCheckResult {
+    if (!tool.found) {
+        return { id, label, status: missingStatus, detail: `${missingDetail}（${tool.error}）`, remediations: remediation(false) };
+    }
+    if (!tool.version) {
+        return { id, label, status: 'warning', detail: 'バージョンを判別できませんでした。', remediations: [] };
+    }
+    if (compareVersions(tool.version, minVersion) < 0) {
+        return {
+            id, label, status: 'error', version: tool.version,
+            detail: `バージョン ${minVersion} 以降が必要です。`,
+            remediations: remediation(true)
+        };
+    }
+    return { id, label, status: 'ok', version: tool.version, detail: '利用可能', remediations: [] };
+}
+
+// ビルド方法の設定から、ネイティブ環境とコンテナのどちらが必須かを決める
+function getRequirements(runner: RunnerKind | 'auto', nativeAvailable: boolean, containerAvailable: boolean) {
+    return {
+        native: runner === 'native' || (runner === 'auto' && !containerAvailable),
+        container: runner === 'docker' || runner === 'podman' || (runner === 'auto' && !nativeAvailable)
+    };
+}
+
+// ビルドに必要なツールチェーンを検査する
+export async function runEnvironmentChecks(outputChannel: vscode.OutputChannel): Promise<EnvironmentCheckResult[]> {
+    const config = getResourceConfiguration(getWorkspaceRoot());
+    const runner = config.get<RunnerKind | 'auto'>('build.runner', 'auto');
+    const diagramsEnabled = config.get<boolean>('build.enableDiagrams', true);
+    const containerKind = runner === 'podman' ? 'podman' : 'docker';
+
+    const nativeCommand = (key: string, defaultCommand: string) => isTrustedSetting('asciidocSuite', key)
+        ? config.get<string>(key, defaultCommand) || defaultCommand
+        : undefined;
+    const untrusted = (key: string): ToolProbe => ({
+        found: false,
+        output: '',
+        error: `信頼されていないワークスペースのため、ワークスペース設定の asciidocSuite.${key} は使用できません`
+    });
+    const probeAsciidoctor = (format: keyof typeof OUTPUT_FORMATS, pattern: RegExp) => {
+        const { pathConfigKey, defaultCommand } = OUTPUT_FORMATS[format];
+        const command = nativeCommand(pathConfigKey, defaultCommand);
+        return command ? probe(command, ['--version'], pattern) : Promise.resolve(untrusted(pathConfigKey));
+    };
+
+    const javaCommand = nativeCommand('diagrams.javaPath', 'java');
+    const pdftotextCommand = nativeCommand('history.pdftotextPath', 'pdftotext');
+    const [ruby, asciidoctor, asciidoctorPdf, asciidoctorEpub3, diagramGem, java, graphviz, container, pdftotext] = await Promise.all([
+        probe('ruby', ['--version'], /ruby (\d+\.\d+\.\d+)/),
+        probeAsciidoctor('html5', /Asciidoctor (\d+\.\d+\.\d+)/),
+        probeAsciidoctor('pdf', /Asciidoctor PDF (\d+\.\d+\.\d+)/),
+        probeAsciidoctor('epub3', /Asciidoctor EPUB3 (\d+\.\d+\.\d+)/),
+        probe('gem', ['list', '--local', '^asciidoctor-diagram$'], /asciidoctor-diagram \(([\d.]+)/),
+        javaCommand ? probe(javaCommand, ['-version'], /version "?(\d+(?:\.\d+)*(?:_\d+)?)/) : Promise.resolve(untrusted('diagrams.javaPath')),
+        probe('dot', ['-V'], /graphviz version (\S+)/),
+        probe(containerKind, ['--version'], /version (\d+\.\d+\.\d+)/),
+        pdftotextCommand ? probe(pdftotextCommand, ['-v'], /pdftotext version (\S+)/) : Promise.resolve(untrusted('history.pdftotextPath'))
+    ]);
+
+    // gem list は該当する gem がなくても正常終了する
+    if (diagramGem.found && !diagramGem.version) {
+        diagramGem.found = false;
+        diagramGem.error = 'インストールされていません';
+    }
+    // 古い pdftotext は -v でも 0 以外の終了コードを返す
+    if (!pdftotext.found && /pdftotext version/.test(pdftotext.output)) {
+        pdftotext.found = true;
+        pdftotext.version = /pdftotext version (\S+)/.exec(pdftotext.output)?.[1];
+    }
+
+    const containerRunner = new ContainerRunner(containerKind, outputChannel);
+    const containerLabel = containerRunner.label;
+    const image = containerRunner.image;
+    const imagePresent = container.found
+        ? (await runProcess(containerKind, ['images', '-q', image], { timeoutSeconds: PROBE_TIMEOUT_SECONDS })).stdout.trim() !== ''
+        : false;
+
+    const required = getRequirements(runner, asciidoctorPdf.found || asciidoctor.found, container.found && imagePresent);
+    const nativeMissing: CheckStatus = required.native ? 'error' : 'info';
+    const results: EnvironmentCheckResult[] = [];
+
+    // Ruby と gem
+    results.push(versionResult('ruby', 'Ruby', ruby, MIN_VERSIONS.ruby, nativeMissing,
+        'Ruby が見つかりません', () => [{ label: 'Ruby のインストール方法', url: LINKS.ruby }]));
+    results.push(versionResult('asciidoctor', 'Asciidoctor', asciidoctor, MIN_VERSIONS.asciidoctor, nativeMissing,
+        'asciidoctor が見つかりません', update => [gemRemediation('asciidoctor', update), openSettingRemediation('asciidocSuite.build.nativeAsciidoctorHtmlPath')]));
+    const pdfResult = versionResult('asciidoctor-pdf', 'Asciidoctor PDF', asciidoctorPdf, MIN_VERSIONS.asciidoctorPdf, nativeMissing,
+        'asciidoctor-pdf が見つかりません', update => [gemRemediation('asciidoctor-pdf', update), openSettingRemediation('asciidocSuite.build.nativeAsciidoctorPath')]);
+
+    // Asciidoctor PDF が読み込む Asciidoctor が古い場合も変換に失敗する
+    const bundledAsciidoctor = /using Asciidoctor (\d+\.\d+\.\d+)/.exec(asciidoctorPdf.output)?.[1];
+    if (pdfResult.status === 'ok' && bundledAsciidoctor && compareVersions(bundledAsciidoctor, MIN_VERSIONS.asciidoctor) < 0) {
+        pdfResult.status = 'error';
+        pdfResult.detail = `使用している Asciidoctor ${bundledAsciidoctor} は古いため、${MIN_VERSIONS.asciidoctor} 以降に更新してください。`;
+        pdfResult.remediations = [gemRemediation('asciidoctor', true)];
+    }
+    results.push(pdfResult);
+    results.push(versionResult('asciidoctor-epub3', 'Asciidoctor EPUB3', asciidoctorEpub3, MIN_VERSIONS.asciidoctorEpub3, 'info',
+        'asciidoctor-epub3 が見つかりません（EPUB出力にのみ必要）', update => [gemRemediation('asciidoctor-epub3', update)]));
+
+    // 図表
+    if (diagramsEnabled) {
+        results.push(versionResult('asciidoctor-diagram', 'Asciidoctor Diagram', diagramGem, MIN_VERSIONS.asciidoctorDiagram, nativeMissing,
+            'asciidoctor-diagram が見つかりません', update => [gemRemediation('asciidoctor-diagram', update)]));
+        results.push(checkJava(java, nativeMissing));
+        results.push(checkGraphviz(graphviz, nativeMissing));
+        results.push(await checkPlantuml(config, javaCommand, java.found));
+    }
+
+    // フォント
+    results.push(await checkThemeFonts());
+    results.push(await checkSystemFonts(diagramsEnabled));
+
+    // ビルド履歴のPDF比較
+    results.push(checkPdftotext(pdftotext));
+
+    // コンテナ
+    const containerMissing: CheckStatus = required.container ? 'error' : 'info';
+    if (!container.found) {
+        results.push({
+            id: 'container', label: containerLabel, status: containerMissing,
+            detail: `${containerLabel} が見つかりません（${container.error}）`,
+            remediations: [{ label: `${containerLabel} のインストール方法`, url: LINKS.docker }]
+        });
+    } else {
+        results.push({ id: 'container', label: containerLabel, status: 'ok', version: container.version, detail: '利用可能', remediations: [] });
+        results.push({
+            id: 'container-image',
+            label: 'Asciidoctorイメージ',
+            status: imagePresent ? 'ok' : containerMissing === 'error' ? 'error' : 'warning',
+            version: image,
+            detail: imagePresent ? 'ダウンロード済み' : 'イメージがダウンロードされていません。',
+            remediations: imagePresent || !isTrustedSetting('asciidocSuite', 'build.dockerImage')
+                ? []
+                : [{ label: 'イメージをダウンロード', terminalCommand: `${containerKind} pull ${image}` }]
+        });
+    }
+
+    // ビルド方法の設定と利用可能な環境の組み合わせ
+    if (runner === 'native' && !asciidoctorPdf.found && container.found) {
+        results.push({
+            id: 'runner', label: 'ビルド方法', status: 'warning', version: runner,
+            detail: `ネイティブAsciidoctorが見つかりません。${containerLabel} でビルドできます。`,
+            remediations: [openSettingRemediation('asciidocSuite.build.runner')]
+        });
+    } else if ((runner === 'docker' || runner === 'podman') && !container.found && asciidoctorPdf.found) {
+        results.push({
+            id: 'runner', label: 'ビルド方法', status: 'warning', version: runner,
+            detail: `${containerLabel} が見つかりません。ネイティブAsciidoctorでビルドできます。`,
+            remediations: [openSettingRemediation('asciidocSuite.build.runner')]
+        });
+    }
+
+    return results;
+}
+
+function checkJava(java: ToolProbe, missingStatus: CheckStatus): EnvironmentCheckResult {
+    const remediations = [{ label: 'Java のダウンロード', url: LINKS.java }, openSettingRemediation('asciidocSuite.diagrams.javaPath')];
+    if (!java.found) {
+        return { id: 'java', label: 'Java', status: missingStatus, detail: `Java が見つかりません（PlantUMLなどの図表に必要）（${java.error}）`, remediations };
+    }
+    const major = java.version ? toJavaMajorVersion(java.version) : undefined;
+    if (major && compareVersions(major, MIN_VERSIONS.java) < 0) {
+        return { id: 'java', label: 'Java', status: 'error', version: java.version, detail: `Java ${MIN_VERSIONS.java} 以降が必要です。`, remediations };
+    }
+    return { id: 'java', label: 'Java', status: 'ok', version: java.version, detail: '利用可能', remediations: [] };
+}
+
+function checkGraphviz(graphviz: ToolProbe, missingStatus: CheckStatus): EnvironmentCheckResult {
+    if (graphviz.found) {
+        return { id: 'graphviz', label: 'Graphviz', status: 'ok', version: graphviz.version, detail: '利用可能', remediations: [] };
+    }
+
+    const remediations: Remediation[] = [];
+    if (process.platform === 'darwin') {
+        remediations.push({ label: 'Homebrew でインストール', terminalCommand: 'brew install graphviz' });
+    } else if (process.platform === 'win32') {
+        remediations.push({ label: 'winget でインストール', terminalCommand: 'winget install Graphviz.Graphviz' });
+    }
+    remediations.push({ label: 'Graphviz のダウンロード', url: LINKS.graphviz });
+
+    return {
+        id: 'graphviz', label: 'Graphviz', status: missingStatus === 'error' ? 'warning' : missingStatus,
+        detail: `Graphviz（dot）が見つかりません（シーケンス図以外のPlantUML図表とgraphvizブロックに必要）（${graphviz.error}）`,
+        remediations
+    };
+}
+
+function checkPdftotext(pdftotext: ToolProbe): EnvironmentCheckResult {
+    const label = 'pdftotext（PDF比較）';
+    if (pdftotext.found) {
+        return { id: 'pdftotext', label, status: 'ok', version: pdftotext.version, detail: '利用可能', remediations: [] };
+    }
+
+    const remediations: Remediation[] = [];
+    if (process.platform === 'darwin') {
+        remediations.push({ label: 'Homebrew でインストール', terminalCommand: 'brew install poppler' });
+    }
+    remediations.push({ label: 'Poppler のダウンロード', url: LINKS.poppler }, openSettingRemediation('asciidocSuite.history.pdftotextPath'));
+
+    return {
+        id: 'pdftotext', label, status: 'info',
+        detail: `pdftotext が見つかりません（ビルド履歴のPDF比較にのみ必要）（${pdftotext.error}）`,
+        remediations
+    };
+}
+
+// 単体プレビュー用の PlantUML jar
+async function checkPlantuml(config: vscode.WorkspaceConfiguration, javaCommand: string | undefined, javaFound: boolean): Promise<EnvironmentCheckResult> {
+    const label = 'PlantUML（図表プレビュー）';
+    const remediations = [{ label: 'PlantUML のダウンロード', url: LINKS.plantuml }, openSettingRemediation('asciidocSuite.diagrams.plantumlJar')];
+    const jarSetting = config.get<string>('diagrams.plantumlJar', '').trim();
+
+    if (!jarSetting) {
+        return { id: 'plantuml', label, status: 'info', detail: 'jar が設定されていないため、図表プレビューにはAsciidoctorイメージを使用します。', remediations };
+    }
+    if (!isTrustedSetting('asciidocSuite', 'diagrams.plantumlJar')) {
+        return { id: 'plantuml', label, status: 'warning', detail: '信頼されていないワークスペースのため、ワークスペース設定の jar は使用できません。', remediations: [] };
+    }
+
+    const workspaceRoot = getWorkspaceRoot();
+    const jar = workspaceRoot ? path.resolve(workspaceRoot, jarSetting) : jarSetting;
+    if (!await fs.pathExists(jar)) {
+        return { id: 'plantuml', label, status: 'error', detail: `jar が見つかりません: ${jar}`, remediations };
+    }
+    if (!javaCommand || !javaFound) {
+        return { id: 'plantuml', label, status: 'warning', detail: 'Java が見つからないため、バージョンを確認できません。', remediations: [] };
+    }
+
+    const plantuml = await probe(javaCommand, ['-Djava.awt.headless=true', '-jar', jar, '-version'], /PlantUML version ([\d.]+)/);
+    return plantuml.found
+        ? { id: 'plantuml', label, status: 'ok', version: plantuml.version, detail: jar, remediations: [] }
+        : { id: 'plantuml', label, status: 'error', detail: `jar を実行できません（${plantuml.error}）`, remediations };
+}
+
+// ビルドと同じ規則で、アクティブなドキュメント（なければワークスペースフォルダ）のPDFテーマを解決する
+// プロファイル・マニフェストのテーマはプロジェクトルート、設定のテーマはドキュメントのディレクトリを基準とする
+async function resolveThemeFile(): Promise<string | undefined> {
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    const documentFile = activeDocument?.uri.scheme === 'file' && /\.(adoc|asciidoc)$/i.test(activeDocument.fileName)
+        ? path.resolve(activeDocument.fileName)
+        : undefined;
+    const base = documentFile ?? getWorkspaceRoot();
+    if (!base) {
+        return undefined;
+    }
+
+    const project = await resolveProjectContext(documentFile ?? path.join(base, 'index.adoc'));
+    const profileTheme = getActiveBuildProfile(base)?.theme;
+    if (profileTheme) {
+        return path.resolve(project.projectRoot, profileTheme);
+    }
+    if (documentFile && project.manifestPath) {
+        try {
+            const manifest = await loadProjectManifest(project.manifestPath);
+            const declared = manifest.documents.find(document => path.resolve(project.projectRoot, document.input) === documentFile);
+            if (declared?.theme) {
+                return path.resolve(project.projectRoot, declared.theme);
+            }
+        } catch {
+            // マニフェストの構文エラーはビルド時に報告する
+        }
+    }
+    const themeSetting = getResourceConfiguration(base).get<string>('build.pdfTheme', './theme/document-theme.yml');
+    return themeSetting ? path.resolve(documentFile ? path.dirname(documentFile) : base, themeSetting) : undefined;
+}
+
+// PDFテーマのフォントカタログに日本語フォントが設定されているか
+async function checkThemeFonts(): Promise<EnvironmentCheckResult> {
+    const label = 'CJKフォント（PDFテーマ）';
+    const themeFile = await resolveThemeFile();
+
+    if (!themeFile || !await fs.pathExists(themeFile)) {
+        return {
+            id: 'theme-fonts', label, status: 'info',
+            detail: 'PDFテーマが見つからないため、組み込みテーマを使用します（日本語は M+ 1p Fallback で表示されます）。',
+            remediations: [openSettingRemediation('asciidocSuite.build.pdfTheme')]
+        };
+    }
+
+    const theme = await loadPdfTheme(themeFile);
+    const cjkFamilies = [...theme.fontCatalog.entries()]
+        .filter(([family, entry]) => CJK_FONT_PATTERN.test(family) || CJK_FONT_PATTERN.test(JSON.stringify(entry.value)))
+        .map(([family]) => family);
+    const baseFamily = String(resolveThemeValue(theme, 'base_font_family') ?? '');
+    const fallbacks = resolveThemeValue(theme, 'font_fallbacks');
+    const used = [baseFamily, ...(Array.isArray(fallbacks) ? fallbacks.map(String) : [])];
+    const usedCjk = cjkFamilies.filter(family => used.includes(family));
+    const fontErrors = theme.issues.filter(issue => issue.severity === 'error' && issue.key === 'font_catalog');
+    const remediations: Remediation[] = [{
+        label: 'PDFテーマエディタを開く',
+        command: { command: 'asciidocSuite.openThemeEditor', args: [vscode.Uri.file(themeFile)] }
+    }];
+
+    if (fontErrors.length > 0) {
+        return { id: 'theme-fonts', label, status: 'error', version: path.basename(themeFile), detail: fontErrors[0].message, remediations };
+    }
+    if (usedCjk.length === 0) {
+        return {
+            id: 'theme-fonts', label, status: 'warning', version: path.basename(themeFile),
+            detail: cjkFamilies.length > 0
+                ? `日本語フォント（${cjkFamilies.join(', ')}）が base.font_family にも font.fallbacks にも設定されていません。`
+                : 'フォントカタログに日本語フォントがないため、日本語が表示されない可能性があります。',
+            remediations
+        };
+    }
+    return { id: 'theme-fonts', label, status: 'ok', version: usedCjk.join(', '), detail: path.basename(themeFile), remediations: [] };
+}
+
+// 図表（Java / Graphviz）はOSのフォントで描画する
+async function checkSystemFonts(diagramsEnabled: boolean): Promise<EnvironmentCheckResult> {
+    const label = 'CJKフォント（システム）';
+    if (!diagramsEnabled) {
+        return { id: 'system-fonts', label, status: 'info', detail: '図表機能が無効のため確認していません。', remediations: [] };
+    }
+    if (process.platform !== 'linux') {
+        return { id: 'system-fonts', label, status: 'ok', detail: 'OS標準の日本語フォントを使用します。', remediations: [] };
+    }
+
+    const result = await runProcess('fc-list', [':lang=ja', 'family'], { timeoutSeconds: PROBE_TIMEOUT_SECONDS });
+    if (result.error) {
+        return { id: 'system-fonts', label, status: 'info', detail: 'fc-list を実行できないため確認できません。', remediations: [] };
+    }
+    const families = [...new Set(result.stdout.split(/\r?\n/).map(line => line.split(',')[0].trim()).filter(Boolean))];
+    return families.length > 0
+        ? { id: 'system-fonts', label, status: 'ok', version: families.slice(0, 3).join(', '), detail: `${families.length}件の日本語フォント`, remediations: [] }
+        : {
+            id: 'system-fonts', label, status: 'warning',
+            detail: '日本語フォントがないため、図表内の日本語が表示されない可能性があります。',
+            remediations: [{ label: 'Noto CJK フォントのダウンロード', url: LINKS.cjkFonts }]
+        };
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { CheckStatus, EnvironmentCheckResult, Remediation, runEnvironmentChecks } from './environmentChecks';
+
+type DoctorNode = CheckNode | RemediationNode;
+
+interface CheckNode {
+    type: 'check';
+    result: EnvironmentCheckResult;
+}
+
+interface RemediationNode {
+    type: 'remediation';
+    remediation: Remediation;
+}
+
+const STATUS_ICONS: Record<CheckStatus, [string, string]> = {
+    ok: ['pass', 'testing.iconPassed'],
+    warning: ['warning', 'list.warningForeground'],
+    error: ['error', 'errorForeground'],
+    info: ['info', 'descriptionForeground']
+};
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+    ok: 'OK',
+    warning: '警告',
+    error: 'エラー',
+    info: '情報'
+};
+
+// ビルドに使用するツールチェーンの状態をサイドバーに表示し、対処方法を実行する
+export class EnvironmentDoctor implements vscode.TreeDataProvider<DoctorNode>, vscode.Disposable {
+    public static readonly viewType = 'asciidocEnvironment';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<DoctorNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private outputChannel: vscode.OutputChannel;
+    private results?: Promise<EnvironmentCheckResult[]>;
+    private terminal?: vscode.Terminal;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.outputChannel = vscode.window.createOutputChannel('Asciidoc Environment');
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            vscode.window.onDidCloseTerminal(terminal => {
+                if (terminal === this.terminal) {
+                    this.terminal = undefined;
+                }
+            })
+        );
+    }
+
+    // 環境を再検査してビューを更新し、結果を通知する
+    async checkEnvironment(): Promise<void> {
+        this.results = undefined;
+        this._onDidChangeTreeData.fire(undefined);
+        await vscode.commands.executeCommand(`${EnvironmentDoctor.viewType}.focus`);
+
+        const results = await vscode.window.withProgress({
+            location: { viewId: EnvironmentDoctor.viewType },
+            title: '環境を確認しています...'
+        }, () => this.getResults());
+
+        const errors = results.filter(result => result.status === 'error').length;
+        const warnings = results.filter(result => result.status === 'warning').length;
+        if (errors === 0 && warnings === 0) {
+            vscode.window.showInformationMessage('環境診断: 問題は見つかりませんでした。');
+            return;
+        }
+
+        const selection = await vscode.window.showWarningMessage(
+            `環境診断: エラー ${errors}件 / 警告 ${warnings}件が見つかりました。`,
+            '詳細を表示'
+        );
+        if (selection === '詳細を表示') {
+            this.outputChannel.show();
+        }
+    }
+
+    // 対処方法を実行する（検査項目から呼び出された場合は選択する）
+    async runRemediation(node?: DoctorNode | Remediation): Promise<void> {
+        let remediation: Remediation | undefined;
+        if (!node) {
+            return;
+        } else if ('type' in node && node.type === 'check') {
+            const { remediations } = node.result;
+            remediation = remediations.length <= 1 ? remediations[0] : (await vscode.window.showQuickPick(
+                remediations.map(item => ({ label: item.label, detail: item.terminalCommand ?? item.url, remediation: item })),
+                { placeHolder: `${node.result.label}の対処方法を選択してください` }
+            ))?.remediation;
+        } else {
+            remediation = 'type' in node ? node.remediation : node;
+        }
+
+        if (!remediation) {
+            return;
+        }
+        if (remediation.terminalCommand) {
+            // 実行内容が見えるよう、専用のターミナルで実行する
+            if (!this.terminal) {
+                this.terminal = vscode.window.createTerminal('Asciidoc Environment');
+            }
+            this.terminal.show();
+            this.terminal.sendText(remediation.terminalCommand);
+            vscode.window.showInformationMessage('コマンドの完了後に「Check Environment」で再確認してください。', '再確認').then(selection => {
+                if (selection === '再確認') {
+                    this.checkEnvironment();
+                }
+            });
+        } else if (remediation.url) {
+            await vscode.env.openExternal(vscode.Uri.parse(remediation.url));
+        } else if (remediation.command) {
+            await vscode.commands.executeCommand(remediation.command.command, ...(remediation.command.args ?? []));
+        }
+    }
+
+    async getChildren(node?: DoctorNode): Promise<DoctorNode[]> {
+        if (node) {
+            return node.type === 'check'
+                ? node.result.remediations.map(remediation => ({ type: 'remediation', remediation }))
+                : [];
+        }
+        const results = await this.getResults();
+        return results.map(result => ({ type: 'check', result }));
+    }
+
+    getTreeItem(node: DoctorNode): vscode.TreeItem {
+        if (node.type === 'remediation') {
+            const { remediation } = node;
+            const item = new vscode.TreeItem(remediation.label);
+            item.description = remediation.terminalCommand;
+            item.tooltip = remediation.terminalCommand ?? remediation.url;
+            item.iconPath = new vscode.ThemeIcon(remediation.terminalCommand ? 'terminal' : remediation.url ? 'link-external' : 'gear');
+            item.command = { command: 'asciidocSuite.environment.fix', title: '実行', arguments: [remediation] };
+            return item;
+        }
+
+        const { result } = node;
+        const item = new vscode.TreeItem(
+            result.label,
+            result.remediations.length > 0 && result.status !== 'ok'
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None
+        );
+        const [icon, color] = STATUS_ICONS[result.status];
+        item.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+        item.description = result.version ?? (result.status === 'ok' ? undefined : STATUS_LABELS[result.status]);
+        item.tooltip = `${result.label}: ${STATUS_LABELS[result.status]}\n${result.detail}`;
+        item.contextValue = result.remediations.length > 0 ? 'fixable' : 'check';
+        return item;
+    }
+
+    private getResults(): Promise<EnvironmentCheckResult[]> {
+        if (!this.results) {
+            const results = runEnvironmentChecks(this.outputChannel).then(checkResults => {
+                this.writeReport(checkResults);
+                return checkResults;
+            }).catch(error => {
+                // 失敗した結果は保持せず、次の表示で診断をやり直す
+                if (this.results === results) {
+                    this.results = undefined;
+                }
+                throw error;
+            });
+            this.results = results;
+        }
+        return this.results;
+    }
+
+    // コピーして共有できるよう、結果を出力チャンネルにも書き出す
+    private writeReport(results: EnvironmentCheckResult[]): void {
+        this.outputChannel.clear();
+        this.outputChannel.appendLine(`環境診断（${new Date().toLocaleString()}）`);
+        this.outputChannel.appendLine(`OS: ${process.platform} ${process.arch} / VS Code ${vscode.version}`);
+        for (const result of results) {
+            const version = result.version ? ` ${result.version}` : '';
+            this.outputChannel.appendLine(`[${STATUS_LABELS[result.status]}] ${result.label}${version}: ${result.detail}`);
+            for (const remediation of result.remediations) {
+                this.outputChannel.appendLine(`    → ${remediation.label}${remediation.terminalCommand ? `: ${remediation.terminalCommand}` : remediation.url ? `: ${remediation.url}` : ''}`);
+            }
+        }
+    }
+
+    dispose(): void {
+        this.outputChannel.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
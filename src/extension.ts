@@ -2,20 +2,85 @@ import * as vscode from 'vscode';
 import { ProjectManager } from './projectManager';
 import { BuildManager } from './buildManager';
 import { AsciidocSidebarProvider } from './sidebarProvider';
+import { PreviewManager } from './previewManager';
+import { WatchManager } from './watchManager';
+import { OutlineProvider } from './outlineProvider';
+import { AsciidocLanguageFeatures } from './languageFeatures';
+import { LintManager } from './lintManager';
+import { DiagramManager } from './diagramManager';
+import { ThemeEditor } from './themeEditor';
+import { BuildProfileManager } from './buildProfileManager';
+import { EnvironmentDoctor } from './environmentDoctor';
+import { BuildHistory } from './buildHistory';
+import { BuildHistoryProvider } from './buildHistoryProvider';
+import { OpenApiGenerator } from './openapiGenerator';
+import { ContentImporter } from './contentImporter';
+import { GlossaryManager } from './glossaryManager';
+import { ReleaseManager } from './releaseManager';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Asciidoc Suite が起動されました');
 
     // プロバイダーとマネージャーの初期化
-    const projectManager = new ProjectManager(context.extensionPath);
-    const buildManager = new BuildManager();
+    const projectManager = new ProjectManager(context.extensionPath, context.globalState);
+    const buildHistory = new BuildHistory();
+    const buildManager = new BuildManager(buildHistory);
+    const previewManager = new PreviewManager(buildManager);
+    const watchManager = new WatchManager(buildManager);
+    const diagramManager = new DiagramManager();
+    const themeEditor = new ThemeEditor(buildManager);
+    const profileManager = new BuildProfileManager();
+    context.subscriptions.push(buildHistory, buildManager, previewManager, watchManager, diagramManager, themeEditor, profileManager);
 
     // サイドバープロバイダーの登録
-    const sidebarProvider = new AsciidocSidebarProvider(context.extensionUri, projectManager, buildManager);
+    const sidebarProvider = new AsciidocSidebarProvider(
+        context.extensionUri, projectManager, buildManager, watchManager, profileManager
+    );
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(AsciidocSidebarProvider.viewType, sidebarProvider)
     );
 
+    // アウトラインビューの登録
+    const outlineProvider = new OutlineProvider(buildManager);
+    context.subscriptions.push(
+        outlineProvider,
+        vscode.window.registerTreeDataProvider(OutlineProvider.viewType, outlineProvider)
+    );
+
+    // 環境診断ビューの登録
+    const environmentDoctor = new EnvironmentDoctor();
+    context.subscriptions.push(
+        environmentDoctor,
+        vscode.window.registerTreeDataProvider(EnvironmentDoctor.viewType, environmentDoctor)
+    );
+
+    // ビルド履歴ビューの登録（2件選択して比較できるよう複数選択を有効にする）
+    const historyProvider = new BuildHistoryProvider(buildHistory);
+    context.subscriptions.push(
+        historyProvider,
+        vscode.window.createTreeView(BuildHistoryProvider.viewType, { treeDataProvider: historyProvider, canSelectMany: true })
+    );
+
+    // 相互参照・インクルードパスの言語機能
+    context.subscriptions.push(new AsciidocLanguageFeatures());
+
+    // 用語集
+    const glossaryManager = new GlossaryManager();
+    context.subscriptions.push(glossaryManager);
+
+    // ドキュメントのリント
+    const lintManager = new LintManager(context.extensionPath, glossaryManager);
+    context.subscriptions.push(lintManager);
+
+    // OpenAPI 定義からの仕様書生成
+    const openApiGenerator = new OpenApiGenerator();
+
+    // Markdown・CSV の取り込み
+    const contentImporter = new ContentImporter();
+
+    // ドキュメントのリリース
+    const releaseManager = new ReleaseManager();
+
     // コマンドの登録
     const commands = [
         // プロジェクト作成
@@ -23,11 +88,141 @@ export function activate(context: vscode.ExtensionContext) {
             await projectManager.createNewProject();
         }),
 
+        // 現在のプロジェクトをテンプレートとして保存
+        vscode.commands.registerCommand('asciidocSuite.saveProjectAsTemplate', async () => {
+            await projectManager.saveProjectAsTemplate();
+        }),
+
         // PDF ビルド
         vscode.commands.registerCommand('asciidocSuite.buildPdf', async () => {
             await buildManager.buildPdf();
         }),
 
+        // 設定された出力形式でビルド
+        vscode.commands.registerCommand('asciidocSuite.build', async () => {
+            await buildManager.buildConfiguredFormat();
+        }),
+
+        // HTML ビルド
+        vscode.commands.registerCommand('asciidocSuite.buildHtml', async () => {
+            await buildManager.buildHtml();
+        }),
+
+        // EPUB ビルド
+        vscode.commands.registerCommand('asciidocSuite.buildEpub', async () => {
+            await buildManager.buildEpub();
+        }),
+
+        // 全形式ビルド
+        vscode.commands.registerCommand('asciidocSuite.buildAllFormats', async () => {
+            await buildManager.buildAllFormats();
+        }),
+
+        // マニフェストの全ドキュメントをビルド
+        vscode.commands.registerCommand('asciidocSuite.buildAll', async () => {
+            await buildManager.buildAll();
+        }),
+
+        // ビルドプロファイルの選択
+        vscode.commands.registerCommand('asciidocSuite.selectBuildProfile', async () => {
+            await profileManager.selectProfile();
+        }),
+
+        // 監視モードの切り替え
+        vscode.commands.registerCommand('asciidocSuite.toggleWatch', () => {
+            watchManager.toggleWatch();
+        }),
+
+        // プレビュー表示
+        vscode.commands.registerCommand('asciidocSuite.showPreview', async () => {
+            await previewManager.showPreview();
+        }),
+
+        // カーソル位置の図表のプレビュー
+        vscode.commands.registerCommand('asciidocSuite.previewDiagram', async () => {
+            await diagramManager.previewDiagramAtCursor();
+        }),
+
+        // 図表キャッシュの削除
+        vscode.commands.registerCommand('asciidocSuite.clearDiagramCache', async () => {
+            await diagramManager.clearCache();
+        }),
+
+        // PDFテーマエディタ
+        vscode.commands.registerCommand('asciidocSuite.openThemeEditor', async (uri?: vscode.Uri) => {
+            await themeEditor.openThemeEditor(uri);
+        }),
+
+        // アウトラインの再読み込み
+        vscode.commands.registerCommand('asciidocSuite.outline.refresh', () => {
+            outlineProvider.refresh();
+        }),
+
+        // アウトラインのノードが属するドキュメントをビルド
+        vscode.commands.registerCommand('asciidocSuite.outline.buildDocument', async (node) => {
+            await outlineProvider.buildDocument(node);
+        }),
+
+        // プロジェクト全体のリント
+        vscode.commands.registerCommand('asciidocSuite.lintProject', async () => {
+            await lintManager.lintProject();
+        }),
+
+        // OpenAPI 定義から WebAPI 仕様を生成
+        vscode.commands.registerCommand('asciidocSuite.generateFromOpenApi', async (uri?: vscode.Uri) => {
+            await openApiGenerator.generate(uri);
+        }),
+
+        // 選択した語を用語集に追加
+        vscode.commands.registerCommand('asciidocSuite.addToGlossary', async (term?: string) => {
+            await glossaryManager.addToGlossary(typeof term === 'string' ? term : undefined);
+        }),
+
+        // Markdown を AsciiDoc に変換して取り込む
+        vscode.commands.registerCommand('asciidocSuite.importMarkdown', async (uri?: vscode.Uri) => {
+            await contentImporter.importMarkdown(uri);
+        }),
+
+        // CSV を表として挿入
+        vscode.commands.registerCommand('asciidocSuite.insertCsvTable', async (uri?: vscode.Uri) => {
+            await contentImporter.insertCsvTable(uri);
+        }),
+
+        // 版数を上げて改版履歴を更新し、リリースする
+        vscode.commands.registerCommand('asciidocSuite.releaseDocument', async (uri?: vscode.Uri) => {
+            await releaseManager.releaseDocument(uri);
+        }),
+
+        // 環境診断
+        vscode.commands.registerCommand('asciidocSuite.checkEnvironment', async () => {
+            await environmentDoctor.checkEnvironment();
+        }),
+
+        // 環境診断の対処方法を実行
+        vscode.commands.registerCommand('asciidocSuite.environment.fix', async (node) => {
+            await environmentDoctor.runRemediation(node);
+        }),
+
+        // ビルド履歴の出力ファイルを開く
+        vscode.commands.registerCommand('asciidocSuite.history.openOutput', async (node) => {
+            await historyProvider.openOutput(node);
+        }),
+
+        // ビルド履歴のPDFを比較
+        vscode.commands.registerCommand('asciidocSuite.history.compare', async (node, nodes) => {
+            await historyProvider.compare(node, nodes);
+        }),
+
+        // ビルド履歴の項目を削除
+        vscode.commands.registerCommand('asciidocSuite.history.delete', async (node) => {
+            await historyProvider.deleteEntry(node);
+        }),
+
+        // ビルド履歴の消去
+        vscode.commands.registerCommand('asciidocSuite.history.clear', async () => {
+            await historyProvider.clear();
+        }),
+
         // アーカイブエクスポート
         vscode.commands.registerCommand('asciidocSuite.exportArchive', async () => {
             await buildManager.exportArchive();
@@ -0,0 +1,124 @@
+// 生成した内容を書き込む範囲（「// tag::<id>[]」〜「// end::<id>[]」）
+// Asciidoctor のタグ付き領域と同じ書式のため、include::file.adoc[tag=<id>] で個別に取り込むこともできる
+export interface GeneratedRegion {
+    id: string;
+    content: string;
+}
+
+export interface RegionMergeResult {
+    text: string;
+    added: string[];
+    updated: string[];
+    removed: string[];
+}
+
+type Segment = { kind: 'text'; lines: string[] } | { kind: 'region'; id: string; lines: string[] };
+
+const REGION_START_PATTERN = /^\/\/ tag::([^\s[\]]+)\[\]\s*$/;
+
+function regionLines(region: GeneratedRegion): string[] {
+    return [`// tag::${region.id}[]`, ...region.content.split('\n'), `// end::${region.id}[]`];
+}
+
+// 既存の文書を本文と範囲に分ける（終了行のない範囲は本文として扱う）
+function parseSegments(lines: string[]): Segment[] {
+    const segments: Segment[] = [];
+    let text: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const id = REGION_START_PATTERN.exec(lines[index])?.[1];
+        const end = id ? lines.indexOf(`// end::${id}[]`, index + 1) : -1;
+        if (!id || end < 0) {
+            text.push(lines[index++]);
+            continue;
+        }
+        segments.push({ kind: 'text', lines: text }, { kind: 'region', id, lines: lines.slice(index + 1, end) });
+        text = [];
+        index = end + 1;
+    }
+    segments.push({ kind: 'text', lines: text });
+    return segments;
+}
+
+// 生成した範囲を既存の文書に反映する
+// prefix で始まる範囲のみを管理し、範囲の外の文章と他のタグはそのまま残す
+// 新しい範囲は生成順で直前の範囲の後に追加し、生成されなくなった範囲は削除する
+export function mergeGeneratedRegions(
+    existing: string | undefined,
+    regions: GeneratedRegion[],
+    prefix: string,
+    header: string[] = []
+): RegionMergeResult {
+    const eol = existing?.includes('\r\n') ? '\r\n' : '\n';
+    const added: string[] = [];
+    const updated: string[] = [];
+    const removed: string[] = [];
+
+    if (existing === undefined) {
+        const lines = [...header, ...(header.length > 0 ? [''] : [])];
+        regions.forEach((region, index) => {
+            lines.push(...(index > 0 ? [''] : []), ...regionLines(region));
+            added.push(region.id);
+        });
+        return { text: `${lines.join(eol)}${eol}`, added, updated, removed };
+    }
+
+    const generated = new Map(regions.map(region => [region.id, region]));
+    const output: Segment[] = [];
+    let removedPrevious = false;
+
+    for (const segment of parseSegments(existing.split(/\r?\n/))) {
+        if (segment.kind === 'region' && segment.id.startsWith(prefix)) {
+            const region = generated.get(segment.id);
+            removedPrevious = !region;
+            if (!region) {
+                removed.push(segment.id);
+                continue;
+            }
+            if (region.content !== segment.lines.join('\n')) {
+                updated.push(segment.id);
+            }
+            output.push({ kind: 'region', id: segment.id, lines: region.content.split('\n') });
+            continue;
+        }
+
+        // 削除した範囲の前後の空行が重ならないようにする
+        const previous = output[output.length - 1];
+        if (removedPrevious && previous?.kind === 'text' && previous.lines[previous.lines.length - 1] === '' && segment.lines[0] === '') {
+            segment.lines.shift();
+        }
+        removedPrevious = false;
+        output.push(segment);
+    }
+
+    // 生成順で直前の範囲の後（なければ最初の範囲の前、範囲がなければ末尾）に空行を挟んで追加する
+    const findRegion = (predicate: (id: string) => boolean) =>
+        output.findIndex(segment => segment.kind === 'region' && predicate(segment.id));
+    let previousId: string | undefined;
+    for (const region of regions) {
+        if (findRegion(id => id === region.id) < 0) {
+            const segment: Segment = { kind: 'region', id: region.id, lines: region.content.split('\n') };
+            const anchor = previousId ? findRegion(id => id === previousId) : -1;
+            const first = findRegion(id => id.startsWith(prefix));
+            if (anchor >= 0) {
+                output.splice(anchor + 1, 0, { kind: 'text', lines: [''] }, segment);
+            } else if (first >= 0) {
+                output.splice(first, 0, segment, { kind: 'text', lines: [''] });
+            } else {
+                const last = output[output.length - 1];
+                if (last.lines[last.lines.length - 1] !== '') {
+                    output.push({ kind: 'text', lines: [''] });
+                }
+                output.push(segment, { kind: 'text', lines: [''] });
+            }
+            added.push(region.id);
+        }
+        previousId = region.id;
+    }
+
+    const lines = output.flatMap(segment => segment.kind === 'region'
+        ? regionLines({ id: segment.id, content: segment.lines.join('\n') })
+        : segment.lines);
+    return { text: lines.join(eol), added, updated, removed };
+}
@@ -0,0 +1,243 @@
+import { scanDocumentLines } from './includeGraph';
+import type { LintEdit, LintProblem } from './lintRules';
+import { extractProse } from './proofreadRules';
+
+// 用語集の項目（line は用語の行、0始まり）
+export interface GlossaryEntry {
+    term: string;
+    definition: string;
+    synonyms: string[];
+    line: number;
+}
+
+// 用語集の範囲（endLine は範囲の次の行）と項目
+export interface Glossary {
+    startLine: number;
+    endLine: number;
+    entries: GlossaryEntry[];
+}
+
+export interface TermOccurrence {
+    term: string;
+    line: number;
+    character: number;
+}
+
+const GLOSSARY_HEADING_PATTERN = /^(=+)\s+(用語集|用語一覧|用語の定義|用語定義|Glossary)\s*$/i;
+const DESCRIPTION_ITEM_PATTERN = /^(\S.*?)(:{2,4}|;;)(?:\s+(.*))?$/;
+// 説明の中の「同義語: A、B」を非推奨の表記として扱う
+const SYNONYM_PATTERN = /(?:同義語|別名|類義語)\s*[:：]\s*([^。）)]+)/;
+// 2文字以上の大文字を含む略語（API、HTTP2 など）
+const ACRONYM_PATTERN = /(?<![\w])(?=[A-Z0-9]*[A-Z][A-Z0-9]*[A-Z])[A-Z][A-Z0-9]+(?![\w])/g;
+const INDEX_TERM_PATTERN = /(?<!\()\(\(([^()]+)\)\)(?!\))/g;
+
+// 用語のインライン書式（*API* や [[api]] など）を取り除く
+function normalizeTerm(term: string): string {
+    return term.replace(/\[\[[^\]]*\]\]|\[#[^\]]*\]/g, '').replace(/^[*_`#]+|[*_`#]+$/g, '').trim();
+}
+
+// 用語集のファイル全体、または「用語集」の見出しのセクションから項目を取得する
+export function parseGlossary(text: string, wholeFile: boolean): Glossary | undefined {
+    const lines = text.split(/\r?\n/);
+    let startLine = 0;
+    let endLine = lines.length;
+
+    if (!wholeFile) {
+        const headingLine = lines.findIndex((line, index) =>
+            GLOSSARY_HEADING_PATTERN.test(line) || (/^\[glossary\]$/.test(lines[index - 1]?.trim() ?? '') && /^=+\s/.test(line))
+        );
+        if (headingLine < 0) {
+            return undefined;
+        }
+        const level = /^=+/.exec(lines[headingLine])![0].length;
+        startLine = headingLine + 1;
+        const next = lines.findIndex((line, index) => {
+            const heading = /^(=+)\s/.exec(line);
+            return index > headingLine && !!heading && heading[1].length <= level;
+        });
+        endLine = next < 0 ? lines.length : next;
+    } else if (/^=+\s/.test(lines[0] ?? '')) {
+        startLine = 1;
+    }
+
+    const entries: GlossaryEntry[] = [];
+    let current: GlossaryEntry | undefined;
+    scanDocumentLines(text, (_line, trimmed, index) => {
+        if (index < startLine || index >= endLine) {
+            return;
+        }
+        if (trimmed === '' || /^=+\s/.test(trimmed) || /^\[.*\]$/.test(trimmed) || /^:[\w-]+!?:/.test(trimmed)) {
+            current = undefined;
+            return;
+        }
+
+        const item = DESCRIPTION_ITEM_PATTERN.exec(trimmed);
+        if (item) {
+            current = { term: normalizeTerm(item[1]), definition: item[3] ?? '', synonyms: [], line: index };
+            entries.push(current);
+        } else if (current) {
+            // 次の行に書かれた説明
+            current.definition = current.definition ? `${current.definition} ${trimmed}` : trimmed;
+        }
+    });
+
+    for (const entry of entries) {
+        const synonyms = SYNONYM_PATTERN.exec(entry.definition)?.[1];
+        entry.synonyms = synonyms
+            ? synonyms.split(/[、,，/]/).map(synonym => synonym.trim()).filter(synonym => synonym && synonym !== entry.term)
+            : [];
+    }
+
+    return { startLine, endLine, entries: entries.filter(entry => entry.term) };
+}
+
+// 用語集のファイルは「用語集」の見出しがあればそのセクション、なければファイル全体を用語集とする
+export function parseGlossaryFile(text: string): Glossary {
+    return parseGlossary(text, false) ?? parseGlossary(text, true)!;
+}
+
+// 英数字やカタカナの途中で一致したもの（「サーバー」の中の「サーバ」など）は除く
+function isTermBoundary(text: string, index: number, term: string): boolean {
+    const joined = (pattern: RegExp, first: string | undefined, second: string | undefined) =>
+        first !== undefined && second !== undefined && pattern.test(first) && pattern.test(second);
+    const before = text[index - 1];
+    const after = text[index + term.length];
+    return !joined(/\w/, before, term[0]) && !joined(/\w/, term[term.length - 1], after)
+        && !joined(/[ァ-ヺー]/, before, term[0]) && !joined(/[ァ-ヺー]/, term[term.length - 1], after);
+}
+
+// 本文（コード・属性・マクロを除く）での用語の出現位置（長い用語を優先し、重なる一致は除く）
+export function findTermOccurrences(text: string, terms: string[], exclude?: { startLine: number; endLine: number }): TermOccurrence[] {
+    const occurrences: TermOccurrence[] = [];
+    const sortedTerms = [...new Set(terms)].filter(Boolean).sort((a, b) => b.length - a.length);
+
+    for (const block of extractProse(text)) {
+        for (const segment of block.segments) {
+            if (exclude && segment.line >= exclude.startLine && segment.line < exclude.endLine) {
+                continue;
+            }
+            const covered: [number, number][] = [];
+            for (const term of sortedTerms) {
+                for (let index = segment.text.indexOf(term); index >= 0; index = segment.text.indexOf(term, index + 1)) {
+                    const end = index + term.length;
+                    if (!isTermBoundary(segment.text, index, term) || covered.some(([from, to]) => index < to && end > from)) {
+                        continue;
+                    }
+                    covered.push([index, end]);
+                    occurrences.push({ term, line: segment.line, character: segment.character + index });
+                }
+            }
+        }
+    }
+
+    return occurrences.sort((a, b) => a.line - b.line || a.character - b.character);
+}
+
+// 同義語の使用と、用語集にない略語・索引語の使用を検出する（用語集のファイルでは用語集の範囲を除く）
+export function checkGlossaryTerms(
+    text: string,
+    glossary: Glossary,
+    ownRange: { startLine: number; endLine: number } | undefined,
+    ignoredTerms: string[]
+): LintProblem[] {
+    const problems: LintProblem[] = [];
+    const preferred = new Map<string, string>();
+    glossary.entries.forEach(entry => entry.synonyms.forEach(synonym => preferred.set(synonym, entry.term)));
+
+    for (const occurrence of findTermOccurrences(text, [...preferred.keys()], ownRange)) {
+        const term = preferred.get(occurrence.term)!;
+        const end = occurrence.character + occurrence.term.length;
+        problems.push({
+            rule: 'glossary-synonym',
+            message: `「${occurrence.term}」は用語集では「${term}」と表記します。`,
+            line: occurrence.line,
+            character: occurrence.character,
+            endCharacter: end,
+            fix: {
+                title: `「${term}」に変更`,
+                edits: [{ line: occurrence.line, character: occurrence.character, endLine: occurrence.line, endCharacter: end, newText: term }]
+            }
+        });
+    }
+
+    // 未定義の用語は文書内の最初の使用箇所だけを報告する
+    const defined = new Set([...glossary.entries.map(entry => entry.term), ...preferred.keys(), ...ignoredTerms]);
+    const reported = new Set<string>();
+    for (const block of extractProse(text)) {
+        for (const segment of block.segments) {
+            if (ownRange && segment.line >= ownRange.startLine && segment.line < ownRange.endLine) {
+                continue;
+            }
+            const candidates = [
+                ...[...segment.text.matchAll(ACRONYM_PATTERN)].map(match => ({ term: match[0], index: match.index!, length: match[0].length })),
+                ...[...segment.text.matchAll(INDEX_TERM_PATTERN)].map(match => ({ term: match[1].trim(), index: match.index!, length: match[0].length }))
+            ];
+            for (const candidate of candidates) {
+                if (defined.has(candidate.term) || reported.has(candidate.term)) {
+                    continue;
+                }
+                reported.add(candidate.term);
+                const character = segment.character + candidate.index;
+                problems.push({
+                    rule: 'undefined-term',
+                    message: `用語「${candidate.term}」が用語集に定義されていません。`,
+                    line: segment.line,
+                    character,
+                    endCharacter: character + candidate.length,
+                    fix: {
+                        title: `「${candidate.term}」を用語集に追加`,
+                        edits: [],
+                        command: { id: 'asciidocSuite.addToGlossary', arguments: [candidate.term] }
+                    }
+                });
+            }
+        }
+    }
+
+    return problems;
+}
+
+// プロジェクト内のどの文書でも使われていない用語（usedTerms は用語集の範囲外で見つかった用語と同義語）
+export function checkUnusedTerms(glossary: Glossary, usedTerms: Set<string>, lines: string[]): LintProblem[] {
+    return glossary.entries
+        .filter(entry => !usedTerms.has(entry.term) && !entry.synonyms.some(synonym => usedTerms.has(synonym)))
+        .map(entry => {
+            const character = Math.max(0, lines[entry.line]?.indexOf(entry.term) ?? 0);
+            return {
+                rule: 'unused-term' as const,
+                message: `用語「${entry.term}」はプロジェクトのどの文書でも使われていません。`,
+                line: entry.line,
+                character,
+                endCharacter: character + entry.term.length
+            };
+        });
+}
+
+// 用語を並び順の位置に追加する挿入内容（項目の間の空行の有無は既存の項目に合わせる）
+export function createGlossaryInsertion(text: string, glossary: Glossary, term: string, definition: string): LintEdit {
+    const lines = text.split(/\r?\n/);
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const entryText = `${term}:: ${definition}`.trimEnd();
+    const { entries } = glossary;
+    const separated = entries.length < 2 || entries.some((entry, index) => index > 0 && lines[entry.line - 1]?.trim() === '');
+    const blank = separated ? eol : '';
+
+    const next = entries.find(entry => entry.term.localeCompare(term, 'ja') > 0);
+    if (next) {
+        return { line: next.line, character: 0, newText: `${entryText}${eol}${blank}` };
+    }
+
+    // 最後の項目（説明の続きの行を含む）の後、項目がなければ用語集の先頭
+    let last = entries.length > 0 ? entries[entries.length - 1].line : glossary.startLine - 1;
+    if (entries.length > 0) {
+        while (last + 1 < glossary.endLine && lines[last + 1].trim() !== '' && !/^=+\s/.test(lines[last + 1])) {
+            last++;
+        }
+    }
+    if (last + 1 >= lines.length) {
+        return { line: lines.length - 1, character: lines[lines.length - 1].length, newText: `${eol}${blank}${entryText}${eol}` };
+    }
+    return entries.length > 0
+        ? { line: last + 1, character: 0, newText: `${blank}${entryText}${eol}` }
+        : { line: last + 1, character: 0, newText: `${eol}${entryText}${eol}` };
+}
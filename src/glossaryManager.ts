@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ASCIIDOC_SELECTOR } from './languageFeatures';
+import { Glossary, GlossaryEntry, createGlossaryInsertion, findTermOccurrences, parseGlossaryFile, parseGlossary } from './glossary';
+import { getResourceConfiguration, resolveProjectContext } from './projectContext';
+
+const GLOSSARY_FILE_PATTERN = '**/*{glossary,用語集}*.{adoc,asciidoc}';
+const DOCUMENT_PATTERN = '**/*.{adoc,asciidoc}';
+const DECORATION_DELAY = 300;
+
+// プロジェクトの用語集（filePath は用語集を含むファイル）
+export interface ProjectGlossary {
+    projectRoot: string;
+    filePath: string;
+    glossary: Glossary;
+}
+
+// 用語集の検索・用語のハイライトとホバー表示・用語の追加
+export class GlossaryManager implements vscode.HoverProvider {
+    private glossaries = new Map<string, Promise<ProjectGlossary | undefined>>();
+    private glossaryFiles = new Set<string>();
+    private decorationType: vscode.TextEditorDecorationType;
+    private decorationTimer?: NodeJS.Timeout;
+    private outputChannel: vscode.OutputChannel;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.onDidChangeEmitter.event;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            textDecoration: 'underline dotted'
+        });
+
+        this.outputChannel = vscode.window.createOutputChannel('Asciidoc Glossary');
+
+        const watcher = vscode.workspace.createFileSystemWatcher(DOCUMENT_PATTERN);
+        this.disposables.push(
+            this.decorationType,
+            this.outputChannel,
+            this.onDidChangeEmitter,
+            watcher,
+            watcher.onDidCreate(() => this.invalidate()),
+            watcher.onDidDelete(() => this.invalidate()),
+            watcher.onDidChange(() => this.invalidate()),
+            // 用語の使用状況は保存時に更新する
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (this.isAsciidoc(document)) {
+                    this.invalidate();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.glossaryFiles.has(path.resolve(event.document.fileName))) {
+                    this.invalidate();
+                } else if (vscode.window.visibleTextEditors.some(editor => editor.document === event.document)) {
+                    this.scheduleDecorations();
+                }
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.scheduleDecorations()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('asciidocSuite.glossary')) {
+                    this.invalidate();
+                }
+            }),
+            vscode.languages.registerHoverProvider(ASCIIDOC_SELECTOR, this)
+        );
+
+        this.scheduleDecorations();
+    }
+
+    private isAsciidoc(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && /\.(adoc|asciidoc)$/i.test(document.fileName);
+    }
+
+    private invalidate(): void {
+        this.glossaries.clear();
+        this.onDidChangeEmitter.fire();
+        this.scheduleDecorations();
+    }
+
+    // ドキュメントの属するプロジェクトの用語集（プロジェクトルートごとにキャッシュする）
+    async getGlossary(filePath: string): Promise<ProjectGlossary | undefined> {
+        const { projectRoot } = await resolveProjectContext(filePath);
+        let glossary = this.glossaries.get(projectRoot);
+        if (!glossary) {
+            glossary = this.loadGlossary(projectRoot, filePath).catch(error => {
+                this.outputChannel.appendLine(`用語集の読み込みに失敗しました（${vscode.workspace.asRelativePath(projectRoot)}）: ${error}`);
+                return undefined;
+            });
+            this.glossaries.set(projectRoot, glossary);
+        }
+        const result = await glossary;
+        if (result) {
+            this.glossaryFiles.add(path.resolve(result.filePath));
+        }
+        return result;
+    }
+
+    // 設定で指定したファイル、名前に glossary / 用語集 を含むファイル、「用語集」の見出しを含む文書の順に探す
+    private async loadGlossary(projectRoot: string, filePath: string): Promise<ProjectGlossary | undefined> {
+        const setting = getResourceConfiguration(filePath).get<string>('glossary.file', '');
+        const candidates = setting
+            ? [path.resolve(projectRoot, setting)]
+            : (await vscode.workspace.findFiles(new vscode.RelativePattern(projectRoot, GLOSSARY_FILE_PATTERN), '**/node_modules/**'))
+                .map(file => file.fsPath)
+                .sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+        for (const candidate of candidates) {
+            const text = await this.readText(candidate);
+            if (text !== undefined) {
+                return { projectRoot, filePath: candidate, glossary: parseGlossaryFile(text) };
+            }
+        }
+        if (setting) {
+            return undefined;
+        }
+
+        for (const document of await this.findProjectDocuments(projectRoot)) {
+            const glossary = parseGlossary(await this.readText(document) ?? '', false);
+            if (glossary) {
+                return { projectRoot, filePath: document, glossary };
+            }
+        }
+        return undefined;
+    }
+
+    private async findProjectDocuments(projectRoot: string): Promise<string[]> {
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(projectRoot, DOCUMENT_PATTERN), '**/node_modules/**');
+        return files.map(file => file.fsPath).sort();
+    }
+
+    // プロジェクト内の文書（用語集の範囲を除く）で使われている用語と同義語
+    async collectUsedTerms(project: ProjectGlossary): Promise<Set<string>> {
+        const terms = project.glossary.entries.flatMap(entry => [entry.term, ...entry.synonyms]);
+        const used = new Set<string>();
+        for (const file of await this.findProjectDocuments(project.projectRoot)) {
+            const text = await this.readText(file);
+            if (text === undefined) {
+                continue;
+            }
+            const exclude = path.resolve(file) === path.resolve(project.filePath) ? project.glossary : undefined;
+            findTermOccurrences(text, terms, exclude).forEach(occurrence => used.add(occurrence.term));
+        }
+        return used;
+    }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const project = await this.getGlossary(document.fileName);
+        if (!project) {
+            return undefined;
+        }
+
+        const entries = new Map<string, GlossaryEntry>();
+        project.glossary.entries.forEach(entry => {
+            entries.set(entry.term, entry);
+            entry.synonyms.forEach(synonym => entries.set(synonym, entry));
+        });
+
+        const occurrence = findTermOccurrences(document.getText(), [...entries.keys()])
+            .find(item => item.line === position.line && item.character <= position.character && position.character <= item.character + item.term.length);
+        if (!occurrence) {
+            return undefined;
+        }
+
+        const entry = entries.get(occurrence.term)!;
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown('**');
+        markdown.appendText(entry.term);
+        markdown.appendMarkdown('**\n\n');
+        markdown.appendText(entry.definition);
+        if (occurrence.term !== entry.term) {
+            markdown.appendMarkdown('\n\n');
+            markdown.appendText(`「${occurrence.term}」は「${entry.term}」の同義語です。`);
+        }
+        markdown.appendMarkdown('\n\n');
+        markdown.appendText(`用語集: ${vscode.workspace.asRelativePath(project.filePath)}:${entry.line + 1}`);
+
+        return new vscode.Hover(markdown, new vscode.Range(
+            occurrence.line, occurrence.character, occurrence.line, occurrence.character + occurrence.term.length
+        ));
+    }
+
+    private scheduleDecorations(): void {
+        if (this.decorationTimer) {
+            clearTimeout(this.decorationTimer);
+        }
+        this.decorationTimer = setTimeout(() => {
+            this.decorationTimer = undefined;
+            this.updateDecorations().catch(error => {
+                this.outputChannel.appendLine(`用語のハイライトに失敗しました: ${error}`);
+            });
+        }, DECORATION_DELAY);
+    }
+
+    // 表示中のエディタで用語集の用語に下線を付ける
+    private async updateDecorations(): Promise<void> {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const document = editor.document;
+            if (!this.isAsciidoc(document)) {
+                continue;
+            }
+
+            const enabled = getResourceConfiguration(document.fileName).get<boolean>('glossary.highlight', true);
+            const project = enabled ? await this.getGlossary(document.fileName) : undefined;
+            if (!project) {
+                editor.setDecorations(this.decorationType, []);
+                continue;
+            }
+
+            const exclude = path.resolve(project.filePath) === path.resolve(document.fileName) ? project.glossary : undefined;
+            const ranges = findTermOccurrences(document.getText(), project.glossary.entries.map(entry => entry.term), exclude)
+                .map(occurrence => new vscode.Range(
+                    occurrence.line, occurrence.character, occurrence.line, occurrence.character + occurrence.term.length
+                ));
+            editor.setDecorations(this.decorationType, ranges);
+        }
+    }
+
+    // 選択した語（または引数の語）を用語集の並び順の位置に追加する
+    async addToGlossary(term?: string): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            vscode.window.showErrorMessage('用語集に追加するには、プロジェクトのAsciiDocドキュメントを開いてください。');
+            return;
+        }
+
+        const selected = editor.document.getText(editor.selection).trim();
+        const initial = term ?? (selected && !selected.includes('\n') ? selected : undefined);
+        const value = initial ?? (await vscode.window.showInputBox({
+            prompt: '用語集に追加する用語を入力してください'
+        }))?.trim();
+        if (!value) {
+            return;
+        }
+
+        const project = await this.getGlossary(editor.document.fileName);
+        if (!project) {
+            const selection = await vscode.window.showWarningMessage(
+                '用語集が見つかりません。「用語集」の見出しを持つドキュメントを作成するか、設定で用語集のファイルを指定してください。',
+                '設定を開く'
+            );
+            if (selection === '設定を開く') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'asciidocSuite.glossary.file');
+            }
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(project.filePath);
+        // キャッシュではなく現在の内容で挿入位置を決める
+        const glossary = parseGlossaryFile(document.getText());
+        const existing = glossary.entries.find(entry => entry.term === value);
+        if (existing) {
+            vscode.window.showInformationMessage(`「${value}」は用語集に登録されています。`);
+            await this.revealLine(document, existing.line);
+            return;
+        }
+
+        const definition = await vscode.window.showInputBox({
+            prompt: `「${value}」の説明を入力してください`,
+            validateInput: input => input.trim() ? undefined : '説明を入力してください'
+        });
+        if (definition === undefined) {
+            return;
+        }
+
+        const insertion = createGlossaryInsertion(document.getText(), glossary, value, definition.trim());
+        const wasDirty = document.isDirty;
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, new vscode.Position(insertion.line, insertion.character), insertion.newText);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('用語集を更新できませんでした。');
+            return;
+        }
+        if (!wasDirty) {
+            await document.save();
+        }
+
+        const leadingLines = insertion.newText.slice(0, insertion.newText.indexOf(value)).split('\n').length - 1;
+        await this.revealLine(document, insertion.line + leadingLines);
+        vscode.window.showInformationMessage(`「${value}」を用語集に追加しました。`);
+    }
+
+    private async revealLine(document: vscode.TextDocument, line: number): Promise<void> {
+        const editor = await vscode.window.showTextDocument(document, { preview: false });
+        const range = document.lineAt(Math.min(line, document.lineCount - 1)).range;
+        editor.selection = new vscode.Selection(range.start, range.end);
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    // 開いているドキュメントは未保存の内容を優先する
+    private async readText(filePath: string): Promise<string | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(document => path.resolve(document.fileName) === path.resolve(filePath));
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        try {
+            return await fs.readFile(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        if (this.decorationTimer) {
+            clearTimeout(this.decorationTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,205 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export type ReferenceKind = 'include' | 'image' | 'diagram' | 'theme';
+
+// ドキュメント内の外部ファイル参照
+export interface DocumentReference {
+    kind: ReferenceKind;
+    target: string;
+    path: string;
+    line: number;
+}
+
+// 参照解決の文脈（画像パスはエントリドキュメント基準で解決される）
+export interface ReferenceContext {
+    baseDir: string;
+    attributes: Map<string, string>;
+}
+
+// :name: value と、属性を解除する :name!: / :!name: の形式
+const ATTRIBUTE_PATTERN = /^:(!?)([\w-]+)(!?):\s*(.*)$/;
+const INCLUDE_PATTERN = /^include::([^\[]+)\[.*\]\s*$/;
+const BLOCK_IMAGE_PATTERN = /^image::([^\[]+)\[/;
+const INLINE_IMAGE_PATTERN = /(?:^|[^\w:])image:(?!:)([^\s\[]+)\[/g;
+const DIAGRAM_MACRO_PATTERN = /^(?:plantuml|ditaa|graphviz|mermaid)::([^\[]+)\[/;
+
+export function createReferenceContext(entryFile: string): ReferenceContext {
+    return {
+        baseDir: path.dirname(entryFile),
+        attributes: new Map()
+    };
+}
+
+// {name} 形式の属性参照を既知の属性値で置き換える
+export function substituteAttributes(text: string, attributes: Map<string, string>): string {
+    return text.replace(/\{([\w-]+)\}/g, (match, name: string) => attributes.get(name) ?? match);
+}
+
+function isUri(target: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(target) || target.startsWith('data:');
+}
+
+// コメントブロックとリテラル系ブロックの内側を除いた行を順に処理する
+// includeDirectives を指定すると、リテラル系ブロック内の include:: の行も処理する（Asciidoctor はブロックの内容より先にインクルードを展開する）
+export function scanDocumentLines(
+    text: string,
+    visitor: (line: string, trimmed: string, index: number) => void,
+    options: { includeDirectives?: boolean } = {}
+): void {
+    const lines = text.split(/\r?\n/);
+    let inCommentBlock = false;
+    let inLiteralBlock: string | undefined;
+
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+
+        if (trimmed === '////') {
+            inCommentBlock = !inCommentBlock;
+            return;
+        }
+        if (inCommentBlock || trimmed.startsWith('//')) {
+            return;
+        }
+        if (/^(-{4,}|\.{4,})$/.test(trimmed)) {
+            inLiteralBlock = inLiteralBlock === trimmed ? undefined : inLiteralBlock ?? trimmed;
+            return;
+        }
+        if (inLiteralBlock) {
+            if (options.includeDirectives && INCLUDE_PATTERN.test(trimmed)) {
+                visitor(line, trimmed, index);
+            }
+            return;
+        }
+
+        visitor(line, trimmed, index);
+    });
+}
+
+// 1ファイル分の参照を解析する（属性定義は context に蓄積される）
+export function parseDocumentReferences(filePath: string, text: string, context: ReferenceContext): DocumentReference[] {
+    const references: DocumentReference[] = [];
+    const fileDir = path.dirname(filePath);
+
+    const resolveImage = (target: string) => {
+        const imagesDir = context.attributes.get('imagesdir') ?? '';
+        return path.resolve(context.baseDir, imagesDir, target);
+    };
+
+    scanDocumentLines(text, (line, trimmed, index) => {
+        const attribute = ATTRIBUTE_PATTERN.exec(trimmed);
+        if (attribute) {
+            const [, unsetBefore, name, unsetAfter, value] = attribute;
+            const unset = unsetBefore || unsetAfter;
+            if (unset) {
+                context.attributes.delete(name);
+            } else {
+                context.attributes.set(name, substituteAttributes(value, context.attributes));
+            }
+            if (name === 'pdf-theme' && value && !unset) {
+                const target = substituteAttributes(value, context.attributes);
+                references.push({ kind: 'theme', target, path: path.resolve(context.baseDir, target), line: index });
+            }
+            return;
+        }
+
+        const include = INCLUDE_PATTERN.exec(trimmed);
+        if (include) {
+            const target = substituteAttributes(include[1], context.attributes);
+            if (!isUri(target)) {
+                references.push({ kind: 'include', target, path: path.resolve(fileDir, target), line: index });
+            }
+            return;
+        }
+
+        const diagram = DIAGRAM_MACRO_PATTERN.exec(trimmed);
+        if (diagram) {
+            const target = substituteAttributes(diagram[1], context.attributes);
+            references.push({ kind: 'diagram', target, path: path.resolve(fileDir, target), line: index });
+            return;
+        }
+
+        const blockImage = BLOCK_IMAGE_PATTERN.exec(trimmed);
+        if (blockImage) {
+            const target = substituteAttributes(blockImage[1], context.attributes);
+            if (!isUri(target)) {
+                references.push({ kind: 'image', target, path: resolveImage(target), line: index });
+            }
+            return;
+        }
+
+        INLINE_IMAGE_PATTERN.lastIndex = 0;
+        let inlineImage: RegExpExecArray | null;
+        while ((inlineImage = INLINE_IMAGE_PATTERN.exec(line)) !== null) {
+            const target = substituteAttributes(inlineImage[1], context.attributes);
+            if (!isUri(target)) {
+                references.push({ kind: 'image', target, path: resolveImage(target), line: index });
+            }
+        }
+    }, { includeDirectives: true });
+
+    return references;
+}
+
+// エントリドキュメントからインクルードをたどり、依存するすべてのファイルを収集する
+export async function collectDependencies(entryFile: string): Promise<Set<string>> {
+    const dependencies = new Set<string>([path.resolve(entryFile)]);
+    const context = createReferenceContext(entryFile);
+
+    const visit = async (filePath: string) => {
+        let text: string;
+        try {
+            text = await fs.readFile(filePath, 'utf8');
+        } catch {
+            return;
+        }
+
+        for (const reference of parseDocumentReferences(filePath, text, context)) {
+            if (dependencies.has(reference.path)) {
+                continue;
+            }
+            dependencies.add(reference.path);
+
+            if (reference.kind === 'include' && reference.path.endsWith('.adoc')) {
+                await visit(reference.path);
+            }
+        }
+    };
+
+    await visit(path.resolve(entryFile));
+    return dependencies;
+}
+
+// エントリドキュメントからインクルードをたどり、ファイルごとの参照を収集する
+// readText を渡すと未保存のエディタ内容などを使用できる
+export async function collectReferences(
+    entryFile: string,
+    readText: (filePath: string) => Promise<string | undefined> = async filePath => fs.readFile(filePath, 'utf8')
+): Promise<Map<string, DocumentReference[]>> {
+    const result = new Map<string, DocumentReference[]>();
+    const context = createReferenceContext(entryFile);
+
+    const visit = async (filePath: string) => {
+        let text: string | undefined;
+        try {
+            text = await readText(filePath);
+        } catch {
+            text = undefined;
+        }
+        if (text === undefined) {
+            return;
+        }
+
+        const references = parseDocumentReferences(filePath, text, context);
+        result.set(filePath, references);
+
+        for (const reference of references) {
+            if (reference.kind === 'include' && reference.path.endsWith('.adoc') && !result.has(reference.path)) {
+                await visit(reference.path);
+            }
+        }
+    };
+
+    await visit(path.resolve(entryFile));
+    return result;
+}
@@ -0,0 +1,344 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { collectDependencies, createReferenceContext, parseDocumentReferences } from './includeGraph';
+import { DocumentAnchor, DocumentXref, parseAnchors, parseXrefs } from './documentStructure';
+import { EntryDocument, collectEntryDocuments, findEntriesContaining } from './projectManifest';
+
+export const ASCIIDOC_SELECTOR: vscode.DocumentSelector = [
+    { language: 'asciidoc' },
+    { scheme: 'file', pattern: '**/*.{adoc,asciidoc}' }
+];
+
+const ANCHOR_ID_PATTERN = /^[A-Za-z_:][\w:.-]*$/;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp'];
+const INDEX_WATCH_PATTERN = '**/*.{adoc,asciidoc,yml,yaml}';
+
+interface FileAnchor extends DocumentAnchor {
+    filePath: string;
+}
+
+// 相互参照・アンカー・インクルードパスの補完、定義へ移動、参照の検索、アンカー名の変更
+export class AsciidocLanguageFeatures implements
+    vscode.CompletionItemProvider,
+    vscode.DefinitionProvider,
+    vscode.ReferenceProvider,
+    vscode.RenameProvider {
+
+    private entries?: Promise<EntryDocument[]>;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        // インクルード構成が変わった場合に備えて、エントリ一覧のキャッシュを破棄する
+        const watcher = vscode.workspace.createFileSystemWatcher(INDEX_WATCH_PATTERN);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.invalidate()),
+            watcher.onDidDelete(() => this.invalidate()),
+            watcher.onDidChange(() => this.invalidate()),
+            vscode.languages.registerCompletionItemProvider(ASCIIDOC_SELECTOR, this, '<', ':', '/', '#', ','),
+            vscode.languages.registerDefinitionProvider(ASCIIDOC_SELECTOR, this),
+            vscode.languages.registerReferenceProvider(ASCIIDOC_SELECTOR, this),
+            vscode.languages.registerRenameProvider(ASCIIDOC_SELECTOR, this)
+        );
+    }
+
+    private invalidate(): void {
+        this.entries = undefined;
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const prefix = document.lineAt(position.line).text.slice(0, position.character);
+
+        const xref = /<<([^>,\s]*)$/.exec(prefix) ?? /xref:(?:[^\[\s#]*#)?([^\[\s#]*)$/.exec(prefix);
+        if (xref) {
+            const range = new vscode.Range(position.line, position.character - xref[1].length, position.line, position.character);
+            return this.completeAnchors(document, range);
+        }
+
+        const include = /^include::([^\[]*)$/.exec(prefix);
+        if (include) {
+            return this.completePaths(path.dirname(document.fileName), include[1], position);
+        }
+
+        const image = /image::?([^\[\s]*)$/.exec(prefix);
+        if (image) {
+            const imagesDir = await this.resolveImagesDir(document.fileName);
+            return this.completePaths(imagesDir, image[1], position, IMAGE_EXTENSIONS);
+        }
+
+        return undefined;
+    }
+
+    private async completeAnchors(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const anchors = await this.collectAnchors(document.fileName);
+        const seen = new Set<string>();
+
+        return anchors.filter(anchor => !seen.has(anchor.id) && seen.add(anchor.id)).map(anchor => {
+            const item = new vscode.CompletionItem(anchor.id, anchor.explicit
+                ? vscode.CompletionItemKind.Reference
+                : vscode.CompletionItemKind.Module);
+            item.range = range;
+            item.detail = anchor.title;
+            item.documentation = `${vscode.workspace.asRelativePath(anchor.filePath)}:${anchor.line + 1}`;
+            return item;
+        });
+    }
+
+    // 入力途中のパスのディレクトリ部分を baseDir 基準で解決し、その中のファイルを候補にする
+    private async completePaths(
+        baseDir: string,
+        partial: string,
+        position: vscode.Position,
+        extensions?: string[]
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const slashIndex = partial.lastIndexOf('/');
+        const directoryPart = slashIndex >= 0 ? partial.slice(0, slashIndex + 1) : '';
+        const namePart = partial.slice(directoryPart.length);
+        const directory = path.resolve(baseDir, directoryPart);
+
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.readdir(directory, { withFileTypes: true });
+        } catch {
+            return undefined;
+        }
+
+        const range = new vscode.Range(position.line, position.character - namePart.length, position.line, position.character);
+        const items: vscode.CompletionItem[] = [];
+        for (const entry of entries) {
+            if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+                continue;
+            }
+
+            if (entry.isDirectory()) {
+                const item = new vscode.CompletionItem(`${entry.name}/`, vscode.CompletionItemKind.Folder);
+                item.range = range;
+                item.command = { command: 'editor.action.triggerSuggest', title: '再補完' };
+                items.push(item);
+            } else if (!extensions || extensions.includes(path.extname(entry.name).toLowerCase())) {
+                const item = new vscode.CompletionItem(entry.name, vscode.CompletionItemKind.File);
+                item.range = range;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Location | vscode.Location[] | undefined> {
+        const line = document.lineAt(position.line).text;
+
+        // インクルード・画像のパスからファイルへ移動
+        const references = parseDocumentReferences(
+            document.fileName,
+            line,
+            createReferenceContext(document.fileName)
+        );
+        const include = references.find(reference => reference.kind === 'include');
+        if (include && await fs.pathExists(include.path)) {
+            return new vscode.Location(vscode.Uri.file(include.path), new vscode.Position(0, 0));
+        }
+
+        const xref = this.findXrefAt(document, position);
+        if (!xref) {
+            return undefined;
+        }
+
+        const anchors = (await this.collectAnchors(document.fileName)).filter(anchor => anchor.id === xref.id);
+        return anchors.map(anchor => this.toLocation(anchor, anchor.id.length));
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | undefined> {
+        const id = this.findIdAt(document, position);
+        if (!id) {
+            return undefined;
+        }
+
+        const files = await this.getScopeFiles(document.fileName);
+        const locations: vscode.Location[] = [];
+        for (const filePath of files) {
+            const text = await this.readText(filePath);
+            if (text === undefined) {
+                continue;
+            }
+
+            if (context.includeDeclaration) {
+                for (const anchor of parseAnchors(text).filter(anchor => anchor.id === id)) {
+                    locations.push(this.toLocation({ ...anchor, filePath }, id.length));
+                }
+            }
+            for (const xref of parseXrefs(text).filter(xref => xref.id === id)) {
+                locations.push(this.toLocation({ ...xref, filePath }, id.length));
+            }
+        }
+        return locations;
+    }
+
+    async prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Range | { range: vscode.Range; placeholder: string }> {
+        const target = this.findIdRangeAt(document, position);
+        if (!target) {
+            throw new Error('アンカーまたは相互参照の位置で実行してください。');
+        }
+
+        const anchors = (await this.collectAnchors(document.fileName)).filter(anchor => anchor.id === target.id);
+        if (anchors.length > 0 && anchors.every(anchor => !anchor.explicit)) {
+            throw new Error('見出しの自動生成IDは変更できません。見出しの前に [[id]] で明示的なアンカーを付けてください。');
+        }
+        return { range: target.range, placeholder: target.id };
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        if (!ANCHOR_ID_PATTERN.test(newName)) {
+            throw new Error(`アンカー名として使用できない文字が含まれています: ${newName}`);
+        }
+
+        const id = this.findIdAt(document, position);
+        if (!id) {
+            return undefined;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const filePath of await this.getScopeFiles(document.fileName)) {
+            const text = await this.readText(filePath);
+            if (text === undefined) {
+                continue;
+            }
+
+            const uri = vscode.Uri.file(filePath);
+            const targets = [
+                ...parseAnchors(text).filter(anchor => anchor.explicit && anchor.id === id),
+                ...parseXrefs(text).filter(xref => xref.id === id)
+            ];
+            for (const target of targets) {
+                edit.replace(uri, new vscode.Range(target.line, target.character, target.line, target.character + id.length), newName);
+            }
+        }
+        return edit;
+    }
+
+    // カーソル位置のアンカー定義または相互参照のIDと範囲
+    private findIdRangeAt(document: vscode.TextDocument, position: vscode.Position): { id: string; range: vscode.Range } | undefined {
+        const lineText = document.lineAt(position.line).text;
+        const candidates = [...parseAnchors(lineText).filter(anchor => anchor.explicit), ...parseXrefs(lineText)];
+        const found = candidates.find(candidate =>
+            position.character >= candidate.character && position.character <= candidate.character + candidate.id.length
+        );
+        if (found) {
+            return {
+                id: found.id,
+                range: new vscode.Range(position.line, found.character, position.line, found.character + found.id.length)
+            };
+        }
+
+        // 見出し行では自動生成IDを対象とする
+        const sectionAnchor = parseAnchors(this.getTextUntil(document, position.line))
+            .find(anchor => anchor.line === position.line && !anchor.explicit);
+        if (sectionAnchor) {
+            return { id: sectionAnchor.id, range: document.lineAt(position.line).range };
+        }
+        return undefined;
+    }
+
+    private findIdAt(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+        return this.findIdRangeAt(document, position)?.id;
+    }
+
+    private findXrefAt(document: vscode.TextDocument, position: vscode.Position): DocumentXref | undefined {
+        return parseXrefs(document.lineAt(position.line).text).find(xref =>
+            position.character >= xref.character - 2 && position.character <= xref.character + xref.id.length + 2
+        );
+    }
+
+    // 見出しIDの規則（:idprefix: など）を反映するため、先頭から指定行までを解析対象とする
+    private getTextUntil(document: vscode.TextDocument, line: number): string {
+        return document.getText(new vscode.Range(0, 0, line, document.lineAt(line).text.length));
+    }
+
+    private toLocation(target: { filePath: string; line: number; character: number }, length: number): vscode.Location {
+        return new vscode.Location(
+            vscode.Uri.file(target.filePath),
+            new vscode.Range(target.line, target.character, target.line, target.character + length)
+        );
+    }
+
+    private async collectAnchors(filePath: string): Promise<FileAnchor[]> {
+        const anchors: FileAnchor[] = [];
+        for (const scopeFile of await this.getScopeFiles(filePath)) {
+            const text = await this.readText(scopeFile);
+            if (text !== undefined) {
+                anchors.push(...parseAnchors(text).map(anchor => ({ ...anchor, filePath: scopeFile })));
+            }
+        }
+        return anchors;
+    }
+
+    // ファイルを含むエントリドキュメントのインクルード範囲（含まれない場合は自身とそのインクルード）
+    private async getScopeFiles(filePath: string): Promise<string[]> {
+        const resolved = path.resolve(filePath);
+        if (!this.entries) {
+            this.entries = collectEntryDocuments();
+        }
+
+        const files = new Set<string>();
+        for (const entry of findEntriesContaining(await this.entries, resolved)) {
+            entry.dependencies.forEach(dependency => files.add(dependency));
+        }
+        if (files.size === 0) {
+            (await collectDependencies(resolved)).forEach(dependency => files.add(dependency));
+        }
+        files.add(resolved);
+
+        return [...files].filter(file => /\.(adoc|asciidoc)$/i.test(file));
+    }
+
+    // 画像の基準ディレクトリ（エントリドキュメントのディレクトリ + :imagesdir:）
+    private async resolveImagesDir(filePath: string): Promise<string> {
+        const resolved = path.resolve(filePath);
+        if (!this.entries) {
+            this.entries = collectEntryDocuments();
+        }
+        const entryFile = findEntriesContaining(await this.entries, resolved)[0]?.target.filePath ?? resolved;
+
+        const context = createReferenceContext(entryFile);
+        const text = await this.readText(entryFile) ?? '';
+        parseDocumentReferences(entryFile, text, context);
+        if (entryFile !== resolved) {
+            parseDocumentReferences(resolved, await this.readText(resolved) ?? '', context);
+        }
+        return path.resolve(context.baseDir, context.attributes.get('imagesdir') ?? '');
+    }
+
+    // 開いているドキュメントは未保存の内容を優先する
+    private async readText(filePath: string): Promise<string | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.fileName === filePath);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        try {
+            return await fs.readFile(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,513 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DocumentReference, collectReferences, createReferenceContext, parseDocumentReferences } from './includeGraph';
+import { parseAnchors } from './documentStructure';
+import { ASCIIDOC_SELECTOR } from './languageFeatures';
+import { checkGlossaryTerms, checkUnusedTerms, parseGlossaryFile } from './glossary';
+import { GlossaryManager } from './glossaryManager';
+import {
+    EntryDocument,
+    MANIFEST_FILE_NAME,
+    ProjectManifest,
+    collectEntryDocuments,
+    findEntriesContaining,
+    findManifestForFile,
+    loadProjectManifest
+} from './projectManifest';
+import {
+    DEFAULT_LINT_SEVERITIES,
+    DEFAULT_PLACEHOLDER_PATTERNS,
+    DEFAULT_REQUIRED_ATTRIBUTES,
+    LintFix,
+    LintProblem,
+    LintRuleId,
+    LintSeverity,
+    PlaceholderPattern,
+    checkDelimitedBlocks,
+    checkHeadingLevels,
+    checkPlaceholders,
+    checkRequiredAttributes,
+    checkTables,
+    createTemplateDefaultPatterns
+} from './lintRules';
+import { discoverTemplates } from './projectTemplates';
+import { DEFAULT_MAX_SENTENCE_LENGTH, ProofreadSettings, checkJapaneseStyle, isJapaneseDocument } from './proofreadRules';
+
+const LINT_DELAY = 500;
+const REFRESH_PATTERN = '**/*.{adoc,asciidoc,yml,yaml,png,jpg,jpeg,gif,svg,puml}';
+// エントリ構成・インクルードの構成に影響するファイル
+const STRUCTURE_PATTERN = /\.(adoc|asciidoc)$/i;
+
+interface LintSettings {
+    severities: Record<LintRuleId, LintSeverity>;
+    requiredAttributes: string[];
+    // 置換漏れとして検出する記入欄・サンプルの文章（正規表現）
+    placeholderPatterns: string[];
+    // 文章校正を行わない場合は undefined
+    proofread?: ProofreadSettings;
+}
+
+// asciidoctor を使わずにドキュメントを検査し、問題を診断結果として表示する
+export class LintManager implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private outputChannel: vscode.OutputChannel;
+    // 診断結果は拡張機能ホストとの間で複製されるため、ルール・範囲・メッセージをキーに修正内容を保持する
+    private fixes = new Map<string, Map<string, LintFix>>();
+    private entries?: Promise<EntryDocument[]>;
+    // マニフェスト（パスごと）とエントリドキュメントごとのファイルの参照（保存済みの内容から作成）
+    private manifests = new Map<string, Promise<ProjectManifest | undefined>>();
+    private references = new Map<string, Promise<Map<string, DocumentReference[]>>>();
+    // テンプレート変数の既定値のまま残った行を検出するパターン
+    private templatePatterns?: Promise<PlaceholderPattern[]>;
+    // 出力パネルに記録済みの正しくない正規表現
+    private invalidPatterns = new Set<string>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly extensionPath: string, private readonly glossaryManager: GlossaryManager) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('asciidoc-lint');
+        this.outputChannel = vscode.window.createOutputChannel('Asciidoc Lint');
+
+        const watcher = vscode.workspace.createFileSystemWatcher(REFRESH_PATTERN);
+        const refresh = () => {
+            this.entries = undefined;
+            this.manifests.clear();
+            this.references.clear();
+            this.lintOpenDocuments();
+        };
+
+        this.disposables.push(
+            this.diagnosticCollection,
+            this.outputChannel,
+            watcher,
+            watcher.onDidCreate(refresh),
+            watcher.onDidDelete(refresh),
+            // 保存・外部での変更では、影響するキャッシュだけを破棄する
+            watcher.onDidChange(uri => this.invalidate(uri.fsPath)),
+            // 用語集の変更は用語集を使うすべての文書に影響する
+            glossaryManager.onDidChange(() => this.lintOpenDocuments()),
+            vscode.workspace.onDidOpenTextDocument(document => this.scheduleLint(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleLint(event.document)),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                // マニフェストのリント設定・校正の辞書の変更を反映する
+                if (path.basename(document.fileName) === MANIFEST_FILE_NAME) {
+                    refresh();
+                    return;
+                }
+                this.scheduleLint(document);
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('asciidocSuite.templates')) {
+                    this.templatePatterns = undefined;
+                }
+                if (event.affectsConfiguration('asciidocSuite.lint') || event.affectsConfiguration('asciidocSuite.proofread')
+                    || event.affectsConfiguration('asciidocSuite.templates')) {
+                    refresh();
+                }
+            }),
+            vscode.languages.registerCodeActionsProvider(ASCIIDOC_SELECTOR, this, {
+                providedCodeActionKinds: LintManager.providedCodeActionKinds
+            })
+        );
+
+        this.lintOpenDocuments();
+    }
+
+    // 変更されたファイルに依存するキャッシュを破棄して、開いているドキュメントを再検査する
+    private invalidate(filePath: string): void {
+        const resolved = path.resolve(filePath);
+        if (path.basename(resolved) === MANIFEST_FILE_NAME) {
+            this.manifests.delete(resolved);
+        } else if (STRUCTURE_PATTERN.test(resolved)) {
+            // インクルードの追加・削除でエントリ構成・参照が変わる場合がある
+            this.references.clear();
+        } else {
+            return;
+        }
+        this.entries = undefined;
+        this.lintOpenDocuments();
+    }
+
+    private isAsciidoc(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && /\.(adoc|asciidoc)$/i.test(document.fileName);
+    }
+
+    private lintOpenDocuments(): void {
+        vscode.workspace.textDocuments.forEach(document => this.scheduleLint(document));
+    }
+
+    private scheduleLint(document: vscode.TextDocument): void {
+        if (!this.isAsciidoc(document)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const timer = this.timers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+        }
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.lintDocument(document.uri.fsPath, document.getText()).catch(error => {
+                this.outputChannel.appendLine(`リント中にエラーが発生しました（${vscode.workspace.asRelativePath(document.uri)}）: ${error}`);
+            });
+        }, LINT_DELAY));
+    }
+
+    // ワークスペース内のすべての .adoc を検査する
+    async lintProject(): Promise<void> {
+        const files = await vscode.workspace.findFiles('**/*.{adoc,asciidoc}', '**/node_modules/**');
+        this.entries = undefined;
+
+        let problemCount = 0;
+        let fileCount = 0;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'ドキュメントを検査中...'
+        }, async () => {
+            for (const file of files) {
+                const text = await this.readText(file.fsPath);
+                if (text === undefined) {
+                    continue;
+                }
+                const count = await this.lintDocument(file.fsPath, text);
+                problemCount += count;
+                fileCount += count > 0 ? 1 : 0;
+            }
+        });
+
+        if (problemCount === 0) {
+            vscode.window.showInformationMessage(`${files.length}件のドキュメントに問題は見つかりませんでした。`);
+        } else {
+            vscode.window.showWarningMessage(`${fileCount}件のドキュメントで${problemCount}件の問題が見つかりました。問題パネルを確認してください。`);
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    // 1ファイルを検査して診断結果を更新し、問題の件数を返す
+    private async lintDocument(filePath: string, text: string): Promise<number> {
+        const uri = vscode.Uri.file(filePath);
+        const config = vscode.workspace.getConfiguration('asciidocSuite', uri);
+        if (!config.get<boolean>('lint.enabled', true)) {
+            this.diagnosticCollection.delete(uri);
+            this.fixes.delete(uri.toString());
+            return 0;
+        }
+
+        const settings = await this.getLintSettings(filePath);
+        if (!this.entries) {
+            this.entries = collectEntryDocuments();
+        }
+        const owners = findEntriesContaining(await this.entries, filePath);
+
+        const problems: LintProblem[] = [
+            ...checkHeadingLevels(text),
+            ...checkDelimitedBlocks(text),
+            ...checkTables(text),
+            ...checkPlaceholders(text, [...await this.getTemplatePatterns(), ...this.compilePatterns(settings.placeholderPatterns)]),
+            ...await this.checkDuplicateAnchors(filePath, text, owners),
+            ...await this.checkMissingImages(filePath, owners)
+        ];
+
+        // 日本語の文書は文章も校正する（lang 属性はエントリドキュメントの設定も参照する）
+        const lang = owners
+            .map(entry => entry.target.options?.attributes?.lang)
+            .find((value): value is string => typeof value === 'string');
+        if (settings.proofread && isJapaneseDocument(text, lang)) {
+            problems.push(...checkJapaneseStyle(text, settings.proofread));
+        }
+        problems.push(...await this.checkGlossary(filePath, text));
+
+        // 必須属性はエントリドキュメントのみを対象とする
+        const ownEntry = owners.find(entry => path.resolve(entry.target.filePath) === path.resolve(filePath));
+        if (ownEntry) {
+            const provided = new Set<string>();
+            for (const [name, value] of Object.entries(ownEntry.target.options?.attributes ?? {})) {
+                if (value !== false) {
+                    provided.add(name);
+                }
+            }
+            if (ownEntry.target.options?.pdfTheme) {
+                provided.add('pdf-theme');
+            }
+            problems.push(...checkRequiredAttributes(text, settings.requiredAttributes, provided));
+        }
+
+        const lines = text.split(/\r?\n/);
+        const diagnostics: vscode.Diagnostic[] = [];
+        const fixes = new Map<string, LintFix>();
+        for (const problem of problems) {
+            const severity = settings.severities[problem.rule];
+            if (severity === 'off') {
+                continue;
+            }
+
+            const lineLength = lines[problem.line]?.length ?? 0;
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(
+                    problem.line, Math.min(problem.character, lineLength),
+                    problem.line, Math.min(problem.endCharacter, lineLength)
+                ),
+                problem.message,
+                this.toDiagnosticSeverity(severity)
+            );
+            diagnostic.source = 'asciidoc-lint';
+            diagnostic.code = problem.rule;
+            if (problem.fix) {
+                fixes.set(this.getFixKey(diagnostic), problem.fix);
+            }
+            diagnostics.push(diagnostic);
+        }
+
+        this.fixes.set(uri.toString(), fixes);
+        this.diagnosticCollection.set(uri, diagnostics);
+        return diagnostics.length;
+    }
+
+    // 同じエントリドキュメントに含まれるファイル間でのアンカーの重複
+    private async checkDuplicateAnchors(filePath: string, text: string, owners: EntryDocument[]): Promise<LintProblem[]> {
+        const resolved = path.resolve(filePath);
+        const scope = new Set<string>([resolved]);
+        owners.forEach(entry => entry.dependencies.forEach(dependency => {
+            if (/\.(adoc|asciidoc)$/i.test(dependency)) {
+                scope.add(dependency);
+            }
+        }));
+
+        const definitions = new Map<string, string[]>();
+        for (const scopeFile of scope) {
+            const scopeText = scopeFile === resolved ? text : await this.readText(scopeFile);
+            for (const anchor of parseAnchors(scopeText ?? '')) {
+                const locations = definitions.get(anchor.id) ?? [];
+                locations.push(`${vscode.workspace.asRelativePath(scopeFile)}:${anchor.line + 1}`);
+                definitions.set(anchor.id, locations);
+            }
+        }
+
+        const lines = text.split(/\r?\n/);
+        return parseAnchors(text)
+            .filter(anchor => (definitions.get(anchor.id)?.length ?? 0) > 1)
+            .map(anchor => ({
+                rule: 'duplicate-anchor' as const,
+                message: `アンカー "${anchor.id}" が重複しています（${definitions.get(anchor.id)!.join(', ')}）。`,
+                line: anchor.line,
+                character: anchor.explicit ? anchor.character : 0,
+                endCharacter: anchor.explicit ? anchor.character + anchor.id.length : lines[anchor.line].length
+            }));
+    }
+
+    // 用語集の同義語・未定義の用語、用語集のファイルでは使われていない用語
+    private async checkGlossary(filePath: string, text: string): Promise<LintProblem[]> {
+        const project = await this.glossaryManager.getGlossary(filePath);
+        if (!project) {
+            return [];
+        }
+
+        const ignoredTerms = vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(filePath))
+            .get<string[]>('glossary.ignoredTerms', []);
+        if (path.resolve(project.filePath) !== path.resolve(filePath)) {
+            return checkGlossaryTerms(text, project.glossary, undefined, ignoredTerms);
+        }
+
+        // 用語集のファイルは編集中の内容で解析する
+        const glossary = parseGlossaryFile(text);
+        const usedTerms = await this.glossaryManager.collectUsedTerms({ ...project, glossary });
+        return [
+            ...checkGlossaryTerms(text, glossary, glossary, ignoredTerms),
+            ...checkUnusedTerms(glossary, usedTerms, text.split(/\r?\n/))
+        ];
+    }
+
+    // 画像・図表ファイルの欠落（imagesdir はエントリドキュメントの属性で解決する）
+    private async checkMissingImages(filePath: string, owners: EntryDocument[]): Promise<LintProblem[]> {
+        const resolved = path.resolve(filePath);
+        const entryFiles = owners.length > 0 ? owners.map(entry => entry.target.filePath) : [resolved];
+        const problems = new Map<string, LintProblem>();
+
+        for (const entryFile of entryFiles) {
+            for (const reference of await this.getReferences(path.resolve(entryFile), resolved)) {
+                if ((reference.kind !== 'image' && reference.kind !== 'diagram') || await fs.pathExists(reference.path)) {
+                    continue;
+                }
+
+                const key = `${reference.line}:${reference.target}`;
+                if (!problems.has(key)) {
+                    problems.set(key, {
+                        rule: 'missing-image',
+                        message: `${reference.kind === 'image' ? '画像' : '図表'}ファイルが見つかりません: ${reference.target}`,
+                        line: reference.line,
+                        character: 0,
+                        endCharacter: Number.MAX_SAFE_INTEGER
+                    });
+                }
+            }
+        }
+        return [...problems.values()];
+    }
+
+    // ファイルの参照（未保存の変更がある場合は、エントリドキュメントの属性とファイルの編集中の内容から解析する）
+    private async getReferences(entryFile: string, filePath: string): Promise<DocumentReference[]> {
+        const openDocument = vscode.workspace.textDocuments.find(document => path.resolve(document.fileName) === filePath);
+        if (openDocument?.isDirty) {
+            const context = createReferenceContext(entryFile);
+            if (entryFile !== filePath) {
+                parseDocumentReferences(entryFile, await this.readText(entryFile) ?? '', context);
+            }
+            return parseDocumentReferences(filePath, openDocument.getText(), context);
+        }
+
+        let references = this.references.get(entryFile);
+        if (!references) {
+            references = collectReferences(entryFile).catch(() => new Map<string, DocumentReference[]>());
+            this.references.set(entryFile, references);
+        }
+        return (await references).get(filePath) ?? [];
+    }
+
+    // 構文エラーのマニフェストは undefined とする（エラーはビルド時に報告する）
+    private loadManifest(manifestPath: string): Promise<ProjectManifest | undefined> {
+        let manifest = this.manifests.get(manifestPath);
+        if (!manifest) {
+            manifest = loadProjectManifest(manifestPath).catch(() => undefined);
+            this.manifests.set(manifestPath, manifest);
+        }
+        return manifest;
+    }
+
+    // 組み込み・ユーザー・ワークスペースのテンプレートのエントリドキュメントと変数の既定値から作成する
+    private getTemplatePatterns(): Promise<PlaceholderPattern[]> {
+        if (!this.templatePatterns) {
+            this.templatePatterns = (async () => {
+                const patterns: PlaceholderPattern[] = [];
+                for (const template of await discoverTemplates(this.extensionPath)) {
+                    const text = await this.readText(path.join(template.directory, template.descriptor.entry));
+                    patterns.push(...createTemplateDefaultPatterns(text ?? '', template.descriptor.variables ?? []));
+                }
+                return patterns;
+            })();
+        }
+        return this.templatePatterns;
+    }
+
+    // 正規表現として正しくないパターンは出力パネルに記録して無視する
+    private compilePatterns(sources: string[]): PlaceholderPattern[] {
+        return sources.flatMap(source => {
+            try {
+                return [{ pattern: new RegExp(source) }];
+            } catch (error) {
+                if (this.invalidPatterns.has(source)) {
+                    return [];
+                }
+                this.invalidPatterns.add(source);
+                this.outputChannel.appendLine(`lint.placeholderPatterns の正規表現が正しくありません: ${source} (${error})`);
+                return [];
+            }
+        });
+    }
+
+    // 既定値 < VS Code の設定 < プロジェクトマニフェストの順に適用する
+    private async getLintSettings(filePath: string): Promise<LintSettings> {
+        const config = vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(filePath));
+        const severities: Record<LintRuleId, LintSeverity> = {
+            ...DEFAULT_LINT_SEVERITIES,
+            ...config.get<Partial<Record<LintRuleId, LintSeverity>>>('lint.rules', {})
+        };
+        let requiredAttributes = config.get<string[]>('lint.requiredAttributes', DEFAULT_REQUIRED_ATTRIBUTES);
+        let placeholderPatterns = config.get<string[]>('lint.placeholderPatterns', DEFAULT_PLACEHOLDER_PATTERNS);
+        const terms = { ...config.get<Record<string, string[]>>('proofread.terms', {}) };
+        let maxSentenceLength = config.get<number>('proofread.maxSentenceLength', DEFAULT_MAX_SENTENCE_LENGTH);
+
+        const manifestPath = await findManifestForFile(filePath);
+        const manifest = manifestPath ? await this.loadManifest(path.resolve(manifestPath)) : undefined;
+        if (manifest) {
+            const { lint, proofread } = manifest;
+            Object.assign(severities, lint?.rules ?? {});
+            requiredAttributes = lint?.requiredAttributes ?? requiredAttributes;
+            placeholderPatterns = lint?.placeholderPatterns ?? placeholderPatterns;
+            Object.assign(terms, proofread?.terms ?? {});
+            maxSentenceLength = proofread?.maxSentenceLength ?? maxSentenceLength;
+        }
+
+        const proofread = config.get<boolean>('proofread.enabled', true) ? { terms, maxSentenceLength } : undefined;
+        return { severities, requiredAttributes, placeholderPatterns, proofread };
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const fixes = this.fixes.get(document.uri.toString());
+
+        for (const diagnostic of context.diagnostics) {
+            const fix = diagnostic.source === 'asciidoc-lint' ? fixes?.get(this.getFixKey(diagnostic)) : undefined;
+            if (!fix) {
+                continue;
+            }
+
+            const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            if (fix.command) {
+                action.command = { command: fix.command.id, title: fix.title, arguments: fix.command.arguments };
+            }
+            if (fix.edits.length === 0) {
+                actions.push(action);
+                continue;
+            }
+
+            const edit = new vscode.WorkspaceEdit();
+            for (const change of fix.edits) {
+                const start = new vscode.Position(change.line, change.character);
+                if (change.endLine !== undefined && change.endCharacter !== undefined) {
+                    edit.replace(document.uri, new vscode.Range(start, new vscode.Position(change.endLine, change.endCharacter)), change.newText);
+                } else {
+                    edit.insert(document.uri, start, change.newText);
+                }
+            }
+
+            action.edit = edit;
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    private getFixKey(diagnostic: vscode.Diagnostic): string {
+        const { start, end } = diagnostic.range;
+        return `${diagnostic.code}|${start.line}:${start.character}-${end.line}:${end.character}|${diagnostic.message}`;
+    }
+
+    private toDiagnosticSeverity(severity: LintSeverity): vscode.DiagnosticSeverity {
+        switch (severity) {
+            case 'error':
+                return vscode.DiagnosticSeverity.Error;
+            case 'info':
+                return vscode.DiagnosticSeverity.Information;
+            default:
+                return vscode.DiagnosticSeverity.Warning;
+        }
+    }
+
+    // 開いているドキュメントは未保存の内容を優先する
+    private async readText(filePath: string): Promise<string | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.fileName === filePath);
+        if (openDocument) {
+            return openDocument.getText();
+        }
+        try {
+            return await fs.readFile(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
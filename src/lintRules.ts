@@ -0,0 +1,423 @@
+import { scanDocumentLines } from './includeGraph';
+import { parseSections } from './documentStructure';
+import { TEMPLATE_PLACEHOLDER_PATTERN, TemplateVariable } from './projectTemplates';
+
+export type LintRuleId =
+    | 'missing-attribute'
+    | 'heading-level-skip'
+    | 'duplicate-anchor'
+    | 'unclosed-block'
+    | 'table-columns'
+    | 'missing-image'
+    | 'template-placeholder'
+    | 'term-variant'
+    | 'character-width'
+    | 'mixed-style'
+    | 'long-sentence'
+    | 'duplicate-particle'
+    | 'undefined-term'
+    | 'unused-term'
+    | 'glossary-synonym';
+
+export type LintSeverity = 'error' | 'warning' | 'info' | 'off';
+
+export const DEFAULT_LINT_SEVERITIES: Record<LintRuleId, LintSeverity> = {
+    'missing-attribute': 'warning',
+    'heading-level-skip': 'warning',
+    'duplicate-anchor': 'error',
+    'unclosed-block': 'error',
+    'table-columns': 'warning',
+    'missing-image': 'error',
+    'template-placeholder': 'warning',
+    'term-variant': 'warning',
+    'character-width': 'warning',
+    'mixed-style': 'warning',
+    'long-sentence': 'info',
+    'duplicate-particle': 'info',
+    'undefined-term': 'info',
+    'unused-term': 'warning',
+    'glossary-synonym': 'warning'
+};
+
+export const DEFAULT_REQUIRED_ATTRIBUTES = ['lang', 'revnumber', 'pdf-theme'];
+
+// テンプレートの記入欄（{プロジェクト名} など、属性参照にならない文字を含む {}）とサンプルの文章
+export const DEFAULT_PLACEHOLDER_PATTERNS = [
+    '\\{[^{}"\\n]*[^\\x00-\\x7F][^{}"\\n]*\\}',
+    'これはAsciidocとAsciidoctor-PDFのサンプル文書です',
+    'このサンプル文書により'
+];
+
+// 置換漏れとして検出する文字列
+// variable を指定した場合は、テンプレートの行に変数の既定値を入れたものと行全体が一致したときに値の部分を検出する
+export interface PlaceholderPattern {
+    pattern: RegExp;
+    variable?: string;
+}
+
+// クイックフィックスによるテキストの置換（end を省略した場合は挿入）
+export interface LintEdit {
+    line: number;
+    character: number;
+    endLine?: number;
+    endCharacter?: number;
+    newText: string;
+}
+
+// edits の代わりに（または edits の適用後に）実行するコマンド
+export interface LintFixCommand {
+    id: string;
+    arguments?: unknown[];
+}
+
+export interface LintFix {
+    title: string;
+    edits: LintEdit[];
+    command?: LintFixCommand;
+}
+
+// ルールが検出した問題（位置は0始まり）
+export interface LintProblem {
+    rule: LintRuleId;
+    message: string;
+    line: number;
+    character: number;
+    endCharacter: number;
+    fix?: LintFix;
+}
+
+// 必須属性を追加する際の既定値
+const ATTRIBUTE_DEFAULT_VALUES: Record<string, string> = {
+    lang: 'ja',
+    revnumber: '1.0'
+};
+
+const DELIMITER_PATTERN = /^(-{4,}|\.{4,}|={4,}|\*{4,}|_{4,}|\+{4,}|\/{4,}|--|[|!,:]={3,})$/;
+// 内側の区切り行を解釈しないブロック
+const VERBATIM_DELIMITER_PATTERN = /^(-{4,}|\.{4,}|\+{4,}|\/{4,})$/;
+
+// ドキュメントヘッダー（タイトルから最初の空行まで）の範囲と属性を取得する
+export function readHeader(lines: string[]): { lastLine: number; attributes: Set<string> } {
+    const attributes = new Set<string>();
+    let lastLine = -1;
+    let hasTitle = false;
+
+    for (let index = 0; index < lines.length; index++) {
+        const trimmed = lines[index].trim();
+        if (trimmed.startsWith('//')) {
+            continue;
+        }
+        if (trimmed === '') {
+            if (hasTitle || lastLine >= 0) {
+                break;
+            }
+            continue;
+        }
+
+        const attribute = /^:([\w-]+)!?:/.exec(trimmed);
+        if (attribute) {
+            attributes.add(attribute[1]);
+        } else if (/^=\s+/.test(trimmed) && !hasTitle && lastLine < 0) {
+            hasTitle = true;
+        } else if (!hasTitle) {
+            break;
+        }
+        lastLine = index;
+    }
+
+    return { lastLine, attributes };
+}
+
+// エントリドキュメントのヘッダーに必須属性が定義されているか
+export function checkRequiredAttributes(text: string, required: string[], provided: Set<string>): LintProblem[] {
+    const lines = text.split(/\r?\n/);
+    const header = readHeader(lines);
+    const missing = required.filter(name => !header.attributes.has(name) && !provided.has(name));
+
+    return missing.map(name => ({
+        rule: 'missing-attribute',
+        message: `ドキュメント属性 :${name}: が定義されていません。`,
+        line: 0,
+        character: 0,
+        endCharacter: lines[0]?.length ?? 0,
+        fix: {
+            title: `:${name}: を追加`,
+            edits: [{
+                line: header.lastLine + 1,
+                character: 0,
+                newText: `:${name}: ${ATTRIBUTE_DEFAULT_VALUES[name] ?? ''}`.trimEnd() + '\n'
+            }]
+        }
+    }));
+}
+
+// 見出しレベルの飛び（== の次に ==== など）を検出する
+export function checkHeadingLevels(text: string): LintProblem[] {
+    const lines = text.split(/\r?\n/);
+    const problems: LintProblem[] = [];
+    let previousLevel: number | undefined;
+
+    for (const section of parseSections(text)) {
+        if (previousLevel !== undefined && section.level > previousLevel + 1) {
+            const expected = previousLevel + 1;
+            const marker = /^\s*(=+)/.exec(lines[section.line]);
+            const start = marker ? marker.index + marker[0].indexOf('=') : 0;
+            problems.push({
+                rule: 'heading-level-skip',
+                message: `見出しレベルが飛んでいます（レベル${previousLevel}の次にレベル${section.level}）。`,
+                line: section.line,
+                character: 0,
+                endCharacter: lines[section.line].length,
+                fix: {
+                    title: `レベル${expected}の見出しに変更`,
+                    edits: [{
+                        line: section.line,
+                        character: start,
+                        endLine: section.line,
+                        endCharacter: start + section.level + 1,
+                        newText: '='.repeat(expected + 1)
+                    }]
+                }
+            });
+        }
+        previousLevel = section.level;
+    }
+
+    return problems;
+}
+
+// 閉じられていない区切りブロックを検出する
+export function checkDelimitedBlocks(text: string): LintProblem[] {
+    const lines = text.split(/\r?\n/);
+    const stack: { delimiter: string; line: number }[] = [];
+
+    lines.forEach((line, index) => {
+        const trimmed = line.trimEnd();
+        if (!DELIMITER_PATTERN.test(trimmed)) {
+            return;
+        }
+
+        const top = stack[stack.length - 1];
+        if (top && top.delimiter === trimmed) {
+            stack.pop();
+        } else if (!top || !VERBATIM_DELIMITER_PATTERN.test(top.delimiter)) {
+            stack.push({ delimiter: trimmed, line: index });
+        }
+    });
+
+    const endsWithNewline = text.endsWith('\n');
+    return stack.map(block => ({
+        rule: 'unclosed-block' as const,
+        message: `区切りブロック（${block.delimiter}）が閉じられていません。`,
+        line: block.line,
+        character: 0,
+        endCharacter: block.delimiter.length,
+        fix: {
+            title: `文書末尾に ${block.delimiter} を追加`,
+            edits: [{
+                line: lines.length - 1,
+                character: lines[lines.length - 1].length,
+                newText: `${endsWithNewline ? '' : '\n'}${block.delimiter}\n`
+            }]
+        }
+    })).reverse();
+}
+
+// cols 属性から列数を求める（"1,2,3" / "3*" / 3 形式）
+function parseColumnCount(attributeLine: string | undefined): number | undefined {
+    const cols = attributeLine ? /cols\s*=\s*(?:"([^"]*)"|'([^']*)'|([^,\]]+))/.exec(attributeLine) : null;
+    if (!cols) {
+        return undefined;
+    }
+
+    const value = (cols[1] ?? cols[2] ?? cols[3]).trim();
+    if (/^\d+$/.test(value)) {
+        return Number(value);
+    }
+    return value.split(/[,;]/).reduce((count, spec) => {
+        const multiplier = /^\s*(\d+)\*/.exec(spec);
+        return count + (multiplier ? Number(multiplier[1]) : 1);
+    }, 0);
+}
+
+// セル指定子（3*、2+、.2+、^.>、a など）
+const CELL_SPEC_PATTERN = /^(?:(\d+)\*)?(?:(\d*)(?:\.(\d+))?\+)?[<^>]?(?:\.[<^>])?[aehlmdsv]?$/;
+
+// 1行に含まれるセル数を数える（列結合 2+| と複製 3*| を考慮、行結合を含む場合は undefined）
+function countCells(line: string): number | undefined {
+    let count = 0;
+    const separatorPattern = /(?<!\\)\|/g;
+    let match: RegExpExecArray | null;
+    while ((match = separatorPattern.exec(line)) !== null) {
+        const spec = /(\S*)$/.exec(line.slice(0, match.index))?.[1] ?? '';
+        const parsed = CELL_SPEC_PATTERN.exec(spec);
+        if (!parsed) {
+            count++;
+            continue;
+        }
+        if (parsed[3]) {
+            return undefined;
+        }
+        count += (parsed[1] ? Number(parsed[1]) : 1) * (parsed[2] ? Number(parsed[2]) : 1);
+    }
+    return count;
+}
+
+// 表のセル数が列数の倍数になっているか
+export function checkTables(text: string): LintProblem[] {
+    const lines = text.split(/\r?\n/);
+    const problems: LintProblem[] = [];
+    let table: { line: number; attributes?: string; cells: number; columns?: number; skip: boolean } | undefined;
+
+    scanDocumentLines(text, (line, trimmed, index) => {
+        if (/^\|={3,}$/.test(trimmed)) {
+            if (!table) {
+                const previous = lines[index - 1]?.trim();
+                const attributes = previous && /^\[.*\]$/.test(previous) ? previous : undefined;
+                table = {
+                    line: index,
+                    attributes,
+                    cells: 0,
+                    columns: parseColumnCount(attributes),
+                    skip: !!attributes && /format\s*=\s*"?(csv|tsv|dsv)/.test(attributes)
+                };
+                return;
+            }
+
+            if (!table.skip && table.columns && table.cells % table.columns !== 0) {
+                problems.push({
+                    rule: 'table-columns',
+                    message: `表のセル数（${table.cells}）が列数（${table.columns}）の倍数になっていません。`,
+                    line: table.line,
+                    character: 0,
+                    endCharacter: lines[table.line].length
+                });
+            }
+            table = undefined;
+            return;
+        }
+
+        if (!table || table.skip || !trimmed || !trimmed.includes('|')) {
+            return;
+        }
+
+        const cells = countCells(line);
+        if (cells === undefined) {
+            table.skip = true;
+            return;
+        }
+        // cols 属性がない場合は最初の行のセル数を列数とする
+        if (table.columns === undefined && cells > 0) {
+            table.columns = cells;
+        }
+        table.cells += cells;
+    });
+
+    return problems;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// テンプレートのエントリドキュメントの行から、変数の既定値のまま残った行を検出するパターンを作成する
+// 選択肢のある変数（言語・用紙サイズ）と既定値が空の変数は対象外
+export function createTemplateDefaultPatterns(templateText: string, variables: TemplateVariable[]): PlaceholderPattern[] {
+    const defaults = new Map<string, string>();
+    variables
+        .filter(variable => variable.default && !variable.options?.length)
+        .forEach(variable => defaults.set(variable.name, variable.default!));
+
+    const patterns = new Map<string, PlaceholderPattern>();
+    for (const line of templateText.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        const matches = [...trimmed.matchAll(new RegExp(TEMPLATE_PLACEHOLDER_PATTERN.source, 'g'))];
+        for (const name of new Set(matches.map(match => match[1]))) {
+            if (!defaults.has(name)) {
+                continue;
+            }
+            // 行頭の空白を含めて対象の変数より前を1番目、対象の変数の値を2番目のグループにする
+            let source = '^(\\s*';
+            let last = 0;
+            let captured = false;
+            for (const match of matches) {
+                source += escapeRegExp(trimmed.slice(last, match.index!));
+                const value = defaults.get(match[1]);
+                if (match[1] === name && !captured) {
+                    source += `)(${escapeRegExp(value!)})`;
+                    captured = true;
+                } else {
+                    source += value !== undefined ? escapeRegExp(value) : '.*?';
+                }
+                last = match.index! + match[0].length;
+            }
+            source += `${escapeRegExp(trimmed.slice(last))}\\s*$`;
+            patterns.set(source, { pattern: new RegExp(source), variable: name });
+        }
+    }
+    return [...patterns.values()];
+}
+
+// テンプレートのプレースホルダー（{{title}} など）・変数の既定値・記入欄やサンプルの文章の置換漏れを検出する
+export function checkPlaceholders(text: string, leftovers: PlaceholderPattern[] = []): LintProblem[] {
+    const problems: LintProblem[] = [];
+    const pattern = new RegExp(TEMPLATE_PLACEHOLDER_PATTERN.source, 'g');
+    const textPatterns = leftovers
+        .filter(leftover => !leftover.variable)
+        .map(leftover => new RegExp(leftover.pattern.source, leftover.pattern.flags.includes('g') ? leftover.pattern.flags : `${leftover.pattern.flags}g`));
+
+    scanDocumentLines(text, (line, _trimmed, index) => {
+        let match: RegExpExecArray | null;
+        pattern.lastIndex = 0;
+        while ((match = pattern.exec(line)) !== null) {
+            problems.push({
+                rule: 'template-placeholder',
+                message: `テンプレートのプレースホルダー ${match[0]} が置換されていません。`,
+                line: index,
+                character: match.index,
+                endCharacter: match.index + match[0].length,
+                fix: {
+                    title: 'プレースホルダーを削除',
+                    edits: [{
+                        line: index,
+                        character: match.index,
+                        endLine: index,
+                        endCharacter: match.index + match[0].length,
+                        newText: ''
+                    }]
+                }
+            });
+        }
+
+        for (const leftover of leftovers) {
+            const defaultMatch = leftover.variable ? leftover.pattern.exec(line) : null;
+            if (defaultMatch) {
+                const character = defaultMatch[1].length;
+                problems.push({
+                    rule: 'template-placeholder',
+                    message: `テンプレート変数 ${leftover.variable} の既定値「${defaultMatch[2]}」が変更されていません。`,
+                    line: index,
+                    character,
+                    endCharacter: character + defaultMatch[2].length
+                });
+            }
+        }
+
+        for (const textPattern of textPatterns) {
+            for (const textMatch of line.matchAll(textPattern)) {
+                if (!textMatch[0]) {
+                    continue;
+                }
+                problems.push({
+                    rule: 'template-placeholder',
+                    message: `テンプレートの記入欄またはサンプルの文章「${textMatch[0]}」が残っています。`,
+                    line: index,
+                    character: textMatch.index!,
+                    endCharacter: textMatch.index! + textMatch[0].length
+                });
+            }
+        }
+    });
+
+    return problems;
+}
@@ -0,0 +1,531 @@
+import { ColumnAlignment, renderAsciidocTable } from './tableConverter';
+
+export interface MarkdownConversionOptions {
+    // 画像・リンクの相対パスを変換後のファイルからのパスに書き換える
+    rewritePath?: (target: string) => string;
+}
+
+interface ConversionContext {
+    references: Map<string, string>;
+    // 文書内リンクの参照先（見出しにアンカーを付ける）
+    anchors: Set<string>;
+    headingOffset: number;
+    rewritePath: (target: string) => string;
+    depth: number;
+}
+
+// ブロック引用の先頭のラベルとアドモニションの種類
+const ADMONITION_LABELS: Record<string, string> = {
+    note: 'NOTE', info: 'NOTE', tip: 'TIP', hint: 'TIP', important: 'IMPORTANT',
+    warning: 'WARNING', caution: 'CAUTION', danger: 'CAUTION',
+    'メモ': 'NOTE', '注': 'NOTE', '補足': 'NOTE', '備考': 'NOTE', '参考': 'NOTE',
+    'ヒント': 'TIP', 'ポイント': 'TIP', '重要': 'IMPORTANT',
+    '注意': 'CAUTION', '警告': 'WARNING', '危険': 'CAUTION'
+};
+
+// コードブロックの言語のうち asciidoctor-diagram のブロックとして変換するもの
+const DIAGRAM_LANGUAGES: Record<string, string> = {
+    plantuml: 'plantuml', puml: 'plantuml', mermaid: 'mermaid', dot: 'graphviz', graphviz: 'graphviz', ditaa: 'ditaa'
+};
+
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(?:\s+(.*)|\s*$)/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const REFERENCE_DEFINITION_PATTERN = /^ {0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+["'(].*["')])?\s*$/;
+const STANDALONE_IMAGE_PATTERN = /^!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)$/;
+// 段落の行頭にあると AsciiDoc の構文として解釈される記法
+// AsciiDoc の書式として解釈されないよう文字として出力する記号（組み込みの属性がない記号はパススルーにする）
+const ESCAPED_CHARACTERS: Record<string, string> = {
+    '*': '{asterisk}', '`': '{backtick}', '^': '{caret}', '~': '{tilde}', '+': '{plus}', '\\': '{backslash}',
+    '[': '{startsb}', ']': '{endsb}', '|': '{vbar}', '{': '\\{', '#': 'pass:[#]', '_': 'pass:[_]', '<': 'pass:c[<]', '>': 'pass:c[>]'
+};
+const BLOCK_SYNTAX_PATTERN = /^(\.[^\s.]|=+\s|\[.*\]$|:[\w-]+:|\/\/|\|===|-{4,}|\*{4,}|_{4,}|\+{4,}|\.{4,}|(include|ifdef|ifndef|endif|image)::|(NOTE|TIP|IMPORTANT|WARNING|CAUTION): )/;
+
+function indentOf(line: string): number {
+    let width = 0;
+    for (const char of line) {
+        if (char === ' ') {
+            width++;
+        } else if (char === '\t') {
+            width += 4 - (width % 4);
+        } else {
+            break;
+        }
+    }
+    return width;
+}
+
+// 先頭から指定した幅のインデントを取り除く
+function dedent(line: string, width: number): string {
+    let removed = 0;
+    let index = 0;
+    while (index < line.length && removed < width && (line[index] === ' ' || line[index] === '\t')) {
+        removed += line[index] === '\t' ? 4 - (removed % 4) : 1;
+        index++;
+    }
+    return line.slice(index);
+}
+
+function isBlank(line: string | undefined): boolean {
+    return line === undefined || line.trim() === '';
+}
+
+// GitHub と同じ規則の見出しのスラッグ（AsciiDoc の ID として使えるよう先頭の数字は _ で始める）
+function toAnchorId(text: string): string {
+    const slug = text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+    return /^[\p{L}_]/u.test(slug) ? slug : `_${slug}`;
+}
+
+// マクロの属性として安全なテキスト
+function macroText(text: string): string {
+    const escaped = text.replace(/\]/g, '\\]');
+    return /[,="]/.test(escaped) ? `"${escaped.replace(/"/g, '\\"')}"` : escaped;
+}
+
+function escapeCharacter(char: string): string {
+    return ESCAPED_CHARACTERS[char] ?? char;
+}
+
+function isWordChar(char: string | undefined): boolean {
+    return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+}
+
+// 不正なエスケープ（16進数が続かない % など）を含むリンク先はそのまま使う
+export function safeDecode(target: string, decode: (value: string) => string = decodeURIComponent): string {
+    try {
+        return decode(target);
+    } catch {
+        return target;
+    }
+}
+
+function isExternal(target: string): boolean {
+    return /^[a-z][a-z\d+.-]*:/i.test(target) || target.startsWith('//');
+}
+
+export function convertMarkdown(markdown: string, options: MarkdownConversionOptions = {}): string {
+    let lines = markdown.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split('\n');
+    const blocks: string[] = [];
+
+    // YAML フロントマターはコメントとして残す
+    if (lines[0] === '---') {
+        const end = lines.indexOf('---', 1);
+        if (end > 0) {
+            blocks.push(['////', ...lines.slice(1, end), '////'].join('\n'));
+            lines = lines.slice(end + 1);
+        }
+    }
+
+    // 参照形式のリンクの定義を集めて本文から取り除く（コードブロック内は除く）
+    const references = new Map<string, string>();
+    let fence: string | undefined;
+    lines = lines.filter(line => {
+        const fenceMatch = FENCE_PATTERN.exec(line);
+        if (fenceMatch && (!fence || fenceMatch[2].startsWith(fence))) {
+            fence = fence ? undefined : fenceMatch[2][0].repeat(3);
+            return true;
+        }
+        const definition = fence ? null : REFERENCE_DEFINITION_PATTERN.exec(line);
+        if (definition) {
+            references.set(definition[1].toLowerCase(), definition[2]);
+            return false;
+        }
+        return true;
+    });
+
+    // 最も浅い見出しを AsciiDoc のレベル1のセクション（==）にする
+    const headingLevels = lines
+        .map(line => ATX_HEADING_PATTERN.exec(line)?.[1].length)
+        .filter((level): level is number => level !== undefined);
+    const anchors = new Set([...markdown.matchAll(/\]\(#([^)\s]+)\)/g)].map(match => safeDecode(match[1])));
+
+    const context: ConversionContext = {
+        references,
+        anchors,
+        headingOffset: 2 - Math.min(1, ...headingLevels),
+        rewritePath: options.rewritePath ?? (target => target),
+        depth: 0
+    };
+    blocks.push(...convertBlocks(lines, context));
+    return `${blocks.join('\n\n')}\n`;
+}
+
+// 行をブロック単位に変換し、ブロックごとの AsciiDoc を返す
+function convertBlocks(lines: string[], context: ConversionContext): string[] {
+    const blocks: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+        if (isBlank(line)) {
+            index++;
+            continue;
+        }
+
+        const fence = FENCE_PATTERN.exec(line);
+        if (fence) {
+            const [, indent, marker, language] = fence;
+            let end = index + 1;
+            while (end < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[end])) {
+                end++;
+            }
+            const content = lines.slice(index + 1, end).map(item => dedent(item, indent.length));
+            blocks.push(renderCodeBlock(language, content, context.depth));
+            index = end + 1;
+            continue;
+        }
+
+        const heading = ATX_HEADING_PATTERN.exec(line);
+        if (heading) {
+            blocks.push(renderHeading(heading[1].length, heading[2] ?? '', context));
+            index++;
+            continue;
+        }
+
+        if (RULE_PATTERN.test(line)) {
+            blocks.push("'''");
+            index++;
+            continue;
+        }
+
+        if (/^\s*<!--/.test(line)) {
+            let end = index;
+            while (end < lines.length && !lines[end].includes('-->')) {
+                end++;
+            }
+            const comment = lines.slice(index, end + 1).join('\n').replace(/^\s*<!--\s*/, '').replace(/\s*-->\s*$/, '');
+            blocks.push(comment.includes('\n') ? `////\n${comment}\n////` : `// ${comment}`);
+            index = end + 1;
+            continue;
+        }
+
+        if (QUOTE_PATTERN.test(line)) {
+            let end = index;
+            while (end < lines.length && !isBlank(lines[end]) && (QUOTE_PATTERN.test(lines[end]) || end > index)) {
+                end++;
+            }
+            blocks.push(renderQuote(lines.slice(index, end).map(item => item.replace(QUOTE_PATTERN, '')), context));
+            index = end;
+            continue;
+        }
+
+        if (line.includes('|') && TABLE_SEPARATOR_PATTERN.test(lines[index + 1] ?? '') && lines[index + 1].includes('-')) {
+            let end = index + 2;
+            while (end < lines.length && !isBlank(lines[end]) && lines[end].includes('|')) {
+                end++;
+            }
+            blocks.push(renderTable(lines[index], lines[index + 1], lines.slice(index + 2, end), context));
+            index = end;
+            continue;
+        }
+
+        if (LIST_ITEM_PATTERN.test(line)) {
+            const end = findListEnd(lines, index);
+            blocks.push(renderList(lines.slice(index, end), context));
+            index = end;
+            continue;
+        }
+
+        // インデントされたコード
+        if (indentOf(line) >= 4) {
+            let end = index;
+            while (end < lines.length && (indentOf(lines[end]) >= 4 || (isBlank(lines[end]) && indentOf(lines[end + 1] ?? '') >= 4))) {
+                end++;
+            }
+            blocks.push(renderCodeBlock('', lines.slice(index, end).map(item => dedent(item, 4)), context.depth));
+            index = end;
+            continue;
+        }
+
+        // 段落（次の行が === / --- の場合は見出し）
+        let end = index;
+        while (end < lines.length && !isBlank(lines[end]) && (end === index || !startsBlock(lines[end]))) {
+            if (end > index && /^ {0,3}(=+|-+)\s*$/.test(lines[end])) {
+                break;
+            }
+            end++;
+        }
+        const underline = lines[end];
+        if (underline !== undefined && end > index && /^ {0,3}(=+|-+)\s*$/.test(underline)) {
+            blocks.push(renderHeading(underline.trim()[0] === '=' ? 1 : 2, lines.slice(index, end).join(' ').trim(), context));
+            index = end + 1;
+            continue;
+        }
+        blocks.push(renderParagraph(lines.slice(index, end), context));
+        index = end;
+    }
+
+    return blocks;
+}
+
+// 段落を終わらせる行（見出し・コードブロック・引用・リスト・水平線）
+function startsBlock(line: string): boolean {
+    return FENCE_PATTERN.test(line) || ATX_HEADING_PATTERN.test(line) || QUOTE_PATTERN.test(line)
+        || RULE_PATTERN.test(line) || /^ {0,3}([-*+]|1[.)])\s+\S/.test(line);
+}
+
+// 空行の後にインデントされていない行が続くところでリストが終わる
+function findListEnd(lines: string[], start: number): number {
+    let index = start + 1;
+    while (index < lines.length) {
+        const line = lines[index];
+        if (isBlank(line)) {
+            let next = index + 1;
+            while (next < lines.length && isBlank(lines[next])) {
+                next++;
+            }
+            if (next >= lines.length || !(LIST_ITEM_PATTERN.test(lines[next]) || indentOf(lines[next]) >= 2)) {
+                return index;
+            }
+            index = next;
+            continue;
+        }
+        if (!LIST_ITEM_PATTERN.test(line) && indentOf(line) < 2 && startsBlock(line)) {
+            return index;
+        }
+        index++;
+    }
+    return index;
+}
+
+function renderHeading(level: number, text: string, context: ConversionContext): string {
+    const marker = '='.repeat(Math.min(6, Math.max(2, level + context.headingOffset)));
+    const title = convertInline(text, context);
+    const anchor = toAnchorId(text);
+    const referenced = [...context.anchors].some(target => toAnchorId(target) === anchor || target === text);
+    return referenced ? `[[${anchor}]]\n${marker} ${title}` : `${marker} ${title}`;
+}
+
+function renderCodeBlock(language: string, content: string[], depth: number): string {
+    const delimiter = '-'.repeat(4 + depth);
+    const diagram = DIAGRAM_LANGUAGES[language.toLowerCase()];
+    if (diagram) {
+        return [`[${diagram}]`, delimiter, ...content, delimiter].join('\n');
+    }
+    if (!language) {
+        const literal = '.'.repeat(4 + depth);
+        return [literal, ...content, literal].join('\n');
+    }
+    return [`[source,${language}]`, delimiter, ...content, delimiter].join('\n');
+}
+
+function renderParagraph(lines: string[], context: ConversionContext): string {
+    const image = lines.length === 1 ? STANDALONE_IMAGE_PATTERN.exec(lines[0].trim()) : null;
+    if (image) {
+        const [, alt, target, title] = image;
+        const macro = `image::${context.rewritePath(target)}[${macroText(alt)}]`;
+        return title ? `.${convertInline(title, context)}\n${macro}` : macro;
+    }
+
+    return lines.map((line, index) => {
+        // 行末の2つ以上の空白またはバックスラッシュは強制改行
+        const hardBreak = index < lines.length - 1 && /( {2,}|\\)$/.test(line);
+        const text = convertInline(line.trim().replace(/\\$/, ''), context);
+        const escaped = BLOCK_SYNTAX_PATTERN.test(text) ? `{empty}${text}` : text;
+        return hardBreak ? `${escaped} +` : escaped;
+    }).join('\n');
+}
+
+// 引用の先頭が [!NOTE] や **注意** の場合はアドモニションにする
+function renderQuote(lines: string[], context: ConversionContext): string {
+    const inner: ConversionContext = { ...context, depth: context.depth + 1 };
+    const first = lines.findIndex(line => !isBlank(line));
+    let type: string | undefined;
+    let body = lines;
+
+    if (first >= 0) {
+        const alert = /^\s*\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*$/i.exec(lines[first]);
+        const label = /^\s*\*\*([^*]+?)[:：]?\*\*[:：]?\s*(.*)$/.exec(lines[first]) ?? /^\s*([^\s:：*]+)[:：]\s*(.*)$/.exec(lines[first]);
+        if (alert) {
+            type = alert[1].toUpperCase();
+            body = lines.slice(first + 1);
+        } else if (label && ADMONITION_LABELS[label[1].trim().toLowerCase()]) {
+            type = ADMONITION_LABELS[label[1].trim().toLowerCase()];
+            body = [label[2], ...lines.slice(first + 1)];
+        }
+    }
+
+    const content = convertBlocks(body, inner).join('\n\n');
+    if (type) {
+        const delimiter = '='.repeat(4 + context.depth);
+        return `[${type}]\n${delimiter}\n${content}\n${delimiter}`;
+    }
+    const delimiter = '_'.repeat(4 + context.depth);
+    return `${delimiter}\n${content}\n${delimiter}`;
+}
+
+function splitTableRow(line: string): string[] {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function renderTable(header: string, separator: string, rows: string[], context: ConversionContext): string {
+    const alignments = splitTableRow(separator).map((cell): ColumnAlignment | undefined => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : undefined;
+    });
+    const cells = [header, ...rows].map(row => splitTableRow(row).map(cell => convertInline(cell, context)));
+    const columnCount = alignments.length;
+    const normalized = cells.map(row => [...row, ...Array<string>(Math.max(0, columnCount - row.length)).fill('')].slice(0, columnCount));
+    // Markdown の表は配置の指定がなければ左寄せ
+    return renderAsciidocTable(normalized, { header: true, alignments: alignments.map(alignment => alignment ?? 'left') });
+}
+
+interface ListLevel {
+    indent: number;
+    contentIndent: number;
+}
+
+function renderList(lines: string[], context: ConversionContext): string {
+    const output: string[] = [];
+    const stack: ListLevel[] = [];
+    let index = 0;
+    let afterBlank = false;
+    let topOrdered: boolean | undefined;
+
+    while (index < lines.length) {
+        const line = lines[index];
+        if (isBlank(line)) {
+            afterBlank = true;
+            index++;
+            continue;
+        }
+
+        const item = LIST_ITEM_PATTERN.exec(line);
+        if (item) {
+            const indent = indentOf(item[1]);
+            while (stack.length > 0 && indent < stack[stack.length - 1].indent) {
+                stack.pop();
+            }
+            const contentIndent = indent + item[2].length + 1;
+            const top = stack[stack.length - 1];
+            if (!top || indent >= top.contentIndent) {
+                stack.push({ indent, contentIndent });
+            } else {
+                top.contentIndent = contentIndent;
+            }
+
+            // 最上位のリストの種類が変わる場合は、後のリストが前の項目の下に入らないようリストを区切る
+            const ordered = /\d/.test(item[2]);
+            if (stack.length === 1 && topOrdered !== undefined && topOrdered !== ordered) {
+                output.push('', '//');
+            }
+            if (stack.length === 1) {
+                topOrdered = ordered;
+            }
+            const task = /^\[([ xX])\]\s+(.*)$/.exec(item[3] ?? '');
+            const marker = (ordered ? '.' : '*').repeat(stack.length);
+            const text = task ? `[${task[1] === ' ' ? ' ' : 'x'}] ${convertInline(task[2], context)}` : convertInline(item[3] ?? '', context);
+            output.push(`${marker} ${text}`);
+            afterBlank = false;
+            index++;
+            continue;
+        }
+
+        // 空行の後のインデントされたブロックは直前の項目に + で続ける
+        const owner = stack[stack.length - 1];
+        if (afterBlank || FENCE_PATTERN.test(line.trim())) {
+            const contentIndent = Math.min(indentOf(line), owner?.contentIndent ?? 0);
+            let end = index;
+            let fenceOpen = false;
+            while (end < lines.length) {
+                const current = lines[end];
+                if (FENCE_PATTERN.test(current.trim())) {
+                    fenceOpen = !fenceOpen;
+                } else if (!fenceOpen && !isBlank(current) && (LIST_ITEM_PATTERN.test(current) || indentOf(current) < contentIndent)) {
+                    break;
+                }
+                end++;
+            }
+            const blocks = convertBlocks(lines.slice(index, end).map(item => dedent(item, contentIndent)), context);
+            blocks.forEach(block => output.push('+', block));
+            afterBlank = false;
+            index = end;
+            continue;
+        }
+
+        // 項目の続きの行
+        output.push(convertInline(line.trim(), context));
+        index++;
+    }
+
+    return output.join('\n');
+}
+
+// インライン要素（コード・リンク・画像・強調）を変換する
+function convertInline(text: string, context: ConversionContext): string {
+    const held: string[] = [];
+    const hold = (value: string) => `\u0000${held.push(value) - 1}\u0000`;
+    const around = (source: string, offset: number, length: number) =>
+        isWordChar(source[offset - 1]) || isWordChar(source[offset + length]);
+
+    // \` でエスケープされたバッククォートはコードの開始としない
+    let result = text.replace(/(?<!\\)(`+)(.+?)\1/g, (match, _ticks, code: string, offset: number, source: string) => {
+        const literal = code.replace(/^ (.*) $/, '$1');
+        return hold(around(source, offset, match.length) ? `\`\`+${literal}+\`\`` : `\`+${literal}+\``);
+    });
+
+    result = result
+        .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_match, char: string) => hold(escapeCharacter(char)))
+        .replace(/<((?:https?|ftp|mailto):[^>\s]+)>/g, (_match, url: string) => hold(url))
+        .replace(/<br\s*\/?>/gi, () => hold(' +\n'));
+
+    // 画像とリンク（リンクの文字列は再帰的に変換する）
+    result = result
+        .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_match, alt: string, target: string) =>
+            hold(`image:${isExternal(target) ? target : context.rewritePath(target)}[${macroText(alt)}]`))
+        .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/g, (_match, label: string, target: string) =>
+            hold(renderLink(convertInline(label, context), target, context)))
+        .replace(/\[([^\]]+)\]\[([^\]]*)\]/g, (match, label: string, reference: string) => {
+            const target = context.references.get((reference || label).toLowerCase());
+            return target ? hold(renderLink(convertInline(label, context), target, context)) : match;
+        })
+        .replace(/\[([^\]]+)\](?![[(])/g, (match, label: string) => {
+            const target = context.references.get(label.toLowerCase());
+            return target ? hold(renderLink(convertInline(label, context), target, context)) : match;
+        });
+
+    // 強調（前後が文字の場合は制約なしの記法にする）
+    const emphasis = (pattern: RegExp, constrained: string, unconstrained: string) => {
+        result = result.replace(pattern, (match, _marker, inner: string, offset: number, source: string) => {
+            const mark = around(source, offset, match.length) ? unconstrained : constrained;
+            return `${hold(mark)}${inner}${hold(mark)}`;
+        });
+    };
+    emphasis(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '*', '**');
+    result = result.replace(/~~(?=\S)(.+?)(?<=\S)~~/g, (_match, inner: string) => `${hold('[.line-through]##')}${inner}${hold('##')}`);
+    emphasis(/(\*)(?=\S)(.+?)(?<=\S)\1/g, '_', '__');
+    emphasis(/(?<![\p{L}\p{N}])(_)(?=\S)(.+?)(?<=\S)\1(?![\p{L}\p{N}])/gu, '_', '__');
+
+    // Markdown では文字として表示される AsciiDoc の記法（#強調#、^上付き^、~下付き~、+パススルー+、<<相互参照>>）
+    // の記号は、対になる記号が後にある場合だけエスケープする
+    result = result
+        .replace(/<<(?=.*?>>)/g, () => hold('pass:c[<<]'))
+        .replace(/#(?=[^#]*#)|\+(?=[^+]*\+)|\^(?=[^\s^]+\^)|~(?=[^\s~]+~)/g, char => hold(escapeCharacter(char)));
+
+    // 属性参照として解釈されないよう { をエスケープする
+    result = result.replace(/\{(?=[\w-]+\})/g, '\\{');
+
+    return result.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => held[Number(index)]);
+}
+
+function renderLink(label: string, target: string, context: ConversionContext): string {
+    if (target.startsWith('#')) {
+        return `<<${toAnchorId(safeDecode(target.slice(1)))},${label}>>`;
+    }
+    if (isExternal(target)) {
+        // 下線などを含む URL は書式として解釈されないようにする
+        return /[_*~^`+]/.test(target) ? `link:++${target}++[${macroText(label)}]` : `${target}[${macroText(label)}]`;
+    }
+
+    const [file, fragment] = target.split('#', 2);
+    if (/\.(md|markdown)$/i.test(file)) {
+        const adoc = context.rewritePath(file.replace(/\.(md|markdown)$/i, '.adoc'));
+        return `xref:${adoc}${fragment ? `#${toAnchorId(safeDecode(fragment))}` : ''}[${macroText(label)}]`;
+    }
+    return `link:${context.rewritePath(file)}${fragment ? `#${fragment}` : ''}[${macroText(label)}]`;
+}
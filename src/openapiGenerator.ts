@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { mergeGeneratedRegions } from './generatedRegions';
+import { OPENAPI_REGION_PREFIX, loadOpenApiSpec, looksLikeOpenApi, renderOpenApiFiles } from './openapiRenderer';
+import { getResourceConfiguration, resolveProjectContext } from './projectContext';
+
+const SPEC_FILE_PATTERN = '**/*.{yaml,yml,json}';
+const MAX_SPEC_CANDIDATES = 200;
+
+// OpenAPI 定義から WebAPI 仕様書のインクルードファイルを生成・再生成する
+export class OpenApiGenerator {
+    async generate(uri?: vscode.Uri): Promise<void> {
+        const specFile = uri?.fsPath ?? await this.selectSpecFile();
+        if (!specFile) {
+            return;
+        }
+
+        try {
+            const spec = await loadOpenApiSpec(specFile);
+            const project = await resolveProjectContext(specFile);
+            const outputSetting = getResourceConfiguration(specFile).get<string>('openapi.outputDirectory', './api');
+            const outputDir = path.resolve(project.projectRoot, outputSetting);
+            const { files, operationCount } = renderOpenApiFiles(spec);
+
+            // 未保存の変更を上書きしないよう、対象のファイルが保存されていることを確認する
+            const targets = files.map(file => path.join(outputDir, file.name));
+            const unsaved = vscode.workspace.textDocuments.filter(document =>
+                document.isDirty && targets.some(target => path.resolve(target) === path.resolve(document.fileName))
+            );
+            if (unsaved.length > 0) {
+                vscode.window.showErrorMessage(`保存されていない変更があります: ${unsaved.map(document => path.basename(document.fileName)).join(', ')}`);
+                return;
+            }
+
+            let added = 0;
+            let updated = 0;
+            let removed = 0;
+            const written: string[] = [];
+
+            for (const file of files) {
+                const target = path.join(outputDir, file.name);
+                const existing = await fs.pathExists(target) ? await fs.readFile(target, 'utf8') : undefined;
+                const specPath = path.relative(path.dirname(target), specFile).split(path.sep).join('/');
+                const result = mergeGeneratedRegions(existing, file.regions, OPENAPI_REGION_PREFIX, [
+                    `// OpenAPI 定義（${specPath}）から生成したファイルです。`,
+                    '// 「// tag::openapi-...[]」から「// end::openapi-...[]」までは「Generate API Reference from OpenAPI」で再生成されます。',
+                    '// 範囲の外に書いた文章は再生成しても残ります。'
+                ]);
+
+                added += result.added.length;
+                updated += result.updated.length;
+                removed += result.removed.length;
+                if (result.text !== existing) {
+                    await fs.outputFile(target, result.text, 'utf8');
+                    written.push(target);
+                }
+            }
+
+            const summary = `${path.basename(specFile)} から ${operationCount}件のAPIを生成しました（追加 ${added} / 更新 ${updated} / 削除 ${removed}）。`;
+            const selection = await vscode.window.showInformationMessage(
+                written.length > 0 ? summary : `${path.basename(specFile)} の生成結果に変更はありません。`,
+                'エンドポイント一覧を開く',
+                'インクルードをコピー'
+            );
+            if (selection === 'エンドポイント一覧を開く') {
+                await vscode.window.showTextDocument(vscode.Uri.file(targets[0]));
+            } else if (selection === 'インクルードをコピー') {
+                // テンプレートのエントリドキュメントはプロジェクトルートにある
+                const includes = targets.map(target =>
+                    `include::${path.relative(project.projectRoot, target).split(path.sep).join('/')}[]`
+                );
+                await vscode.env.clipboard.writeText(includes.join('\n\n'));
+                vscode.window.showInformationMessage('インクルード行をクリップボードにコピーしました。');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`OpenAPI 定義からの生成に失敗しました: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // ワークスペース内の OpenAPI 3.x 定義ファイルを検索して選択する
+    private async selectSpecFile(): Promise<string | undefined> {
+        const files = await vscode.workspace.findFiles(SPEC_FILE_PATTERN, '**/node_modules/**', MAX_SPEC_CANDIDATES);
+        const candidates: string[] = [];
+        for (const file of files) {
+            try {
+                const head = (await fs.readFile(file.fsPath, 'utf8')).slice(0, 2000);
+                if (looksLikeOpenApi(head)) {
+                    candidates.push(file.fsPath);
+                }
+            } catch {
+                // 読み込めないファイルは候補にしない
+            }
+        }
+
+        if (candidates.length === 1) {
+            return candidates[0];
+        }
+        if (candidates.length === 0) {
+            const selected = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: '選択',
+                title: 'OpenAPI 定義ファイルを選択してください',
+                filters: { 'OpenAPI': ['yaml', 'yml', 'json'] }
+            });
+            return selected?.[0].fsPath;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            candidates.sort().map(file => ({
+                label: path.basename(file),
+                description: vscode.workspace.asRelativePath(file),
+                file
+            })),
+            { placeHolder: '生成に使用する OpenAPI 定義ファイルを選択してください' }
+        );
+        return selected?.file;
+    }
+}
@@ -0,0 +1,667 @@
+import * as fs from 'fs-extra';
+import * as YAML from 'yaml';
+import { GeneratedRegion } from './generatedRegions';
+
+// 生成した範囲のタグ名の接頭辞
+export const OPENAPI_REGION_PREFIX = 'openapi-';
+
+// OpenAPI 定義のうち、文書の生成に使用する項目
+export interface OpenApiSchema {
+    $ref?: string;
+    type?: string | string[];
+    format?: string;
+    title?: string;
+    description?: string;
+    properties?: Record<string, OpenApiSchema>;
+    required?: string[];
+    items?: OpenApiSchema;
+    allOf?: OpenApiSchema[];
+    oneOf?: OpenApiSchema[];
+    anyOf?: OpenApiSchema[];
+    additionalProperties?: boolean | OpenApiSchema;
+    enum?: unknown[];
+    const?: unknown;
+    default?: unknown;
+    example?: unknown;
+    examples?: unknown[];
+    nullable?: boolean;
+    readOnly?: boolean;
+    writeOnly?: boolean;
+    deprecated?: boolean;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    pattern?: string;
+}
+
+interface OpenApiExample {
+    $ref?: string;
+    summary?: string;
+    value?: unknown;
+}
+
+interface OpenApiMediaType {
+    schema?: OpenApiSchema;
+    example?: unknown;
+    examples?: Record<string, OpenApiExample>;
+}
+
+interface OpenApiParameter {
+    $ref?: string;
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie';
+    description?: string;
+    required?: boolean;
+    deprecated?: boolean;
+    schema?: OpenApiSchema;
+    example?: unknown;
+}
+
+interface OpenApiRequestBody {
+    $ref?: string;
+    description?: string;
+    required?: boolean;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiResponse {
+    $ref?: string;
+    description?: string;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface OpenApiOperation {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    deprecated?: boolean;
+    parameters?: OpenApiParameter[];
+    requestBody?: OpenApiRequestBody;
+    responses?: Record<string, OpenApiResponse>;
+    security?: SecurityRequirement[];
+}
+
+export interface OpenApiSpec {
+    openapi: string;
+    info?: { title?: string; version?: string; description?: string };
+    servers?: { url: string; description?: string }[];
+    tags?: { name: string; description?: string }[];
+    paths?: Record<string, Record<string, unknown>>;
+    components?: { schemas?: Record<string, OpenApiSchema> };
+    security?: SecurityRequirement[];
+}
+
+// 生成するファイル（出力ディレクトリからの相対パス）と範囲
+export interface GeneratedFile {
+    name: string;
+    regions: GeneratedRegion[];
+}
+
+interface ApiOperation {
+    id: string;
+    method: string;
+    path: string;
+    tag: string;
+    operation: OpenApiOperation;
+    parameters: OpenApiParameter[];
+}
+
+interface SchemaField {
+    name: string;
+    type: string;
+    required: boolean;
+    description: string;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const UNTAGGED = 'その他';
+const MAX_FIELD_DEPTH = 5;
+const MAX_REF_DEPTH = 20;
+
+const PARAMETER_LOCATIONS: [OpenApiParameter['in'], string][] = [
+    ['path', 'パスパラメータ'],
+    ['query', 'クエリパラメータ'],
+    ['header', 'リクエストヘッダー'],
+    ['cookie', 'Cookie']
+];
+
+const STATUS_TEXTS: Record<string, string> = {
+    '200': 'OK', '201': 'Created', '202': 'Accepted', '204': 'No Content',
+    '301': 'Moved Permanently', '302': 'Found', '304': 'Not Modified',
+    '400': 'Bad Request', '401': 'Unauthorized', '403': 'Forbidden', '404': 'Not Found',
+    '405': 'Method Not Allowed', '409': 'Conflict', '410': 'Gone', '415': 'Unsupported Media Type',
+    '422': 'Unprocessable Entity', '429': 'Too Many Requests',
+    '500': 'Internal Server Error', '502': 'Bad Gateway', '503': 'Service Unavailable', '504': 'Gateway Timeout',
+    default: 'その他のレスポンス'
+};
+
+// OpenAPI 3.x の定義ファイル（YAML / JSON）を読み込む
+export async function loadOpenApiSpec(filePath: string): Promise<OpenApiSpec> {
+    const spec = YAML.parse(await fs.readFile(filePath, 'utf8')) as Partial<OpenApiSpec> & { swagger?: string } | null;
+    if (!spec || typeof spec !== 'object') {
+        throw new Error('OpenAPI 定義として読み込めません。');
+    }
+    if (spec.swagger) {
+        throw new Error(`Swagger ${spec.swagger} には対応していません。OpenAPI 3.x に変換してください。`);
+    }
+    if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+        throw new Error('openapi: 3.x の宣言がありません。');
+    }
+    return spec as OpenApiSpec;
+}
+
+// ファイルの先頭が OpenAPI 3.x の宣言か（ワークスペース内の定義ファイルの検索用）
+export function looksLikeOpenApi(text: string): boolean {
+    return /^\s*["']?openapi["']?\s*:\s*["']?3\./m.test(text);
+}
+
+// タグ名・operationId を範囲のタグ名に使える文字列にする
+function toRegionId(...parts: string[]): string {
+    const slug = parts.join('-').replace(/[^\p{L}\p{N}_-]+/gu, '-').replace(/-{2,}/g, '-').replace(/^-+|-+$/g, '');
+    return `${OPENAPI_REGION_PREFIX}${slug || 'untitled'}`;
+}
+
+// 属性参照として解釈されないよう { をエスケープする
+function escapeText(text: string): string {
+    return text.replace(/\{(?=[\w-]+\})/g, '\\{');
+}
+
+// 表のセルの値（改行をまとめ、区切り文字をエスケープする）
+function escapeCell(text: string | undefined): string {
+    const value = text?.replace(/\s+/g, ' ').trim();
+    return value ? escapeText(value).replace(/\|/g, '\\|') : '-';
+}
+
+// パスなどを置換なしのモノスペースで表示する
+function literal(text: string): string {
+    return `\`+${text}+\``;
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// ドキュメント内の $ref（#/components/... 形式）をたどる
+function resolveRef<T extends { $ref?: string }>(spec: OpenApiSpec, value: T | undefined): T | undefined {
+    let current = value;
+    for (let depth = 0; current?.$ref && depth < MAX_REF_DEPTH; depth++) {
+        if (!current.$ref.startsWith('#/')) {
+            return current;
+        }
+        let target: unknown = spec;
+        for (const part of current.$ref.slice(2).split('/')) {
+            const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+            target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+        }
+        current = target as T | undefined;
+    }
+    return current;
+}
+
+function refName(schema: OpenApiSchema | undefined): string | undefined {
+    return schema?.$ref?.split('/').pop();
+}
+
+// allOf の各スキーマのプロパティと必須項目をまとめる
+function mergeAllOf(target: OpenApiSchema | undefined, spec: OpenApiSpec): OpenApiSchema | undefined {
+    const schema = resolveRef(spec, target);
+    if (!schema?.allOf) {
+        return schema;
+    }
+    const merged: OpenApiSchema = { ...schema, allOf: undefined, properties: { ...schema.properties }, required: [...schema.required ?? []] };
+    for (const part of schema.allOf.map(item => mergeAllOf(item, spec))) {
+        Object.assign(merged.properties!, part?.properties);
+        merged.required!.push(...part?.required ?? []);
+        merged.type = merged.type ?? part?.type;
+        merged.description = merged.description ?? part?.description;
+    }
+    return merged;
+}
+
+function primaryType(schema: OpenApiSchema): string | undefined {
+    return Array.isArray(schema.type) ? schema.type.find(type => type !== 'null') : schema.type;
+}
+
+function isNullable(schema: OpenApiSchema): boolean {
+    return Boolean(schema.nullable) || (Array.isArray(schema.type) && schema.type.includes('null'));
+}
+
+// 表に表示する型（参照先のスキーマはスキーマ名で表示する）
+function schemaType(schema: OpenApiSchema | undefined, spec: OpenApiSpec): string {
+    // allOf で1つのスキーマを参照するだけの場合もスキーマ名で表示する
+    const name = refName(schema) ?? (schema?.allOf?.length === 1 && !schema.properties ? refName(schema.allOf[0]) : undefined);
+    const resolved = mergeAllOf(schema, spec);
+    if (!resolved) {
+        return name ?? '-';
+    }
+    if (resolved.oneOf || resolved.anyOf) {
+        return (resolved.oneOf ?? resolved.anyOf)!.map(item => schemaType(item, spec)).join(' / ');
+    }
+
+    const type = primaryType(resolved) ?? (resolved.properties ? 'object' : undefined);
+    if (type === 'array') {
+        return `array<${schemaType(resolved.items, spec)}>`;
+    }
+    if (name && (type === 'object' || !type)) {
+        return name;
+    }
+    return type ? `${type}${resolved.format ? `(${resolved.format})` : ''}` : name ?? 'any';
+}
+
+function formatRange(min: number | undefined, max: number | undefined, unit: string): string | undefined {
+    if (min !== undefined && max !== undefined) {
+        return `${min}〜${max}${unit}`;
+    }
+    if (min !== undefined) {
+        return `${min}${unit}以上`;
+    }
+    return max !== undefined ? `${max}${unit}以内` : undefined;
+}
+
+// 説明に制約（列挙値・既定値・範囲など）を書き添える
+function describeSchema(description: string | undefined, schema: OpenApiSchema | undefined, spec: OpenApiSpec): string {
+    const resolved = mergeAllOf(schema, spec);
+    const notes: string[] = [];
+    if (resolved) {
+        if (resolved.enum) {
+            notes.push(`値: ${resolved.enum.map(formatValue).join(', ')}`);
+        }
+        if (resolved.default !== undefined) {
+            notes.push(`デフォルト: ${formatValue(resolved.default)}`);
+        }
+        const length = formatRange(resolved.minLength, resolved.maxLength, '文字');
+        if (length) {
+            notes.push(length);
+        }
+        if (resolved.minimum !== undefined) {
+            notes.push(`最小: ${resolved.minimum}`);
+        }
+        if (resolved.maximum !== undefined) {
+            notes.push(`最大: ${resolved.maximum}`);
+        }
+        const items = formatRange(resolved.minItems, resolved.maxItems, '件');
+        if (items) {
+            notes.push(items);
+        }
+        if (resolved.pattern) {
+            notes.push(`形式: ${resolved.pattern}`);
+        }
+        if (isNullable(resolved)) {
+            notes.push('null 可');
+        }
+        if (resolved.readOnly) {
+            notes.push('読み取り専用');
+        }
+        if (resolved.writeOnly) {
+            notes.push('書き込み専用');
+        }
+        if (resolved.deprecated) {
+            notes.push('非推奨');
+        }
+    }
+    const text = description ?? resolved?.description ?? resolved?.title ?? '';
+    if (notes.length === 0) {
+        return text;
+    }
+    return text ? `${text}（${notes.join('、')}）` : notes.join('、');
+}
+
+// オブジェクトのプロパティを「親.子」「配列[].子」の形式で平坦にする
+function collectFields(
+    schema: OpenApiSchema | undefined,
+    spec: OpenApiSpec,
+    prefix = '',
+    depth = 0,
+    visiting = new Set<OpenApiSchema>()
+): SchemaField[] {
+    const resolved = mergeAllOf(schema, spec);
+    if (!resolved || depth > MAX_FIELD_DEPTH || visiting.has(resolved)) {
+        return [];
+    }
+    if (primaryType(resolved) === 'array' && resolved.items) {
+        return collectFields(resolved.items, spec, `${prefix}[].`, depth + 1, visiting);
+    }
+
+    visiting.add(resolved);
+    const fields: SchemaField[] = [];
+    for (const [name, property] of Object.entries(resolved.properties ?? {})) {
+        const fieldName = `${prefix}${name}`;
+        fields.push({
+            name: fieldName,
+            type: schemaType(property, spec),
+            required: resolved.required?.includes(name) ?? false,
+            description: describeSchema(property.description, property, spec)
+        });
+        fields.push(...collectFields(property, spec, `${fieldName}.`, depth + 1, visiting));
+    }
+    visiting.delete(resolved);
+    return fields.map(field => ({ ...field, name: field.name.replace(/\.\[\]/g, '[]') }));
+}
+
+// スキーマから例を組み立てる（example・default・列挙値の先頭を優先する）
+function sampleFromSchema(schema: OpenApiSchema | undefined, spec: OpenApiSpec, depth = 0, visiting = new Set<OpenApiSchema>()): unknown {
+    const resolved = mergeAllOf(schema, spec);
+    if (!resolved || depth > MAX_FIELD_DEPTH || visiting.has(resolved)) {
+        return undefined;
+    }
+    if (resolved.example !== undefined) {
+        return resolved.example;
+    }
+    if (resolved.examples?.length) {
+        return resolved.examples[0];
+    }
+    if (resolved.const !== undefined) {
+        return resolved.const;
+    }
+    if (resolved.default !== undefined) {
+        return resolved.default;
+    }
+    if (resolved.enum?.length) {
+        return resolved.enum[0];
+    }
+    if (resolved.oneOf || resolved.anyOf) {
+        return sampleFromSchema((resolved.oneOf ?? resolved.anyOf)![0], spec, depth + 1, visiting);
+    }
+
+    visiting.add(resolved);
+    try {
+        switch (primaryType(resolved) ?? (resolved.properties ? 'object' : undefined)) {
+            case 'object': {
+                const sample: Record<string, unknown> = {};
+                for (const [name, property] of Object.entries(resolved.properties ?? {})) {
+                    sample[name] = sampleFromSchema(property, spec, depth + 1, visiting);
+                }
+                return sample;
+            }
+            case 'array': {
+                const item = sampleFromSchema(resolved.items, spec, depth + 1, visiting);
+                return item === undefined ? [] : [item];
+            }
+            case 'string':
+                return {
+                    'date-time': '2025-01-01T00:00:00Z',
+                    date: '2025-01-01',
+                    email: 'user@example.com',
+                    uuid: '00000000-0000-0000-0000-000000000000',
+                    uri: 'https://example.com/'
+                }[resolved.format ?? ''] ?? 'string';
+            case 'integer':
+            case 'number':
+                return resolved.minimum ?? 0;
+            case 'boolean':
+                return true;
+            default:
+                return undefined;
+        }
+    } finally {
+        visiting.delete(resolved);
+    }
+}
+
+function mediaExample(media: OpenApiMediaType, spec: OpenApiSpec): unknown {
+    if (media.example !== undefined) {
+        return media.example;
+    }
+    const first = Object.values(media.examples ?? {})[0];
+    if (first) {
+        return resolveRef(spec, first)?.value;
+    }
+    return sampleFromSchema(media.schema, spec);
+}
+
+function renderFieldTable(fields: SchemaField[], nameHeader: string): string[] {
+    return [
+        '[cols="1,1,1,3", options="header"]',
+        '|===',
+        `|${nameHeader} |型 |必須 |説明`,
+        ...fields.flatMap(field => [
+            '',
+            `|${escapeCell(field.name)}`,
+            `|${escapeCell(field.type)}`,
+            `|${field.required ? '必須' : '任意'}`,
+            `|${escapeCell(field.description)}`
+        ]),
+        '|==='
+    ];
+}
+
+function renderExample(contentType: string, example: unknown): string[] {
+    if (example === undefined) {
+        return [];
+    }
+    const isJson = /json/i.test(contentType);
+    const text = typeof example === 'string' && !isJson ? example : JSON.stringify(example, null, 2);
+    return ['', '.例', isJson ? '[source,json]' : '[source]', '----', text, '----'];
+}
+
+function renderMediaTypes(content: Record<string, OpenApiMediaType> | undefined, spec: OpenApiSpec): string[] {
+    const lines: string[] = [];
+    for (const [contentType, media] of Object.entries(content ?? {})) {
+        const fields = collectFields(media.schema, spec);
+        lines.push('', `${literal(contentType)}${media.schema ? ` （${escapeText(schemaType(media.schema, spec))}）` : ''}`);
+        if (fields.length > 0) {
+            lines.push('', ...renderFieldTable(fields, 'フィールド名'));
+        }
+        lines.push(...renderExample(contentType, mediaExample(media, spec)));
+    }
+    return lines;
+}
+
+// 認証の要否（security が空の場合は不要、空の要件を含む場合は任意）
+function describeSecurity(requirements: SecurityRequirement[] | undefined): string {
+    if (!requirements || requirements.length === 0) {
+        return '不要';
+    }
+    const schemes = [...new Set(requirements.flatMap(requirement => Object.keys(requirement)))];
+    const optional = requirements.some(requirement => Object.keys(requirement).length === 0);
+    return `${optional ? '任意' : '必要'}${schemes.length > 0 ? `（${schemes.join(', ')}）` : ''}`;
+}
+
+// パスの順・メソッドの順に操作を取り出す（パス共通のパラメータは操作のパラメータで上書きする）
+function collectOperations(spec: OpenApiSpec): ApiOperation[] {
+    const operations: ApiOperation[] = [];
+    const usedIds = new Set<string>();
+
+    for (const [apiPath, pathItem] of Object.entries(spec.paths ?? {})) {
+        const sharedParameters = (pathItem.parameters as OpenApiParameter[] | undefined ?? []).map(parameter => resolveRef(spec, parameter)!);
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method] as OpenApiOperation | undefined;
+            if (!operation) {
+                continue;
+            }
+
+            const parameters = new Map<string, OpenApiParameter>();
+            for (const parameter of [...sharedParameters, ...(operation.parameters ?? []).map(item => resolveRef(spec, item)!)]) {
+                if (parameter) {
+                    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+                }
+            }
+
+            const name = operation.operationId ?? `${method}-${apiPath}`;
+            let id = toRegionId('op', name);
+            for (let suffix = 2; usedIds.has(id); suffix++) {
+                id = toRegionId('op', name, String(suffix));
+            }
+            usedIds.add(id);
+
+            operations.push({
+                id,
+                method: method.toUpperCase(),
+                path: apiPath,
+                tag: operation.tags?.[0] ?? UNTAGGED,
+                operation,
+                parameters: [...parameters.values()]
+            });
+        }
+    }
+    return operations;
+}
+
+// 定義済みのタグの順に並べ、未定義のタグは出現順、タグなしは最後にする
+function groupByTag(spec: OpenApiSpec, operations: ApiOperation[]): Map<string, ApiOperation[]> {
+    const groups = new Map<string, ApiOperation[]>();
+    for (const tag of spec.tags ?? []) {
+        groups.set(tag.name, []);
+    }
+    for (const operation of operations.filter(item => item.tag !== UNTAGGED)) {
+        groups.set(operation.tag, [...groups.get(operation.tag) ?? [], operation]);
+    }
+    groups.set(UNTAGGED, operations.filter(item => item.tag === UNTAGGED));
+    return new Map([...groups].filter(([, items]) => items.length > 0));
+}
+
+function operationTitle(item: ApiOperation): string {
+    return item.operation.summary ?? item.operation.operationId ?? `${item.method} ${item.path}`;
+}
+
+function renderOperation(item: ApiOperation, spec: OpenApiSpec): string {
+    const { operation } = item;
+    const lines = [`==== ${escapeText(operationTitle(item))}`];
+    if (operation.description) {
+        lines.push('', escapeText(operation.description.trim()));
+    }
+
+    lines.push(
+        '',
+        '* 基本情報',
+        '',
+        '[cols="1,3"]',
+        '|===',
+        '|項目 |値',
+        '',
+        '|エンドポイント',
+        `|${literal(`${item.method} ${item.path}`)}`,
+        '',
+        '|認証',
+        `|${describeSecurity(operation.security ?? spec.security)}`,
+        '',
+        '|説明',
+        `|${escapeCell(operation.summary ?? operation.description)}`
+    );
+    if (operation.operationId) {
+        lines.push('', '|operationId', `|${literal(operation.operationId)}`);
+    }
+    if (operation.deprecated) {
+        lines.push('', '|非推奨', '|この API は非推奨です');
+    }
+    lines.push('|===');
+
+    for (const [location, label] of PARAMETER_LOCATIONS) {
+        const parameters = item.parameters.filter(parameter => parameter.in === location);
+        if (parameters.length === 0) {
+            continue;
+        }
+        lines.push('', `* ${label}`, '', ...renderFieldTable(parameters.map(parameter => ({
+            name: parameter.name,
+            type: schemaType(parameter.schema, spec),
+            required: parameter.required ?? false,
+            description: describeSchema(parameter.description, parameter.schema, spec)
+                + (parameter.deprecated ? '（非推奨）' : '')
+                + (parameter.example !== undefined ? `（例: ${formatValue(parameter.example)}）` : '')
+        })), 'パラメータ名'));
+    }
+
+    const requestBody = resolveRef(spec, operation.requestBody);
+    if (requestBody) {
+        lines.push('', `* リクエストボディ（${requestBody.required ? '必須' : '任意'}）`);
+        if (requestBody.description) {
+            lines.push('', escapeText(requestBody.description.trim()));
+        }
+        lines.push(...renderMediaTypes(requestBody.content, spec));
+    }
+
+    for (const [status, responseRef] of Object.entries(operation.responses ?? {})) {
+        const response = resolveRef(spec, responseRef);
+        const statusText = STATUS_TEXTS[status] ?? STATUS_TEXTS[status.replace(/XX$/i, '00')];
+        lines.push('', `* レスポンス（${status === 'default' ? statusText : `${status}${statusText ? ` ${statusText}` : ''}`}）`);
+        if (response?.description) {
+            lines.push('', escapeText(response.description.trim()));
+        }
+        lines.push(...renderMediaTypes(response?.content, spec));
+    }
+
+    return lines.join('\n');
+}
+
+function renderEndpointTable(operations: ApiOperation[], spec: OpenApiSpec): string[] {
+    return [
+        '[cols="1,2,3,2", options="header"]',
+        '|===',
+        '|メソッド |エンドポイント |説明 |認証',
+        ...operations.flatMap(item => [
+            '',
+            `|${item.method}`,
+            `|${literal(item.path)}`,
+            `|${escapeCell(item.operation.summary ?? item.operation.description)}`,
+            `|${describeSecurity(item.operation.security ?? spec.security)}`
+        ]),
+        '|==='
+    ];
+}
+
+function renderSchema(name: string, schema: OpenApiSchema, spec: OpenApiSpec): string {
+    const resolved = mergeAllOf(schema, spec) ?? schema;
+    const lines = [`=== ${escapeText(name)}`];
+    if (resolved.description ?? resolved.title) {
+        lines.push('', escapeText((resolved.description ?? resolved.title)!.trim()));
+    }
+
+    const fields = collectFields(schema, spec);
+    if (fields.length > 0) {
+        lines.push('', ...renderFieldTable(fields, 'フィールド名'));
+    } else {
+        lines.push('', `型: ${literal(schemaType(schema, spec))}${resolved.enum ? `（値: ${resolved.enum.map(formatValue).join(', ')}）` : ''}`);
+    }
+    return lines.join('\n');
+}
+
+// テンプレートの構成（エンドポイント一覧・API詳細仕様・スキーマ定義）に合わせた範囲を生成する
+export function renderOpenApiFiles(spec: OpenApiSpec): { files: GeneratedFile[]; operationCount: number } {
+    const operations = collectOperations(spec);
+    const groups = groupByTag(spec, operations);
+    const tagDescription = (tag: string) => spec.tags?.find(item => item.name === tag)?.description;
+
+    const endpoints: GeneratedRegion[] = [];
+    if (spec.servers?.length) {
+        endpoints.push({
+            id: `${OPENAPI_REGION_PREFIX}servers`,
+            content: [
+                '.ベースURL',
+                '[cols="2,3", options="header"]',
+                '|===',
+                '|URL |説明',
+                ...spec.servers.flatMap(server => ['', `|${literal(server.url)}`, `|${escapeCell(server.description)}`]),
+                '|==='
+            ].join('\n')
+        });
+    }
+    const details: GeneratedRegion[] = [];
+
+    for (const [tag, items] of groups) {
+        const description = tagDescription(tag);
+        const heading = [`=== ${escapeText(tag)}`, ...(description ? ['', escapeText(description.trim())] : [])];
+        endpoints.push({ id: toRegionId('endpoints', tag), content: [...heading, '', ...renderEndpointTable(items, spec)].join('\n') });
+        details.push({ id: toRegionId('tag', tag), content: heading.join('\n') });
+        details.push(...items.map(item => ({ id: item.id, content: renderOperation(item, spec) })));
+    }
+
+    const schemas = Object.entries(spec.components?.schemas ?? {}).map(([name, schema]) => ({
+        id: toRegionId('schema', name),
+        content: renderSchema(name, schema, spec)
+    }));
+
+    const files: GeneratedFile[] = [
+        { name: 'endpoints.adoc', regions: endpoints },
+        { name: 'operations.adoc', regions: details }
+    ];
+    if (schemas.length > 0) {
+        files.push({ name: 'schemas.adoc', regions: schemas });
+    }
+    return { files, operationCount: operations.length };
+}
@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BuildManager } from './buildManager';
+import { DocumentReference, createReferenceContext, parseDocumentReferences } from './includeGraph';
+import { parseSections } from './documentStructure';
+import { EntryDocument, collectEntryDocuments } from './projectManifest';
+
+const REFRESH_PATTERN = '**/*.{adoc,asciidoc,yml,yaml,png,jpg,jpeg,gif,svg,puml}';
+const REFRESH_DELAY = 500;
+
+const REFERENCE_ICONS: Record<DocumentReference['kind'], string> = {
+    include: 'file-symlink-file',
+    image: 'file-media',
+    diagram: 'type-hierarchy',
+    theme: 'symbol-color'
+};
+
+type OutlineNode = EntryNode | GroupNode | SectionNode | ReferenceNode;
+
+interface EntryNode {
+    type: 'entry';
+    entry: EntryDocument;
+    title?: string;
+    brokenCount: number;
+    children: OutlineNode[];
+}
+
+interface GroupNode {
+    type: 'group';
+    label: string;
+    icon: string;
+    entry: EntryDocument;
+    children: OutlineNode[];
+}
+
+interface SectionNode {
+    type: 'section';
+    title: string;
+    level: number;
+    filePath: string;
+    line: number;
+    entry: EntryDocument;
+    children: SectionNode[];
+}
+
+interface ReferenceNode {
+    type: 'reference';
+    reference: DocumentReference;
+    sourceFile: string;
+    exists: boolean;
+    // インクルードの循環を検出した場合
+    circular: boolean;
+    entry: EntryDocument;
+    children: ReferenceNode[];
+}
+
+// エントリドキュメントごとの見出し構成とインクルードツリーを表示する
+export class OutlineProvider implements vscode.TreeDataProvider<OutlineNode> {
+    public static readonly viewType = 'asciidocOutline';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<OutlineNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private roots?: Promise<EntryNode[]>;
+    private refreshTimer?: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly buildManager: BuildManager) {
+        const watcher = vscode.workspace.createFileSystemWatcher(REFRESH_PATTERN);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.scheduleRefresh()),
+            watcher.onDidDelete(() => this.scheduleRefresh()),
+            watcher.onDidChange(() => this.scheduleRefresh()),
+            this._onDidChangeTreeData
+        );
+    }
+
+    refresh(): void {
+        this.roots = undefined;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, REFRESH_DELAY);
+    }
+
+    async getChildren(node?: OutlineNode): Promise<OutlineNode[]> {
+        if (node) {
+            return node.children;
+        }
+
+        if (!this.roots) {
+            this.roots = this.loadEntries();
+        }
+        return this.roots;
+    }
+
+    getTreeItem(node: OutlineNode): vscode.TreeItem {
+        const collapsible = (expanded: boolean) => node.children.length === 0
+            ? vscode.TreeItemCollapsibleState.None
+            : expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+
+        switch (node.type) {
+            case 'entry': {
+                const filePath = node.entry.target.filePath;
+                const item = new vscode.TreeItem(node.title ?? path.basename(filePath), collapsible(true));
+                item.description = node.brokenCount > 0
+                    ? `${vscode.workspace.asRelativePath(filePath)}  参照エラー ${node.brokenCount}件`
+                    : vscode.workspace.asRelativePath(filePath);
+                item.tooltip = filePath;
+                item.iconPath = new vscode.ThemeIcon(node.brokenCount > 0 ? 'warning' : 'book');
+                item.contextValue = 'entry';
+                item.command = this.createOpenCommand(filePath);
+                return item;
+            }
+            case 'group': {
+                const item = new vscode.TreeItem(node.label, collapsible(false));
+                item.iconPath = new vscode.ThemeIcon(node.icon);
+                return item;
+            }
+            case 'section': {
+                const item = new vscode.TreeItem(node.title, collapsible(false));
+                item.description = path.basename(node.filePath);
+                item.tooltip = `${node.filePath}:${node.line + 1}`;
+                item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                item.contextValue = 'documentPart';
+                item.command = this.createOpenCommand(node.filePath, node.line);
+                return item;
+            }
+            case 'reference': {
+                const { reference } = node;
+                const item = new vscode.TreeItem(reference.target, collapsible(false));
+                item.tooltip = `${reference.path}\n${node.sourceFile}:${reference.line + 1}`;
+                if (!node.exists) {
+                    item.description = '見つかりません';
+                    item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+                    // 参照元の行へ移動して修正できるようにする
+                    item.command = this.createOpenCommand(node.sourceFile, reference.line);
+                } else {
+                    item.description = node.circular ? '循環インクルード' : undefined;
+                    item.iconPath = new vscode.ThemeIcon(node.circular ? 'warning' : REFERENCE_ICONS[reference.kind]);
+                    item.command = this.createOpenCommand(reference.path);
+                }
+                item.contextValue = reference.kind === 'include' ? 'documentPart' : 'asset';
+                return item;
+            }
+        }
+    }
+
+    // ノードが属するエントリドキュメントをビルドする
+    async buildDocument(node?: OutlineNode): Promise<void> {
+        if (!node) {
+            return;
+        }
+        await this.buildManager.buildDocuments([node.entry.target]);
+    }
+
+    private createOpenCommand(filePath: string, line?: number): vscode.Command {
+        const options: vscode.TextDocumentShowOptions | undefined = line !== undefined
+            ? { selection: new vscode.Range(line, 0, line, 0) }
+            : undefined;
+        return {
+            command: 'vscode.open',
+            title: '開く',
+            arguments: options ? [vscode.Uri.file(filePath), options] : [vscode.Uri.file(filePath)]
+        };
+    }
+
+    private async loadEntries(): Promise<EntryNode[]> {
+        const entries = await collectEntryDocuments();
+        const nodes: EntryNode[] = [];
+        for (const entry of entries) {
+            nodes.push(await this.createEntryNode(entry));
+        }
+        return nodes;
+    }
+
+    // インクルードをたどりながら見出しと参照ファイルのツリーを組み立てる
+    private async createEntryNode(entry: EntryDocument): Promise<EntryNode> {
+        const entryFile = path.resolve(entry.target.filePath);
+        const context = createReferenceContext(entryFile);
+        const flatSections: Omit<SectionNode, 'children' | 'entry'>[] = [];
+        let brokenCount = 0;
+
+        const visit = async (filePath: string, levelOffset: number, ancestors: Set<string>): Promise<ReferenceNode[]> => {
+            let text: string;
+            try {
+                text = await fs.readFile(filePath, 'utf8');
+            } catch {
+                return [];
+            }
+
+            const lines = text.split(/\r?\n/);
+            const references = parseDocumentReferences(filePath, text, context);
+            const sections = parseSections(text);
+            const referenceNodes: ReferenceNode[] = [];
+            let sectionIndex = 0;
+
+            const flushSections = (beforeLine: number) => {
+                while (sectionIndex < sections.length && sections[sectionIndex].line < beforeLine) {
+                    const section = sections[sectionIndex++];
+                    flatSections.push({
+                        type: 'section',
+                        title: section.title,
+                        level: section.level + levelOffset,
+                        filePath,
+                        line: section.line
+                    });
+                }
+            };
+
+            for (const reference of references) {
+                flushSections(reference.line);
+
+                const exists = await fs.pathExists(reference.path);
+                const circular = ancestors.has(reference.path);
+                const node: ReferenceNode = {
+                    type: 'reference',
+                    reference,
+                    sourceFile: filePath,
+                    exists,
+                    circular,
+                    entry,
+                    children: []
+                };
+                if (!exists) {
+                    brokenCount++;
+                }
+
+                if (reference.kind === 'include' && exists && !circular && /\.(adoc|asciidoc)$/i.test(reference.path)) {
+                    const offset = /leveloffset=([+-]?)(\d+)/.exec(lines[reference.line] ?? '');
+                    const childOffset = !offset
+                        ? levelOffset
+                        : offset[1] === '-' ? levelOffset - Number(offset[2])
+                        : offset[1] === '+' ? levelOffset + Number(offset[2])
+                        : Number(offset[2]);
+                    node.children = await visit(reference.path, childOffset, new Set([...ancestors, reference.path]));
+                }
+                referenceNodes.push(node);
+            }
+            flushSections(Number.MAX_SAFE_INTEGER);
+
+            return referenceNodes;
+        };
+
+        const referenceNodes = await visit(entryFile, 0, new Set([entryFile]));
+
+        // 見出しレベルに従って階層化する（level 0 は文書タイトル）
+        const title = flatSections.find(section => section.level === 0 && section.filePath === entryFile)?.title;
+        const sectionRoots: SectionNode[] = [];
+        const stack: SectionNode[] = [];
+        for (const flat of flatSections.filter(section => section.level > 0)) {
+            const node: SectionNode = { ...flat, entry, children: [] };
+            while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+                stack.pop();
+            }
+            (stack.length > 0 ? stack[stack.length - 1].children : sectionRoots).push(node);
+            stack.push(node);
+        }
+
+        const children: OutlineNode[] = [];
+        if (sectionRoots.length > 0) {
+            children.push({ type: 'group', label: '見出し', icon: 'list-tree', entry, children: sectionRoots });
+        }
+        if (referenceNodes.length > 0) {
+            children.push({ type: 'group', label: '参照ファイル', icon: 'references', entry, children: referenceNodes });
+        }
+
+        return { type: 'entry', entry, title, brokenCount, children };
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,32 @@
+export type OutputFormat = 'pdf' | 'html5' | 'epub3';
+
+interface OutputFormatInfo {
+    label: string;
+    extension: string;
+    pathConfigKey: string;
+    defaultCommand: string;
+}
+
+// 出力形式ごとのバックエンド定義
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+    pdf: {
+        label: 'PDF',
+        extension: '.pdf',
+        pathConfigKey: 'build.nativeAsciidoctorPath',
+        defaultCommand: 'asciidoctor-pdf'
+    },
+    html5: {
+        label: 'HTML',
+        extension: '.html',
+        pathConfigKey: 'build.nativeAsciidoctorHtmlPath',
+        defaultCommand: 'asciidoctor'
+    },
+    epub3: {
+        label: 'EPUB',
+        extension: '.epub',
+        pathConfigKey: 'build.nativeAsciidoctorEpubPath',
+        defaultCommand: 'asciidoctor-epub3'
+    }
+};
+
+export const ALL_OUTPUT_FORMATS = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
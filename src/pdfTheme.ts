@@ -0,0 +1,518 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Document, LineCounter, Node, isMap, isNode, isScalar, isSeq, parseDocument, stringify } from 'yaml';
+
+export type ThemeIssueSeverity = 'error' | 'warning';
+
+// テーマの検証で見つかった問題（line は0始まり）
+export interface ThemeIssue {
+    severity: ThemeIssueSeverity;
+    message: string;
+    file: string;
+    line: number;
+    key?: string;
+}
+
+// キーを連結した値（heading: h2_font_size → heading_h2_font_size）
+export interface ThemeEntry {
+    value: unknown;
+    file: string;
+    line: number;
+}
+
+export interface LoadedTheme {
+    file: string;
+    // 読み込んだテーマファイル（継承元を先に、最後が対象のテーマ）
+    chain: string[];
+    // 組み込みテーマ（default / base）を継承しているか
+    extendsBuiltin: boolean;
+    values: Map<string, ThemeEntry>;
+    fontCatalog: Map<string, ThemeEntry>;
+    issues: ThemeIssue[];
+}
+
+const BUILTIN_THEMES = ['default', 'base', 'default-with-font-fallbacks', 'default-with-fallback-font', 'default-sans', 'default-sans-with-font-fallbacks'];
+// PDF標準フォントはカタログなしで使用できる
+const STANDARD_FONT_FAMILIES = ['Helvetica', 'Times-Roman', 'Courier'];
+// 組み込みの default テーマのフォントカタログ
+const DEFAULT_THEME_FONT_FAMILIES = ['Noto Serif', 'Noto Sans', 'M+ 1mn', 'M+ 1p Fallback', 'Noto Emoji'];
+const FONT_STYLES = ['normal', 'bold', 'italic', 'bold_italic'];
+
+// asciidoctor-pdf のテーマで使用できるカテゴリ
+const THEME_CATEGORIES = [
+    'abstract', 'admonition', 'base', 'block', 'button', 'callout_list', 'caption', 'code', 'codespan', 'conum',
+    'cover', 'description_list', 'example', 'extends', 'font', 'footer', 'footnotes', 'header', 'heading',
+    'horizontal_rhythm', 'image', 'index', 'kbd', 'link', 'list', 'mark', 'menu', 'page', 'prose', 'quote',
+    'role', 'running_content', 'section', 'sidebar', 'svg', 'table', 'thematic_break', 'title_page', 'toc',
+    'verse', 'vertical_rhythm'
+].sort((a, b) => b.length - a.length);
+
+const PAGE_SIZE_PATTERN = /^(4A0|2A0|[ABC]\d|[ABC]10|S?RA[0-4]|EXECUTIVE|FOLIO|LEGAL|LETTER|TABLOID)$/i;
+const COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const VARIABLE_PATTERN = /\$([a-z][\w-]*)/gi;
+const ENUM_VALUES: { suffix: string; values: string[] }[] = [
+    { suffix: 'font_style', values: ['normal', 'bold', 'italic', 'bold_italic', 'normal_italic'] },
+    { suffix: 'text_align', values: ['left', 'center', 'right', 'justify'] },
+    { suffix: 'page_layout', values: ['portrait', 'landscape'] }
+];
+
+// 用紙サイズ（ポイント、縦向き）
+export const PAGE_SIZES: Record<string, [number, number]> = {
+    A3: [841.89, 1190.55],
+    A4: [595.28, 841.89],
+    A5: [419.53, 595.28],
+    B4: [708.66, 1000.63],
+    B5: [498.9, 708.66],
+    LETTER: [612, 792],
+    LEGAL: [612, 1008]
+};
+
+const UNIT_TO_POINTS: Record<string, number> = { pt: 1, px: 0.75, in: 72, mm: 72 / 25.4, cm: 72 / 2.54 };
+
+function normalizeKey(key: unknown): string {
+    return String(key).replace(/-/g, '_');
+}
+
+function categoryOf(key: string): string | undefined {
+    return THEME_CATEGORIES.find(category => key === category || key.startsWith(`${category}_`));
+}
+
+function findCatalogFontFile(fontPath: string, themeDir: string): string | undefined {
+    // 組み込みフォントは asciidoctor-pdf に同梱されている
+    if (fontPath.startsWith('GEM_FONTS_DIR')) {
+        return undefined;
+    }
+    return path.resolve(themeDir, fontPath);
+}
+
+// テーマファイルを extends をたどって読み込み、asciidoctor-pdf と同じ規則でキーを連結する
+export async function loadPdfTheme(themeFile: string): Promise<LoadedTheme> {
+    const theme: LoadedTheme = {
+        file: path.resolve(themeFile),
+        chain: [],
+        extendsBuiltin: false,
+        values: new Map(),
+        fontCatalog: new Map(),
+        issues: []
+    };
+    // 継承元を含めてカタログを置き換えたか（置き換えた場合は組み込みテーマのフォントを使用できない）
+    let catalogReplaced = false;
+
+    const load = async (file: string, ancestors: string[], reference?: { file: string; line: number }) => {
+        if (ancestors.includes(file)) {
+            theme.issues.push({
+                severity: 'error',
+                message: `extends が循環しています: ${[...ancestors, file].map(item => path.basename(item)).join(' → ')}`,
+                file: reference?.file ?? file,
+                line: reference?.line ?? 0,
+                key: 'extends'
+            });
+            return;
+        }
+
+        let text: string;
+        try {
+            text = await fs.readFile(file, 'utf8');
+        } catch {
+            theme.issues.push({
+                severity: 'error',
+                message: `テーマファイルが見つかりません: ${file}`,
+                file: reference?.file ?? file,
+                line: reference?.line ?? 0,
+                key: 'extends'
+            });
+            return;
+        }
+
+        const lineCounter = new LineCounter();
+        const document = parseDocument(text, { lineCounter });
+        const lineOf = (offset: number | undefined) => offset === undefined ? 0 : lineCounter.linePos(offset).line - 1;
+
+        for (const error of document.errors) {
+            theme.issues.push({ severity: 'error', message: `YAMLの構文エラー: ${error.message.split('\n')[0]}`, file, line: lineOf(error.pos[0]) });
+        }
+        if (!isMap(document.contents)) {
+            if (document.errors.length === 0 && document.contents !== null) {
+                theme.issues.push({ severity: 'error', message: 'テーマのルートはマッピングである必要があります。', file, line: 0 });
+            }
+            theme.chain.push(file);
+            return;
+        }
+
+        // 継承元を先に読み込む
+        const extendsPair = document.contents.items.find(pair => isScalar(pair.key) && pair.key.value === 'extends');
+        if (extendsPair) {
+            const parents = extendsPair.value && isSeq(extendsPair.value) ? extendsPair.value.items : [extendsPair.value];
+            for (const parent of parents) {
+                const name = isScalar(parent) ? String(parent.value) : '';
+                const line = lineOf(isNode(parent) ? parent.range?.[0] : undefined);
+                if (BUILTIN_THEMES.includes(name)) {
+                    theme.extendsBuiltin = true;
+                } else if (name) {
+                    const parentFile = path.resolve(path.dirname(file), name.replace(/^\.\//, ''));
+                    await load(parentFile.endsWith('.yml') || parentFile.endsWith('.yaml') ? parentFile : `${parentFile}-theme.yml`, [...ancestors, file], { file, line });
+                }
+            }
+        }
+
+        const visit = (node: unknown, prefix: string) => {
+            if (!isMap(node)) {
+                return;
+            }
+            for (const pair of node.items) {
+                const keyNode = pair.key as Node | null;
+                const key = normalizeKey(isScalar(keyNode) ? keyNode.value : keyNode);
+                const fullKey = prefix ? `${prefix}_${key}` : key;
+                const line = lineOf(keyNode?.range?.[0]);
+
+                if (!prefix && key === 'extends') {
+                    continue;
+                }
+
+                if (fullKey === 'font_catalog') {
+                    visitFontCatalog(pair.value, line);
+                    continue;
+                }
+
+                if (isMap(pair.value)) {
+                    visit(pair.value, fullKey);
+                    continue;
+                }
+
+                const value = isNode(pair.value) ? pair.value.toJSON() : pair.value;
+                theme.values.set(fullKey, { value, file, line });
+            }
+        };
+
+        // カタログは merge: true の場合のみ継承元とマージする
+        const visitFontCatalog = (node: unknown, line: number) => {
+            if (!isMap(node)) {
+                theme.issues.push({ severity: 'error', message: 'font.catalog はマッピングである必要があります。', file, line, key: 'font_catalog' });
+                return;
+            }
+            const merge = node.items.some(pair => isScalar(pair.key) && pair.key.value === 'merge' && isScalar(pair.value) && pair.value.value === true);
+            if (!merge) {
+                theme.fontCatalog.clear();
+                catalogReplaced = true;
+            }
+            for (const pair of node.items) {
+                const name = isScalar(pair.key) ? String(pair.key.value) : '';
+                if (name === 'merge') {
+                    continue;
+                }
+                theme.fontCatalog.set(name, {
+                    value: isNode(pair.value) ? pair.value.toJSON() : pair.value,
+                    file,
+                    line: lineOf((pair.key as Node | null)?.range?.[0])
+                });
+            }
+        };
+
+        visit(document.contents, '');
+        theme.chain.push(file);
+    };
+
+    await load(theme.file, []);
+    await validateTheme(theme, theme.extendsBuiltin && !catalogReplaced);
+    return theme;
+}
+
+async function validateTheme(theme: LoadedTheme, includeDefaultFonts: boolean): Promise<void> {
+    const issue = (severity: ThemeIssueSeverity, message: string, entry: ThemeEntry, key?: string) => {
+        theme.issues.push({ severity, message, file: entry.file, line: entry.line, key });
+    };
+
+    // フォントカタログのファイルの存在を確認する
+    for (const [family, entry] of theme.fontCatalog) {
+        const files: [string, unknown][] = typeof entry.value === 'string'
+            ? [['normal', entry.value]]
+            : entry.value && typeof entry.value === 'object' ? Object.entries(entry.value as Record<string, unknown>) : [];
+        if (files.length === 0) {
+            issue('error', `フォント「${family}」にフォントファイルが指定されていません。`, entry, 'font_catalog');
+            continue;
+        }
+        for (const [style, fontPath] of files) {
+            if (!FONT_STYLES.includes(style)) {
+                issue('warning', `フォント「${family}」のスタイル ${style} は使用されません（${FONT_STYLES.join(' / ')}）。`, entry, 'font_catalog');
+                continue;
+            }
+            const fontFile = findCatalogFontFile(String(fontPath), path.dirname(entry.file));
+            if (fontFile && !await fs.pathExists(fontFile)) {
+                issue('error', `フォント「${family}」（${style}）のファイルが見つかりません: ${fontPath}`, entry, 'font_catalog');
+            }
+        }
+    }
+
+    const families = new Set([...STANDARD_FONT_FAMILIES, ...theme.fontCatalog.keys()]);
+    if (includeDefaultFonts) {
+        DEFAULT_THEME_FONT_FAMILIES.forEach(family => families.add(family));
+    }
+
+    const referenced = new Set<string>();
+    for (const entry of theme.values.values()) {
+        for (const match of JSON.stringify(entry.value ?? '').matchAll(VARIABLE_PATTERN)) {
+            referenced.add(normalizeKey(match[1]));
+        }
+    }
+
+    for (const [key, entry] of theme.values) {
+        const { value } = entry;
+
+        if (!categoryOf(key) && !referenced.has(key)) {
+            issue('warning', `不明なキーです: ${key}（asciidoctor-pdf では使用されません）`, entry, key);
+        }
+
+        // 変数の参照先
+        const text = JSON.stringify(value ?? '');
+        for (const match of text.matchAll(VARIABLE_PATTERN)) {
+            const name = normalizeKey(match[1]);
+            if (!theme.values.has(name) && !theme.extendsBuiltin) {
+                issue('error', `未定義の変数 $${match[1]} を参照しています。`, entry, key);
+            }
+        }
+        if (typeof value === 'string' && value.includes('$')) {
+            continue;
+        }
+
+        if (key.endsWith('_color') && !isValidColor(value)) {
+            issue('error', `色の指定が正しくありません: ${key}: ${value}（16進数の RRGGBB または transparent）`, entry, key);
+        } else if (key.endsWith('font_family') && typeof value === 'string' && !families.has(value)) {
+            issue('error', `フォント「${value}」がフォントカタログに定義されていません。`, entry, key);
+        } else if (key === 'font_fallbacks') {
+            for (const family of Array.isArray(value) ? value : [value]) {
+                if (!families.has(String(family))) {
+                    issue('error', `フォールバックフォント「${family}」がフォントカタログに定義されていません。`, entry, key);
+                }
+            }
+        } else if (key === 'page_size' && !isValidPageSize(value)) {
+            issue('error', `用紙サイズが正しくありません: ${value}（A4 / LETTER などの名前、または [幅, 高さ]）`, entry, key);
+        } else if (key === 'page_margin' && !isValidMargin(value)) {
+            issue('error', `余白の指定が正しくありません: ${JSON.stringify(value)}（1・2・4個の値で指定）`, entry, key);
+        } else {
+            const rule = ENUM_VALUES.find(item => key.endsWith(item.suffix));
+            if (rule && !rule.values.includes(String(value))) {
+                issue('error', `${key} の値が正しくありません: ${value}（${rule.values.join(' / ')}）`, entry, key);
+            }
+        }
+    }
+}
+
+function isValidColor(value: unknown): boolean {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) && String(value).length <= 6;
+    }
+    if (Array.isArray(value)) {
+        return value.length === 4 && value.every(item => typeof item === 'number' || /^\d+(\.\d+)?%?$/.test(String(item)));
+    }
+    return typeof value === 'string' && (value === 'transparent' || COLOR_PATTERN.test(value));
+}
+
+function isValidPageSize(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.length === 2 && value.every(item => toPoints(item) !== undefined);
+    }
+    return typeof value === 'string' && PAGE_SIZE_PATTERN.test(value);
+}
+
+function isValidMargin(value: unknown): boolean {
+    const values = Array.isArray(value) ? value : [value];
+    return [1, 2, 4].includes(values.length) && values.every(item => toPoints(item) !== undefined);
+}
+
+// 単位付きの長さ（20mm、0.5in など）をポイントに変換する
+export function toPoints(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+        return value;
+    }
+    const match = /^\s*(-?\d*\.?\d+)\s*(pt|px|in|mm|cm)?\s*$/.exec(String(value));
+    return match ? Number(match[1]) * UNIT_TO_POINTS[match[2] ?? 'pt'] : undefined;
+}
+
+// 変数を展開して四則演算と round / floor / ceil を評価する
+export function evaluateThemeExpression(expression: string): number | undefined {
+    const tokens = expression.match(/\d*\.?\d+(?:pt|px|in|mm|cm)?|[a-z_]+|[()+\-*/,]/gi);
+    if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) {
+        return undefined;
+    }
+
+    let position = 0;
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (peek() === '+' || peek() === '-') {
+            value = next() === '+' ? value + parseTerm() : value - parseTerm();
+        }
+        return value;
+    };
+    const parseTerm = (): number => {
+        let value = parseFactor();
+        while (peek() === '*' || peek() === '/') {
+            value = next() === '*' ? value * parseFactor() : value / parseFactor();
+        }
+        return value;
+    };
+    const parseFactor = (): number => {
+        const token = next();
+        if (token === '-') {
+            return -parseFactor();
+        }
+        if (token === '(') {
+            const value = parseExpression();
+            if (next() !== ')') {
+                throw new Error('括弧が閉じられていません');
+            }
+            return value;
+        }
+        const fn = ({ round: Math.round, floor: Math.floor, ceil: Math.ceil } as Record<string, (value: number) => number>)[token];
+        if (fn && next() === '(') {
+            const value = parseExpression();
+            if (next() !== ')') {
+                throw new Error('括弧が閉じられていません');
+            }
+            return fn(value);
+        }
+        const value = token !== undefined ? toPoints(token) : undefined;
+        if (value === undefined) {
+            throw new Error(`不明なトークン: ${token}`);
+        }
+        return value;
+    };
+
+    try {
+        const value = parseExpression();
+        return position === tokens.length && Number.isFinite(value) ? value : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// 変数参照と計算式を解決した値を返す
+export function resolveThemeValue(theme: LoadedTheme, key: string, depth = 0): unknown {
+    const entry = theme.values.get(key);
+    if (!entry || depth > 20) {
+        return undefined;
+    }
+
+    const resolve = (value: unknown): unknown => {
+        if (Array.isArray(value)) {
+            return value.map(resolve);
+        }
+        if (typeof value !== 'string' || !value.includes('$') && !/[*/+]|\b(round|floor|ceil)\(/.test(value)) {
+            return value;
+        }
+        const substituted = value.replace(VARIABLE_PATTERN, (match, name: string) => {
+            const resolved = resolveThemeValue(theme, normalizeKey(name), depth + 1);
+            return resolved === undefined ? match : String(resolved);
+        });
+        return evaluateThemeExpression(substituted) ?? substituted;
+    };
+
+    return resolve(entry.value);
+}
+
+// YAML のスカラー表記（必要な場合のみクォートする）
+function formatYamlValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(formatYamlValue).join(', ')}]`;
+    }
+    return stringify(value, { lineWidth: 0 }).trimEnd();
+}
+
+// 連結したキーに対応する既存のノードのパスを探す（heading_h2_font_color → [heading, h2_font_color] など）
+function findKeyPath(document: Document, key: string): (string | number)[] | undefined {
+    const search = (node: unknown, prefix: string, keyPath: string[]): string[] | undefined => {
+        if (!isMap(node)) {
+            return undefined;
+        }
+        for (const pair of node.items) {
+            const name = isScalar(pair.key) ? String(pair.key.value) : '';
+            const fullKey = prefix ? `${prefix}_${normalizeKey(name)}` : normalizeKey(name);
+            if (fullKey === key) {
+                return [...keyPath, name];
+            }
+            if (key.startsWith(`${fullKey}_`)) {
+                const found = search(pair.value, fullKey, [...keyPath, name]);
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        return undefined;
+    };
+    return search(document.contents, '', []);
+}
+
+// テーマの1つのキーを書き換えたテキストを返す（value が undefined の場合は削除）
+// 書式やコメントを保つため、変更箇所のみを置換する
+export function updateThemeText(text: string, key: string, defaultPath: string[], value: unknown): string {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(text, { lineCounter });
+    if (document.errors.length > 0) {
+        throw new Error('YAMLの構文エラーを修正してから編集してください。');
+    }
+
+    const existingPath = findKeyPath(document, key);
+    if (existingPath) {
+        const parent = existingPath.length > 1 ? document.getIn(existingPath.slice(0, -1), true) : document.contents;
+        const pair = isMap(parent) ? parent.items.find(item => isScalar(item.key) && item.key.value === existingPath[existingPath.length - 1]) : undefined;
+        const keyRange = (pair?.key as Node | undefined)?.range;
+        const valueRange = isNode(pair?.value) ? pair?.value.range : undefined;
+        if (!pair || !keyRange) {
+            throw new Error(`${key} を編集できません。`);
+        }
+
+        if (value === undefined) {
+            // キーの行から値の終わりの行までを削除する
+            const start = text.lastIndexOf('\n', keyRange[0] - 1) + 1;
+            const endOffset = valueRange ? valueRange[1] : keyRange[1];
+            const lineEnd = text.indexOf('\n', endOffset);
+            return text.slice(0, start) + (lineEnd < 0 ? '' : text.slice(lineEnd + 1));
+        }
+        if (valueRange && !isMap(pair.value)) {
+            return text.slice(0, valueRange[0]) + formatYamlValue(value) + text.slice(valueRange[1]);
+        }
+        throw new Error(`${key} はマッピングのため、フォームから編集できません。`);
+    }
+
+    if (value === undefined) {
+        return text;
+    }
+
+    // 既存の最も深いマッピングの末尾に残りのキーを追加する
+    let depth = 0;
+    let parentNode: unknown = document.contents;
+    while (depth < defaultPath.length - 1) {
+        const child = isMap(parentNode) ? parentNode.get(defaultPath[depth], true) : undefined;
+        if (!isMap(child)) {
+            break;
+        }
+        parentNode = child;
+        depth++;
+    }
+
+    let indent = 0;
+    let insertOffset = text.length;
+    if (isMap(parentNode) && parentNode.items.length > 0 && depth > 0) {
+        if (parentNode.flow) {
+            throw new Error(`${defaultPath.slice(0, depth).join('.')} はフロー形式のため、フォームから編集できません。`);
+        }
+        const firstKey = parentNode.items[0].key as Node;
+        indent = lineCounter.linePos(firstKey.range![0]).col - 1;
+        const last = parentNode.items[parentNode.items.length - 1];
+        const lastEnd = isNode(last.value) ? last.value.range![1] : (last.key as Node).range![1];
+        const lineEnd = text.indexOf('\n', Math.max(lastEnd - 1, 0));
+        insertOffset = lineEnd < 0 ? text.length : lineEnd + 1;
+    } else {
+        depth = 0;
+    }
+
+    const lines = defaultPath.slice(depth).map((name, index, rest) => {
+        const prefix = ' '.repeat(indent + index * 2);
+        return index === rest.length - 1 ? `${prefix}${name}: ${formatYamlValue(value)}` : `${prefix}${name}:`;
+    });
+    const before = text.slice(0, insertOffset);
+    const separator = before.length > 0 && !before.endsWith('\n') ? '\n' : '';
+    return `${before}${separator}${lines.join('\n')}\n${text.slice(insertOffset)}`;
+}
@@ -0,0 +1,446 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import asciidoctor from '@asciidoctor/core';
+import { BuildManager } from './buildManager';
+import { getActiveBuildProfile, resolveProfileOutputName } from './buildProfiles';
+import { getResourceConfiguration, resolveProjectContext } from './projectContext';
+
+const processor = asciidoctor();
+
+export class PreviewManager {
+    public static readonly viewType = 'asciidocSuite.preview';
+
+    private panel?: vscode.WebviewPanel;
+    private document?: vscode.TextDocument;
+    private renderedDir?: string;
+    private refreshTimer?: NodeJS.Timeout;
+    private lastPdfFiles = new Map<string, string>();
+    private lastRevealFromPreview = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly buildManager: BuildManager) {
+        // ビルド済みPDFを記録し、プレビューから開けるようにする
+        this.disposables.push(
+            this.buildManager.onDidBuild(event => {
+                const pdfFile = event.outputFiles.find(file => file.endsWith('.pdf'));
+                if (pdfFile) {
+                    this.lastPdfFiles.set(event.filePath, pdfFile);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (this.panel && document.fileName.endsWith('.adoc')) {
+                    this.scheduleRefresh();
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (this.panel && editor && editor.document.fileName.endsWith('.adoc') && editor.document !== this.document) {
+                    this.document = editor.document;
+                    this.refresh();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges(event => {
+                this.syncPreviewToEditor(event.textEditor);
+            })
+        );
+    }
+
+    // アクティブなAsciidocドキュメントのプレビューを表示
+    async showPreview(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !editor.document.fileName.endsWith('.adoc')) {
+            vscode.window.showErrorMessage('プレビューするAsciidocファイルを開いてください。');
+            return;
+        }
+
+        this.document = editor.document;
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                PreviewManager.viewType,
+                'Asciidoc プレビュー',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                {
+                    enableScripts: true,
+                    retainContextWhenHidden: true,
+                    localResourceRoots: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri)
+                }
+            );
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.renderedDir = undefined;
+            }, null, this.disposables);
+
+            this.panel.webview.onDidReceiveMessage(async (data) => {
+                switch (data.type) {
+                    case 'revealLine':
+                        this.revealEditorLine(data.line);
+                        break;
+                    case 'openPdf':
+                        await this.openLastPdf();
+                        break;
+                    case 'refresh':
+                        this.refresh();
+                        break;
+                }
+            }, null, this.disposables);
+        }
+
+        this.refresh();
+    }
+
+    private scheduleRefresh(): void {
+        const config = vscode.workspace.getConfiguration('asciidocSuite');
+        const delay = config.get<number>('preview.refreshDelay', 300);
+
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => this.refresh(), delay);
+    }
+
+    private async refresh(): Promise<void> {
+        if (!this.panel || !this.document) {
+            return;
+        }
+
+        const document = this.document;
+        const docDir = path.dirname(document.fileName);
+        // 別のフォルダ・プロジェクトのドキュメントの画像も読み込めるよう、表示するドキュメントに合わせて更新する
+        const localResourceRoots = this.renderedDir !== docDir ? await this.getLocalResourceRoots(document) : undefined;
+        if (!this.panel || this.document !== document) {
+            return;
+        }
+        this.panel.title = `プレビュー: ${path.basename(document.fileName)}`;
+
+        let html: string;
+        try {
+            html = this.renderHtml(document);
+        } catch (error) {
+            html = `<div class="error">プレビューの生成中にエラーが発生しました: ${escapeHtml(String(error))}</div>`;
+        }
+
+        const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
+        const line = editor ? editor.visibleRanges[0]?.start.line ?? 0 : 0;
+
+        // 画像の相対パスを解決するbaseが変わる場合のみHTML全体を再設定する
+        if (localResourceRoots) {
+            this.renderedDir = docDir;
+            this.panel.webview.options = { enableScripts: true, localResourceRoots };
+            this.panel.webview.html = this.getHtmlForWebview(this.panel.webview, docDir, html, line);
+        } else {
+            this.panel.webview.postMessage({ type: 'update', html, line });
+        }
+    }
+
+    // Asciidoctor.jsでHTMLに変換し、スクロール同期用に行番号をロールとして付与
+    private renderHtml(document: vscode.TextDocument): string {
+        const doc = processor.load(document.getText(), {
+            safe: 'safe',
+            sourcemap: true,
+            base_dir: path.dirname(document.fileName),
+            attributes: {
+                showtitle: true,
+                icons: 'font'
+            }
+        });
+
+        doc.findBy(block => {
+            const location = block.getSourceLocation();
+            const file = location?.getFile();
+            const lineNumber = location?.getLineNumber();
+            // インクルードされたファイルのブロックは対象外
+            if (lineNumber && (!file || path.resolve(file) === path.resolve(document.fileName))) {
+                block.addRole(`data-line-${lineNumber - 1}`);
+            }
+            return false;
+        });
+
+        return doc.convert();
+    }
+
+    private syncPreviewToEditor(editor: vscode.TextEditor): void {
+        const config = vscode.workspace.getConfiguration('asciidocSuite');
+        if (!this.panel || editor.document !== this.document || !config.get<boolean>('preview.scrollSync', true)) {
+            return;
+        }
+
+        // プレビュー起点のスクロールによる往復を防ぐ
+        if (Date.now() - this.lastRevealFromPreview < 300) {
+            return;
+        }
+
+        const line = editor.visibleRanges[0]?.start.line ?? 0;
+        this.panel.webview.postMessage({ type: 'scrollToLine', line });
+    }
+
+    private revealEditorLine(line: number): void {
+        const config = vscode.workspace.getConfiguration('asciidocSuite');
+        if (!config.get<boolean>('preview.scrollSync', true)) {
+            return;
+        }
+
+        const editor = vscode.window.visibleTextEditors.find(e => e.document === this.document);
+        if (!editor) {
+            return;
+        }
+
+        this.lastRevealFromPreview = Date.now();
+        const range = new vscode.Range(line, 0, line, 0);
+        editor.revealRange(range, vscode.TextEditorRevealType.AtTop);
+    }
+
+    // 最後にビルドしたPDF（記録がなければ出力ディレクトリのPDF）を開く
+    private async openLastPdf(): Promise<void> {
+        if (!this.document) {
+            return;
+        }
+
+        const filePath = this.document.fileName;
+        let pdfFile = this.lastPdfFiles.get(filePath) ?? await this.getDefaultPdfFile(filePath);
+
+        if (!await fs.pathExists(pdfFile)) {
+            const build = await vscode.window.showInformationMessage(
+                'このドキュメントのPDFはまだビルドされていません。ビルドしますか？',
+                'ビルド',
+                'キャンセル'
+            );
+            if (build !== 'ビルド') {
+                return;
+            }
+            // アクティブなエディタではなく、プレビュー中のドキュメントをビルドする
+            const result = await this.buildManager.buildDocuments([{ filePath, formats: ['pdf'] }]);
+            if (!result || result.cancelled) {
+                return;
+            }
+            const builtFile = this.lastPdfFiles.get(filePath);
+            if (result.failures.length > 0 || !builtFile || !await fs.pathExists(builtFile)) {
+                vscode.window.showErrorMessage('PDFのビルドに失敗しました。出力パネル（Asciidoc Build）を確認してください。');
+                return;
+            }
+            pdfFile = builtFile;
+        }
+
+        // VS Code には PDF のエディタがないため、OS の既定のアプリケーションで開く
+        await vscode.env.openExternal(vscode.Uri.file(pdfFile));
+    }
+
+    // 単体ビルドの出力先（選択中のプロファイルの出力ファイル名を反映する）
+    private async getDefaultPdfFile(filePath: string): Promise<string> {
+        const { projectRoot } = await resolveProjectContext(filePath);
+        const outputDir = getResourceConfiguration(filePath).get<string>('build.outputDirectory', './output');
+        const profile = getActiveBuildProfile(filePath);
+        const outputName = (profile && await resolveProfileOutputName(profile, filePath, undefined))
+            ?? path.basename(filePath, path.extname(filePath));
+        return path.join(path.resolve(projectRoot, outputDir), `${outputName}.pdf`);
+    }
+
+    // すべてのワークスペースフォルダと、ドキュメントのプロジェクトルート・ディレクトリ
+    private async getLocalResourceRoots(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+        const { projectRoot } = await resolveProjectContext(document.fileName);
+        const roots = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri);
+        roots.push(vscode.Uri.file(projectRoot), vscode.Uri.file(path.dirname(document.fileName)));
+        return roots;
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview, docDir: string, content: string, line: number) {
+        const nonce = getNonce();
+        const baseUri = webview.asWebviewUri(vscode.Uri.file(docDir + path.sep));
+
+        return `<!DOCTYPE html>
+        <html lang="ja">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource} https:; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <base href="${baseUri}">
+            <title>Asciidoc プレビュー</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 0 24px 48px;
+                    line-height: 1.6;
+                }
+
+                .toolbar {
+                    position: sticky;
+                    top: 0;
+                    display: flex;
+                    gap: 8px;
+                    justify-content: flex-end;
+                    padding: 8px 0;
+                    background-color: var(--vscode-editor-background);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                .toolbar button {
+                    padding: 4px 10px;
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-family: var(--vscode-font-family);
+                }
+
+                .toolbar button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                h1, h2, h3, h4, h5, h6 {
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    padding-bottom: 4px;
+                }
+
+                pre, code {
+                    font-family: var(--vscode-editor-font-family);
+                    background-color: var(--vscode-textCodeBlock-background);
+                }
+
+                pre {
+                    padding: 8px 12px;
+                    overflow-x: auto;
+                }
+
+                table {
+                    border-collapse: collapse;
+                }
+
+                th, td {
+                    border: 1px solid var(--vscode-panel-border);
+                    padding: 4px 8px;
+                }
+
+                img {
+                    max-width: 100%;
+                }
+
+                .admonitionblock {
+                    margin: 12px 0;
+                    padding: 8px;
+                    background-color: var(--vscode-textBlockQuote-background);
+                    border-left: 3px solid var(--vscode-textBlockQuote-border);
+                }
+
+                .error {
+                    margin-top: 16px;
+                    color: var(--vscode-errorForeground);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <button id="refresh">🔄 再読み込み</button>
+                <button id="open-pdf">📄 最新のPDFを表示</button>
+            </div>
+            <div id="content">${content}</div>
+
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                const content = document.getElementById('content');
+                let scrollingFromEditor = false;
+
+                document.getElementById('refresh').addEventListener('click', () => {
+                    vscode.postMessage({
+                        type: 'refresh'
+                    });
+                });
+
+                document.getElementById('open-pdf').addEventListener('click', () => {
+                    vscode.postMessage({
+                        type: 'openPdf'
+                    });
+                });
+
+                function lineElements() {
+                    const elements = [];
+                    for (const element of document.querySelectorAll('[class*="data-line-"]')) {
+                        const match = /data-line-(\\d+)/.exec(element.className);
+                        if (match) {
+                            elements.push({ line: parseInt(match[1], 10), element });
+                        }
+                    }
+                    return elements.sort((a, b) => a.line - b.line);
+                }
+
+                function scrollToLine(line) {
+                    let target;
+                    for (const entry of lineElements()) {
+                        if (entry.line > line) {
+                            break;
+                        }
+                        target = entry;
+                    }
+
+                    scrollingFromEditor = true;
+                    window.scrollTo(0, target ? target.element.getBoundingClientRect().top + window.scrollY - 48 : 0);
+                    setTimeout(() => { scrollingFromEditor = false; }, 100);
+                }
+
+                let scrollTimer;
+                window.addEventListener('scroll', () => {
+                    if (scrollingFromEditor) {
+                        return;
+                    }
+                    clearTimeout(scrollTimer);
+                    scrollTimer = setTimeout(() => {
+                        const entry = lineElements().find(e => e.element.getBoundingClientRect().top >= 40);
+                        if (entry) {
+                            vscode.postMessage({
+                                type: 'revealLine',
+                                line: entry.line
+                            });
+                        }
+                    }, 100);
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'update':
+                            content.innerHTML = message.html;
+                            scrollToLine(message.line);
+                            break;
+                        case 'scrollToLine':
+                            scrollToLine(message.line);
+                            break;
+                    }
+                });
+
+                scrollToLine(${line});
+            </script>
+        </body>
+        </html>`;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.panel?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import spawn from 'cross-spawn';
+
+export interface ProcessOptions {
+    cwd?: string;
+    token?: vscode.CancellationToken;
+    timeoutSeconds?: number;
+    // 出力を受け取った行ごとに呼び出される（ストリーミング表示用）
+    onLine?: (line: string, stream: 'stdout' | 'stderr') => void;
+    // false の場合は stdout / stderr を結果に保持しない
+    captureOutput?: boolean;
+    // キャンセル・タイムアウトでプロセスを停止した直後に呼び出される
+    onStop?: () => void;
+}
+
+export interface ProcessResult {
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    error?: Error;
+}
+
+// シェルを介さずに引数配列でプロセスを実行する
+// 失敗しても出力を利用できるよう、エラーは reject せずに結果として返す
+export function runProcess(command: string, args: string[], options: ProcessOptions = {}): Promise<ProcessResult> {
+    const captureOutput = options.captureOutput ?? true;
+
+    return new Promise(resolve => {
+        let stdout = '';
+        let stderr = '';
+        let stopReason: Error | undefined;
+        let spawnError: Error | undefined;
+        const pending = { stdout: '', stderr: '' };
+
+        const child = spawn(command, args, {
+            cwd: options.cwd,
+            shell: false,
+            windowsHide: true
+        });
+
+        const handleData = (stream: 'stdout' | 'stderr', chunk: Buffer) => {
+            const text = chunk.toString();
+            if (captureOutput) {
+                if (stream === 'stdout') {
+                    stdout += text;
+                } else {
+                    stderr += text;
+                }
+            }
+
+            if (options.onLine) {
+                const lines = (pending[stream] + text).split(/\r?\n/);
+                pending[stream] = lines.pop() ?? '';
+                lines.forEach(line => options.onLine!(line, stream));
+            }
+        };
+
+        child.stdout?.on('data', (chunk: Buffer) => handleData('stdout', chunk));
+        child.stderr?.on('data', (chunk: Buffer) => handleData('stderr', chunk));
+
+        const stop = (reason: Error) => {
+            if (stopReason) {
+                return;
+            }
+            stopReason = reason;
+            child.kill();
+            options.onStop?.();
+        };
+
+        const cancellation = options.token?.onCancellationRequested(() => stop(new vscode.CancellationError()));
+        const timeoutSeconds = options.timeoutSeconds ?? 0;
+        const timer = timeoutSeconds > 0
+            ? setTimeout(() => stop(new Error(`プロセスがタイムアウトしました（${timeoutSeconds}秒）`)), timeoutSeconds * 1000)
+            : undefined;
+
+        child.on('error', error => {
+            spawnError = error;
+        });
+
+        child.on('close', exitCode => {
+            cancellation?.dispose();
+            if (timer) {
+                clearTimeout(timer);
+            }
+
+            // 改行で終わらない最後の行を送出
+            for (const stream of ['stdout', 'stderr'] as const) {
+                if (pending[stream] && options.onLine) {
+                    options.onLine(pending[stream], stream);
+                }
+            }
+
+            let error = stopReason ?? spawnError;
+            if (!error && exitCode !== 0) {
+                error = new Error(`コマンドが終了コード ${exitCode} で終了しました: ${command}`);
+            }
+            resolve({ exitCode, stdout, stderr, error });
+        });
+    });
+}
+
+// プロセスを実行して標準出力を返す（失敗時は標準エラー出力を含むエラーを投げる）
+export async function execProcess(command: string, args: string[], cwd?: string): Promise<string> {
+    const result = await runProcess(command, args, { cwd });
+    if (result.error) {
+        const detail = result.stderr.trim();
+        throw new Error(detail ? `${result.error.message}\n${detail}` : result.error.message);
+    }
+    return result.stdout;
+}
+
+// 信頼されていないワークスペースでは、ワークスペース設定で指定された実行ファイルを使用しない
+export function isTrustedSetting(section: string, key: string): boolean {
+    if (vscode.workspace.isTrusted) {
+        return true;
+    }
+
+    const inspected = vscode.workspace.getConfiguration(section).inspect(key);
+    return inspected?.workspaceValue === undefined && inspected?.workspaceFolderValue === undefined;
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findManifestForFile } from './projectManifest';
+
+// ドキュメントが属するプロジェクト
+export interface ProjectContext {
+    // ドキュメントを含むワークスペースフォルダ（フォルダ外のファイルの場合は undefined）
+    workspaceFolder?: vscode.WorkspaceFolder;
+    // コンテナにマウントし、キャッシュやログの基準とするディレクトリ（ワークスペースフォルダ）
+    workspaceRoot: string;
+    // 出力先などの相対パスを解決する基準（最も近いマニフェストのディレクトリ、なければワークスペースフォルダ）
+    projectRoot: string;
+    manifestPath?: string;
+}
+
+export function isPathInside(filePath: string, directory: string): boolean {
+    const relative = path.relative(path.resolve(directory), path.resolve(filePath));
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// ファイルに対して有効な設定（フォルダごとの設定を反映する）
+export function getResourceConfiguration(filePath: string | undefined): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('asciidocSuite', filePath ? vscode.Uri.file(filePath) : undefined);
+}
+
+// ドキュメントの属するワークスペースフォルダと最も近いマニフェストからプロジェクトを決める
+export async function resolveProjectContext(filePath: string): Promise<ProjectContext> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const manifestPath = await findManifestForFile(filePath);
+    const workspaceRoot = workspaceFolder?.uri.fsPath ?? path.dirname(manifestPath ?? path.resolve(filePath));
+
+    return {
+        workspaceFolder,
+        workspaceRoot,
+        projectRoot: manifestPath ? path.dirname(manifestPath) : workspaceRoot,
+        manifestPath
+    };
+}
+
+// コマンドの対象とするワークスペースフォルダ（アクティブなエディタのフォルダを優先し、複数ある場合は選択する）
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+
+    if (activeFolder) {
+        return activeFolder;
+    }
+    if (folders.length <= 1) {
+        return folders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
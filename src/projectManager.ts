@@ -1,35 +1,48 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { MANIFEST_FILE_NAME, createDefaultManifest, findProjectManifests } from './projectManifest';
+import {
+    ProjectTemplate,
+    TemplateSource,
+    TemplateVariable,
+    WORKSPACE_TEMPLATE_DIRECTORY,
+    applyTemplateVariables,
+    copyTemplate,
+    discoverTemplates,
+    getUserTemplateDirectories,
+    saveTemplate
+} from './projectTemplates';
+import { WizardStep, runWizard } from './projectWizard';
+
+const PROJECT_NAME_KEY = 'projectName';
+const VARIABLE_DEFAULTS_KEY = 'asciidocSuite.templateVariableDefaults';
+
+// 標準のテンプレート変数の見出し
+const STANDARD_VARIABLE_LABELS: Record<string, string> = {
+    title: '文書タイトル',
+    author: '作成者',
+    email: 'メールアドレス',
+    version: '版数',
+    customer: '顧客名',
+    language: '言語',
+    paperSize: '用紙サイズ'
+};
+
+// 文書ごとに異なるため、前回の入力値を既定値にしない変数
+const NOT_REMEMBERED_VARIABLES = [PROJECT_NAME_KEY, 'title'];
 
 export class ProjectManager {
     private extensionPath: string;
 
-    constructor(extensionPath: string) {
+    constructor(extensionPath: string, private readonly globalState: vscode.Memento) {
         this.extensionPath = extensionPath;
     }
 
-    private templates = {
-        'technical-document': {
-            name: '技術文書',
-            description: 'システム仕様書や技術ドキュメント用のテンプレート'
-        },
-        'manual': {
-            name: '操作マニュアル',
-            description: 'ユーザーマニュアルや操作手順書用のテンプレート'
-        },
-        'webapi-document': {
-            name: 'WebAPI仕様書',
-            description: 'WebAPIの仕様書やドキュメント用のテンプレート'
-        },
-        'meeting-minutes': {
-            name: '会議議事録',
-            description: '会議の議事録や打ち合わせ記録用のテンプレート'
-        },
-        'project-proposal': {
-            name: '企画提案書',
-            description: 'プロジェクト提案書やビジネス企画書用のテンプレート'
-        }
+    private static readonly SOURCE_LABELS: Record<TemplateSource, string> = {
+        builtin: '組み込み',
+        user: 'ユーザー',
+        workspace: 'ワークスペース'
     };
 
     async createNewProject(): Promise<void> {
@@ -41,10 +54,12 @@ export class ProjectManager {
             }
 
             // テンプレート選択
-            const templateItems = Object.entries(this.templates).map(([key, template]) => ({
-                label: template.name,
-                description: template.description,
-                detail: key
+            const templates = await discoverTemplates(this.extensionPath);
+            const templateItems = templates.map(template => ({
+                label: template.descriptor.name,
+                description: ProjectManager.SOURCE_LABELS[template.source],
+                detail: template.descriptor.description,
+                template
             }));
 
             const selectedTemplate = await vscode.window.showQuickPick(templateItems, {
@@ -55,18 +70,41 @@ export class ProjectManager {
                 return;
             }
 
-            // プロジェクト名入力
-            const projectName = await vscode.window.showInputBox({
-                prompt: 'プロジェクト名を入力してください',
-                value: 'my-asciidoc-project'
-            });
+            // 作成先のフォルダ
+            const workspaceRoot = await this.selectParentDirectory(workspaceFolders);
+            if (!workspaceRoot) {
+                return;
+            }
 
-            if (!projectName) {
+            // プロジェクト名とテンプレート変数の入力
+            const template = selectedTemplate.template;
+            const values = await runWizard(`新規プロジェクト: ${template.descriptor.name}`, [
+                {
+                    key: PROJECT_NAME_KEY,
+                    prompt: 'プロジェクト名を入力してください',
+                    value: 'my-asciidoc-project',
+                    validate: value => {
+                        if (!value.trim()) {
+                            return 'プロジェクト名を入力してください。';
+                        }
+                        if (/[\\/]/.test(value)) {
+                            return 'プロジェクト名にパス区切り文字は使用できません。';
+                        }
+                        if (fs.pathExistsSync(path.join(workspaceRoot, value))) {
+                            return `ディレクトリ "${value}" は既に存在します。`;
+                        }
+                        return undefined;
+                    }
+                },
+                ...this.createVariableSteps(template.descriptor.variables ?? [])
+            ]);
+
+            if (!values) {
                 return;
             }
 
             // プロジェクトディレクトリ作成
-            const workspaceRoot = workspaceFolders[0].uri.fsPath;
+            const projectName = values[PROJECT_NAME_KEY];
             const projectPath = path.join(workspaceRoot, projectName);
 
             if (await fs.pathExists(projectPath)) {
@@ -74,13 +112,15 @@ export class ProjectManager {
                 return;
             }
 
-            await this.createProjectStructure(projectPath, selectedTemplate.detail as string);
+            // プロジェクト名も {{projectName}} として置換できる
+            await this.createProjectStructure(projectPath, template, values);
+            await this.rememberVariableValues(values);
             
             vscode.window.showInformationMessage(`プロジェクト "${projectName}" が作成されました。`);
             
-            // 作成されたsample.adocを開く
-            const samplePath = path.join(projectPath, 'sample.adoc');
-            const doc = await vscode.workspace.openTextDocument(samplePath);
+            // テンプレートで指定されたファイルを開く
+            const openPath = path.join(projectPath, template.descriptor.openFile ?? template.descriptor.entry);
+            const doc = await vscode.workspace.openTextDocument(openPath);
             await vscode.window.showTextDocument(doc);
 
         } catch (error) {
@@ -88,18 +128,211 @@ export class ProjectManager {
         }
     }
 
-    private async createProjectStructure(projectPath: string, templateKey: string): Promise<void> {
-        const templatePath = path.join(this.extensionPath, 'template', templateKey);
-        
-        // テンプレートディレクトリが存在するかチェック
-        if (!await fs.pathExists(templatePath)) {
-            throw new Error(`テンプレート "${templateKey}" が見つかりません: ${templatePath}`);
+    private async createProjectStructure(
+        projectPath: string,
+        template: ProjectTemplate,
+        variableValues: Record<string, string>
+    ): Promise<void> {
+        // テンプレートディレクトリを再帰的にコピー
+        await copyTemplate(template, projectPath);
+
+        // プレースホルダーを入力値で置換
+        await applyTemplateVariables(projectPath, variableValues);
+
+        // テンプレートにマニフェストが含まれていなければ作成する
+        if (!await fs.pathExists(path.join(projectPath, MANIFEST_FILE_NAME))) {
+            await createDefaultManifest(projectPath, [template.descriptor.entry]);
         }
+    }
 
-        // テンプレートディレクトリを再帰的にコピー
-        await fs.copy(templatePath, projectPath, {
-            overwrite: false,
-            errorOnExist: false
+    // テンプレート変数ごとの入力ステップ（前回の入力値を既定値とする）
+    private createVariableSteps(variables: TemplateVariable[]): WizardStep[] {
+        const remembered = this.globalState.get<Record<string, string>>(VARIABLE_DEFAULTS_KEY, {});
+
+        return variables.map(variable => {
+            const label = variable.label ?? STANDARD_VARIABLE_LABELS[variable.name] ?? variable.name;
+            const rememberedValue = NOT_REMEMBERED_VARIABLES.includes(variable.name) ? undefined : remembered[variable.name];
+            const value = rememberedValue !== undefined && (!variable.options || variable.options.includes(rememberedValue))
+                ? rememberedValue
+                : variable.default;
+
+            return {
+                key: variable.name,
+                prompt: variable.options ? `${label}を選択してください` : `${label}を入力してください`,
+                value,
+                options: variable.options
+            };
         });
     }
+
+    // 次回のプロジェクト作成のために入力値をユーザーごとに記憶する
+    private async rememberVariableValues(values: Record<string, string>): Promise<void> {
+        const remembered = this.globalState.get<Record<string, string>>(VARIABLE_DEFAULTS_KEY, {});
+        for (const [name, value] of Object.entries(values)) {
+            if (!NOT_REMEMBERED_VARIABLES.includes(name)) {
+                remembered[name] = value;
+            }
+        }
+        await this.globalState.update(VARIABLE_DEFAULTS_KEY, remembered);
+    }
+
+    // 既存のプロジェクトをテンプレートとして保存する
+    async saveProjectAsTemplate(): Promise<void> {
+        try {
+            const projectPath = await this.selectProjectDirectory();
+            if (!projectPath) {
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'テンプレート名を入力してください',
+                value: path.basename(projectPath)
+            });
+            if (!name) {
+                return;
+            }
+
+            const description = await vscode.window.showInputBox({
+                prompt: 'テンプレートの説明を入力してください（省略可）'
+            });
+            if (description === undefined) {
+                return;
+            }
+
+            // エントリドキュメントの選択
+            const adocFiles = (await fs.readdir(projectPath)).filter(entry => entry.endsWith('.adoc')).sort();
+            if (adocFiles.length === 0) {
+                vscode.window.showErrorMessage('プロジェクト直下にAsciidocファイルが見つかりません。');
+                return;
+            }
+            const entry = adocFiles.length === 1
+                ? adocFiles[0]
+                : await vscode.window.showQuickPick(adocFiles, {
+                    placeHolder: 'エントリドキュメントを選択してください'
+                });
+            if (!entry) {
+                return;
+            }
+
+            // 保存先の選択
+            const destinations = [
+                ...(vscode.workspace.workspaceFolders ?? []).map(folder => ({
+                    label: `ワークスペース: ${folder.name}`,
+                    description: WORKSPACE_TEMPLATE_DIRECTORY,
+                    detail: path.join(folder.uri.fsPath, WORKSPACE_TEMPLATE_DIRECTORY)
+                })),
+                ...getUserTemplateDirectories().map(directory => ({
+                    label: 'ユーザー',
+                    description: 'asciidocSuite.templates.directories',
+                    detail: directory
+                }))
+            ];
+            const destination = destinations.length === 1
+                ? destinations[0]
+                : await vscode.window.showQuickPick(destinations, {
+                    placeHolder: 'テンプレートの保存先を選択してください'
+                });
+            if (!destination) {
+                return;
+            }
+
+            const templateId = path.basename(projectPath);
+            const templateDir = path.join(destination.detail, templateId);
+            if (await fs.pathExists(templateDir)) {
+                vscode.window.showErrorMessage(`テンプレート "${templateId}" は既に存在します: ${templateDir}`);
+                return;
+            }
+
+            await saveTemplate(projectPath, templateDir, {
+                name,
+                ...(description ? { description } : {}),
+                entry,
+                openFile: entry
+            });
+
+            vscode.window.showInformationMessage(`テンプレート "${name}" を保存しました: ${templateDir}`);
+
+        } catch (error) {
+            vscode.window.showErrorMessage(`テンプレートの保存中にエラーが発生しました: ${error}`);
+        }
+    }
+
+    // プロジェクトを作成するフォルダを選択する（ワークスペースフォルダが1つの場合はそのフォルダ）
+    private async selectParentDirectory(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<string | undefined> {
+        if (workspaceFolders.length === 1) {
+            return workspaceFolders[0].uri.fsPath;
+        }
+
+        // アクティブなエディタのファイルを含むフォルダを先頭にする
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+        const folders = activeFolder
+            ? [activeFolder, ...workspaceFolders.filter(folder => folder !== activeFolder)]
+            : [...workspaceFolders];
+        const items: (vscode.QuickPickItem & { directory?: string })[] = [
+            ...folders.map(folder => ({
+                label: `$(root-folder) ${folder.name}`,
+                description: folder === activeFolder ? '編集中のファイルのフォルダ' : undefined,
+                detail: folder.uri.fsPath,
+                directory: folder.uri.fsPath
+            })),
+            { label: '$(folder-opened) その他のフォルダを選択...' }
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'プロジェクトを作成するフォルダを選択してください'
+        });
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.directory) {
+            return selected.directory;
+        }
+
+        const uris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: folders[0].uri,
+            openLabel: 'ここに作成'
+        });
+        return uris?.[0]?.fsPath;
+    }
+
+    // テンプレートにするプロジェクトを選択する（マニフェストのあるディレクトリとワークスペースフォルダが候補）
+    private async selectProjectDirectory(): Promise<string | undefined> {
+        const candidates = new Set<string>(
+            (await findProjectManifests()).map(manifestPath => path.dirname(manifestPath))
+        );
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            candidates.add(folder.uri.fsPath);
+        }
+
+        if (candidates.size === 0) {
+            vscode.window.showErrorMessage('ワークスペースが開かれていません。');
+            return undefined;
+        }
+
+        // アクティブなエディタのファイルを含むプロジェクトを優先する
+        const activeFile = vscode.window.activeTextEditor?.document.fileName;
+        const sorted = [...candidates].sort((a, b) => {
+            const containsA = activeFile?.startsWith(a + path.sep) ? a.length : -1;
+            const containsB = activeFile?.startsWith(b + path.sep) ? b.length : -1;
+            return containsB - containsA;
+        });
+
+        if (sorted.length === 1) {
+            return sorted[0];
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            sorted.map(candidate => ({
+                label: path.basename(candidate),
+                description: vscode.workspace.asRelativePath(candidate),
+                detail: candidate
+            })),
+            { placeHolder: 'テンプレートとして保存するプロジェクトを選択してください' }
+        );
+        return selected?.detail;
+    }
 }
@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { OutputFormat, OUTPUT_FORMATS } from './outputFormats';
+import { collectDependencies } from './includeGraph';
+import { getDefaultOutputFormat } from './buildProfiles';
+import type { DocumentBuildTarget } from './buildManager';
+import { DEFAULT_LINT_SEVERITIES, LintSeverity } from './lintRules';
+
+export const MANIFEST_FILE_NAME = 'asciidoc-suite.yml';
+
+export type AttributeValue = string | boolean;
+
+// マニフェストに宣言されたビルド対象ドキュメント
+export interface ManifestDocument {
+    input: string;
+    output?: string;
+    formats?: OutputFormat[];
+    theme?: string;
+    attributes?: Record<string, AttributeValue>;
+}
+
+// プロジェクト単位のリント設定（VS Code の設定より優先される）
+export interface ManifestLintSettings {
+    rules?: Record<string, LintSeverity>;
+    requiredAttributes?: string[];
+    // 置換漏れとして検出する記入欄・サンプルの文章（正規表現）
+    placeholderPatterns?: string[];
+}
+
+// プロジェクト単位の文章校正の設定（terms は推奨表記と置き換える表記の辞書）
+export interface ManifestProofreadSettings {
+    terms?: Record<string, string[]>;
+    maxSentenceLength?: number;
+}
+
+export interface ProjectManifest {
+    outputDirectory?: string;
+    attributes?: Record<string, AttributeValue>;
+    documents: ManifestDocument[];
+    lint?: ManifestLintSettings;
+    proofread?: ManifestProofreadSettings;
+}
+
+// パス解決済みのビルド対象
+export interface ManifestTarget {
+    manifestPath: string;
+    projectRoot: string;
+    filePath: string;
+    formats: OutputFormat[];
+    options: {
+        outputDirectory: string;
+        outputName: string;
+        pdfTheme?: string;
+        attributes: Record<string, AttributeValue>;
+    };
+}
+
+// エントリドキュメントと、その内容に影響するファイル群
+export interface EntryDocument {
+    target: DocumentBuildTarget;
+    dependencies: Set<string>;
+}
+
+// ワークスペース内のマニフェストファイルを検索
+export async function findProjectManifests(): Promise<string[]> {
+    const files = await vscode.workspace.findFiles(`**/${MANIFEST_FILE_NAME}`, '**/node_modules/**');
+    return files.map(file => file.fsPath).sort();
+}
+
+// ファイルの属するプロジェクトのマニフェスト（最も近い上位ディレクトリのもの）を検索
+export async function findManifestForFile(filePath: string): Promise<string | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const root = workspaceFolder ? path.resolve(workspaceFolder.uri.fsPath) : undefined;
+    let directory = path.dirname(path.resolve(filePath));
+
+    for (;;) {
+        const candidate = path.join(directory, MANIFEST_FILE_NAME);
+        if (await fs.pathExists(candidate)) {
+            return candidate;
+        }
+
+        const parent = path.dirname(directory);
+        if (directory === root || parent === directory) {
+            return undefined;
+        }
+        directory = parent;
+    }
+}
+
+const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info', 'off'];
+
+// プロジェクトルートの外を指すパス（../ や絶対パス）でないか
+function isInsideProject(projectRoot: string, target: string): boolean {
+    const relative = path.relative(projectRoot, path.resolve(projectRoot, target));
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// マニフェストを読み込み、内容を検証する
+export async function loadProjectManifest(manifestPath: string): Promise<ProjectManifest> {
+    const content = await fs.readFile(manifestPath, 'utf8');
+    const data = YAML.parse(content);
+
+    if (!data || typeof data !== 'object' || !Array.isArray(data.documents)) {
+        throw new Error(`マニフェストに documents が定義されていません: ${manifestPath}`);
+    }
+
+    const documents = (data.documents as unknown[]).map((entry, index) => {
+        if (!entry || typeof entry !== 'object' || typeof (entry as ManifestDocument).input !== 'string') {
+            throw new Error(`documents[${index}] に input が指定されていません: ${manifestPath}`);
+        }
+
+        const document = entry as ManifestDocument;
+        for (const format of document.formats ?? []) {
+            if (!Object.prototype.hasOwnProperty.call(OUTPUT_FORMATS, format)) {
+                throw new Error(`documents[${index}] の出力形式 "${format}" はサポートされていません: ${manifestPath}`);
+            }
+        }
+        // 出力名はファイル名として扱い、出力ディレクトリの外に書き出さない
+        if (document.output !== undefined && (typeof document.output !== 'string' || !document.output.trim() || /[\\/]/.test(document.output) || document.output === '..')) {
+            throw new Error(`documents[${index}] の output にはディレクトリを含まないファイル名を指定してください: ${manifestPath}`);
+        }
+        return document;
+    });
+
+    const projectRoot = path.dirname(manifestPath);
+    if (data.outputDirectory !== undefined && (typeof data.outputDirectory !== 'string' || !isInsideProject(projectRoot, data.outputDirectory))) {
+        throw new Error(`outputDirectory にはプロジェクト内のディレクトリを指定してください: ${manifestPath}`);
+    }
+
+    if (data.lint !== undefined && (!data.lint || typeof data.lint !== 'object')) {
+        throw new Error(`lint の形式が正しくありません: ${manifestPath}`);
+    }
+    const rules: unknown = data.lint?.rules;
+    if (rules !== undefined && (!rules || typeof rules !== 'object' || Array.isArray(rules))) {
+        throw new Error(`lint.rules にはルール名と重大度の組を指定してください: ${manifestPath}`);
+    }
+    for (const [rule, severity] of Object.entries(rules ?? {})) {
+        if (!Object.prototype.hasOwnProperty.call(DEFAULT_LINT_SEVERITIES, rule)) {
+            throw new Error(`lint.rules のルール "${rule}" はサポートされていません: ${manifestPath}`);
+        }
+        if (!LINT_SEVERITIES.includes(severity as LintSeverity)) {
+            throw new Error(`lint.rules の "${rule}" には ${LINT_SEVERITIES.join(' / ')} のいずれかを指定してください: ${manifestPath}`);
+        }
+    }
+    const requiredAttributes: unknown = data.lint?.requiredAttributes;
+    if (requiredAttributes !== undefined && (!Array.isArray(requiredAttributes) || requiredAttributes.some(name => typeof name !== 'string'))) {
+        throw new Error(`lint.requiredAttributes には属性名の配列を指定してください: ${manifestPath}`);
+    }
+    const placeholderPatterns: unknown = data.lint?.placeholderPatterns;
+    if (placeholderPatterns !== undefined && (!Array.isArray(placeholderPatterns) || placeholderPatterns.some(pattern => typeof pattern !== 'string'))) {
+        throw new Error(`lint.placeholderPatterns には正規表現の文字列の配列を指定してください: ${manifestPath}`);
+    }
+    if (data.proofread !== undefined && (!data.proofread || typeof data.proofread !== 'object')) {
+        throw new Error(`proofread の形式が正しくありません: ${manifestPath}`);
+    }
+    for (const [term, variants] of Object.entries(data.proofread?.terms ?? {})) {
+        if (!Array.isArray(variants) || variants.some(variant => typeof variant !== 'string')) {
+            throw new Error(`proofread.terms の "${term}" には置き換える表記の配列を指定してください: ${manifestPath}`);
+        }
+    }
+
+    return {
+        outputDirectory: data.outputDirectory,
+        lint: data.lint,
+        proofread: data.proofread,
+        attributes: normalizeAttributes(data.attributes),
+        documents: documents.map(document => ({
+            ...document,
+            attributes: normalizeAttributes(document.attributes)
+        }))
+    };
+}
+
+// マニフェストのパスをプロジェクトルート基準で解決し、ビルド対象の一覧にする
+export function resolveManifestTargets(
+    manifestPath: string,
+    manifest: ProjectManifest,
+    defaultFormat: OutputFormat
+): ManifestTarget[] {
+    const projectRoot = path.dirname(manifestPath);
+    const outputDirectory = path.resolve(projectRoot, manifest.outputDirectory ?? './output');
+
+    return manifest.documents.map(document => {
+        const filePath = path.resolve(projectRoot, document.input);
+        return {
+            manifestPath,
+            projectRoot,
+            filePath,
+            formats: document.formats && document.formats.length > 0 ? document.formats : [defaultFormat],
+            options: {
+                outputDirectory,
+                outputName: document.output ?? path.basename(filePath, '.adoc'),
+                // テーマはビルド時に入力ファイルからの相対パスとして扱う
+                pdfTheme: document.theme
+                    ? path.relative(path.dirname(filePath), path.resolve(projectRoot, document.theme))
+                    : undefined,
+                attributes: { ...manifest.attributes, ...document.attributes }
+            }
+        };
+    });
+}
+
+// ビルド対象となるエントリドキュメントと依存ファイルを収集する
+// マルチルートワークスペースではフォルダごとに、マニフェストの有無で収集方法を切り替える
+export async function collectEntryDocuments(): Promise<EntryDocument[]> {
+    const entries: EntryDocument[] = [];
+    const manifestFolders = new Set<string>();
+    const getFolderKey = (uri: vscode.Uri) => vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() ?? '';
+    const getPdfTheme = (filePath: string) => vscode.workspace.getConfiguration('asciidocSuite', vscode.Uri.file(filePath))
+        .get<string>('build.pdfTheme', './theme/document-theme.yml');
+
+    // マニフェストがあれば宣言されたドキュメントを対象とする
+    for (const manifestPath of await findProjectManifests()) {
+        try {
+            const manifest = await loadProjectManifest(manifestPath);
+            for (const target of resolveManifestTargets(manifestPath, manifest, getDefaultOutputFormat(manifestPath))) {
+                const dependencies = await collectDependencies(target.filePath);
+                dependencies.add(path.resolve(manifestPath));
+                const themePath = target.options.pdfTheme ?? getPdfTheme(target.filePath);
+                if (themePath) {
+                    dependencies.add(path.resolve(path.dirname(target.filePath), themePath));
+                }
+                entries.push({ target, dependencies });
+                manifestFolders.add(getFolderKey(vscode.Uri.file(manifestPath)));
+            }
+        } catch (error) {
+            vscode.window.showWarningMessage(`マニフェストを読み込めませんでした: ${manifestPath}`);
+        }
+    }
+
+    // マニフェストがないフォルダでは、他のファイルからインクルードされていない .adoc をエントリとみなす
+    const files = (await vscode.workspace.findFiles('**/*.adoc', '**/node_modules/**', 500))
+        .filter(file => !manifestFolders.has(getFolderKey(file)));
+    const graph = new Map<string, Set<string>>();
+    for (const file of files) {
+        graph.set(path.resolve(file.fsPath), await collectDependencies(file.fsPath));
+    }
+
+    for (const [filePath, dependencies] of graph) {
+        const included = [...graph].some(([other, otherDependencies]) =>
+            other !== filePath && otherDependencies.has(filePath)
+        );
+        if (included) {
+            continue;
+        }
+
+        const pdfTheme = getPdfTheme(filePath);
+        if (pdfTheme) {
+            dependencies.add(path.resolve(path.dirname(filePath), pdfTheme));
+        }
+        entries.push({ target: { filePath, formats: [getDefaultOutputFormat(filePath)] }, dependencies });
+    }
+
+    return entries;
+}
+
+// ファイルをインクルードしているエントリドキュメント（エントリ自身を含む）
+export function findEntriesContaining(entries: EntryDocument[], filePath: string): EntryDocument[] {
+    const resolved = path.resolve(filePath);
+    return entries.filter(entry => entry.dependencies.has(resolved));
+}
+
+// プロジェクト内のドキュメントとテーマからマニフェストの雛形を作成
+// inputs を省略した場合はプロジェクト直下のすべての .adoc を対象とする
+export async function createDefaultManifest(projectPath: string, inputs?: string[]): Promise<void> {
+    if (!inputs) {
+        const entries = await fs.readdir(projectPath);
+        inputs = entries.filter(entry => entry.endsWith('.adoc')).sort();
+    }
+
+    const themeDir = path.join(projectPath, 'theme');
+    const themes = await fs.pathExists(themeDir)
+        ? (await fs.readdir(themeDir)).filter(entry => entry.endsWith('.yml')).sort()
+        : [];
+
+    const manifest: ProjectManifest = {
+        outputDirectory: './output',
+        documents: inputs.map(input => ({
+            input,
+            output: path.basename(input, '.adoc'),
+            formats: ['pdf' as OutputFormat],
+            ...(themes.length > 0 ? { theme: `./theme/${themes[0]}` } : {})
+        }))
+    };
+
+    const header = [
+        '# Asciidoc Suite プロジェクトマニフェスト',
+        '# documents に宣言したドキュメントが「Build All Documents」でビルドされます。',
+        '#   input:      エントリドキュメント（このファイルからの相対パス）',
+        '#   output:     出力ファイル名（拡張子なし）',
+        '#   formats:    出力形式（pdf / html5 / epub3）',
+        '#   theme:      PDFテーマファイル',
+        '#   attributes: ドキュメント属性の上書き',
+        ''
+    ].join('\n');
+
+    await fs.writeFile(path.join(projectPath, MANIFEST_FILE_NAME), header + YAML.stringify(manifest));
+}
+
+function normalizeAttributes(attributes: unknown): Record<string, AttributeValue> {
+    const result: Record<string, AttributeValue> = {};
+    if (!attributes || typeof attributes !== 'object') {
+        return result;
+    }
+
+    for (const [name, value] of Object.entries(attributes as Record<string, unknown>)) {
+        result[name] = typeof value === 'boolean' ? value : String(value ?? '');
+    }
+    return result;
+}
@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+export const TEMPLATE_DESCRIPTOR_NAME = 'template.json';
+export const WORKSPACE_TEMPLATE_DIRECTORY = '.asciidoc-templates';
+
+// テンプレートとしてコピーしないファイル・ディレクトリ
+const EXCLUDED_TEMPLATE_ENTRIES = [TEMPLATE_DESCRIPTOR_NAME, WORKSPACE_TEMPLATE_DIRECTORY, 'output', 'archive', '.asciidoctor', '.git', 'node_modules'];
+
+// プレースホルダーを置換するファイルの拡張子（ドキュメントとテーマ）
+const VARIABLE_TARGET_EXTENSIONS = ['.adoc', '.asciidoc', '.yml', '.yaml'];
+
+// プレースホルダーの書式: {{name}}
+export const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+
+export type TemplateSource = 'builtin' | 'user' | 'workspace';
+
+// テンプレートで宣言されたプレースホルダー
+export interface TemplateVariable {
+    name: string;
+    // 入力時の見出し（省略時は標準の見出しまたは name）
+    label?: string;
+    default?: string;
+    // 指定した場合は選択肢から選ぶ
+    options?: string[];
+}
+
+// template.json の内容
+export interface TemplateDescriptor {
+    name: string;
+    description?: string;
+    // エントリドキュメント（テンプレートからの相対パス）
+    entry: string;
+    // 作成後に開くファイル（省略時は entry）
+    openFile?: string;
+    variables?: TemplateVariable[];
+}
+
+export interface ProjectTemplate {
+    id: string;
+    source: TemplateSource;
+    directory: string;
+    descriptor: TemplateDescriptor;
+}
+
+// template.json を読み込み、内容を検証する
+export async function loadTemplateDescriptor(templateDir: string): Promise<TemplateDescriptor> {
+    const descriptorPath = path.join(templateDir, TEMPLATE_DESCRIPTOR_NAME);
+    const data = await fs.readJson(descriptorPath);
+
+    if (!data || typeof data !== 'object' || typeof data.name !== 'string' || !data.name.trim()) {
+        throw new Error(`テンプレート名（name）が指定されていません: ${descriptorPath}`);
+    }
+    if (typeof data.entry !== 'string' || !await fs.pathExists(path.join(templateDir, data.entry))) {
+        throw new Error(`エントリファイル（entry）が見つかりません: ${descriptorPath}`);
+    }
+    if (data.openFile !== undefined && typeof data.openFile !== 'string') {
+        throw new Error(`openFile は文字列で指定してください: ${descriptorPath}`);
+    }
+
+    return {
+        name: data.name,
+        description: typeof data.description === 'string' ? data.description : undefined,
+        entry: data.entry,
+        openFile: data.openFile,
+        variables: parseTemplateVariables(data.variables, descriptorPath)
+    };
+}
+
+// variables は名前の配列、またはオブジェクトの配列で指定できる
+function parseTemplateVariables(variables: unknown, descriptorPath: string): TemplateVariable[] | undefined {
+    if (variables === undefined) {
+        return undefined;
+    }
+    if (!Array.isArray(variables)) {
+        throw new Error(`variables は配列で指定してください: ${descriptorPath}`);
+    }
+
+    return variables.map((variable, index) => {
+        if (typeof variable === 'string') {
+            return { name: variable };
+        }
+        if (!variable || typeof variable !== 'object' || typeof variable.name !== 'string') {
+            throw new Error(`variables[${index}] に name が指定されていません: ${descriptorPath}`);
+        }
+        if (variable.options !== undefined && !Array.isArray(variable.options)) {
+            throw new Error(`variables[${index}] の options は配列で指定してください: ${descriptorPath}`);
+        }
+
+        return {
+            name: variable.name,
+            label: typeof variable.label === 'string' ? variable.label : undefined,
+            default: variable.default !== undefined ? String(variable.default) : undefined,
+            options: variable.options?.map(String)
+        };
+    });
+}
+
+// 設定されたテンプレートディレクトリ（~ はホームディレクトリ、相対パスは最初のワークスペースフォルダ基準）
+export function getUserTemplateDirectories(): string[] {
+    const config = vscode.workspace.getConfiguration('asciidocSuite');
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+    return config.get<string[]>('templates.directories', [])
+        .filter(directory => directory.trim())
+        .map(directory => {
+            const expanded = directory.replace(/^~(?=$|[\\/])/, os.homedir());
+            return workspaceRoot ? path.resolve(workspaceRoot, expanded) : path.resolve(expanded);
+        });
+}
+
+// 組み込み・ユーザー設定・ワークスペースのテンプレートを検索する
+export async function discoverTemplates(extensionPath: string): Promise<ProjectTemplate[]> {
+    const templates: ProjectTemplate[] = [];
+
+    templates.push(...await findTemplatesIn(path.join(extensionPath, 'template'), 'builtin'));
+    for (const directory of getUserTemplateDirectories()) {
+        templates.push(...await findTemplatesIn(directory, 'user'));
+    }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        templates.push(...await findTemplatesIn(path.join(folder.uri.fsPath, WORKSPACE_TEMPLATE_DIRECTORY), 'workspace'));
+    }
+
+    return templates;
+}
+
+// ディレクトリ直下の template.json を持つサブディレクトリをテンプレートとして読み込む
+async function findTemplatesIn(directory: string, source: TemplateSource): Promise<ProjectTemplate[]> {
+    if (!await fs.pathExists(directory)) {
+        return [];
+    }
+
+    const templates: ProjectTemplate[] = [];
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const templateDir = path.join(directory, entry.name);
+        if (!entry.isDirectory() || !await fs.pathExists(path.join(templateDir, TEMPLATE_DESCRIPTOR_NAME))) {
+            continue;
+        }
+
+        try {
+            const descriptor = await loadTemplateDescriptor(templateDir);
+            templates.push({ id: entry.name, source, directory: templateDir, descriptor });
+        } catch (error) {
+            vscode.window.showWarningMessage(`テンプレートを読み込めませんでした: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return templates;
+}
+
+// テンプレートの内容をプロジェクトディレクトリへコピーする
+export async function copyTemplate(template: ProjectTemplate, projectPath: string): Promise<void> {
+    await copyWithoutExcluded(template.directory, projectPath);
+}
+
+// ドキュメントとテーマファイル中のプレースホルダーを入力値で置換する
+// 値が与えられていないプレースホルダーはそのまま残す
+export async function applyTemplateVariables(projectPath: string, values: Record<string, string>): Promise<void> {
+    const visit = async (directory: string) => {
+        for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                await visit(entryPath);
+                continue;
+            }
+            if (!entry.isFile() || !VARIABLE_TARGET_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                continue;
+            }
+
+            const content = await fs.readFile(entryPath, 'utf8');
+            const replaced = content.replace(TEMPLATE_PLACEHOLDER_PATTERN, (match, name: string) =>
+                Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+            );
+            if (replaced !== content) {
+                await fs.writeFile(entryPath, replaced);
+            }
+        }
+    };
+
+    await visit(projectPath);
+}
+
+// プロジェクトをテンプレートとして保存する
+export async function saveTemplate(
+    projectPath: string,
+    templateDir: string,
+    descriptor: TemplateDescriptor
+): Promise<void> {
+    await copyWithoutExcluded(projectPath, templateDir);
+    await fs.writeFile(
+        path.join(templateDir, TEMPLATE_DESCRIPTOR_NAME),
+        JSON.stringify(descriptor, null, 2) + '\n'
+    );
+}
+
+// 直下の除外対象を除いて再帰的にコピーする
+// 保存先がコピー元の内側にあってもよいよう、fs.copy を使わずに走査する
+async function copyWithoutExcluded(source: string, destination: string): Promise<void> {
+    const destinationRoot = path.resolve(destination);
+
+    const copyDirectory = async (sourceDir: string, destinationDir: string, excluded: string[]) => {
+        await fs.ensureDir(destinationDir);
+        for (const entry of await fs.readdir(sourceDir, { withFileTypes: true })) {
+            const sourcePath = path.join(sourceDir, entry.name);
+            const destinationPath = path.join(destinationDir, entry.name);
+            if (excluded.includes(entry.name) || path.resolve(sourcePath) === destinationRoot) {
+                continue;
+            }
+
+            if (entry.isDirectory()) {
+                await copyDirectory(sourcePath, destinationPath, []);
+            } else if (entry.isFile() && !await fs.pathExists(destinationPath)) {
+                await fs.copyFile(sourcePath, destinationPath);
+            }
+        }
+    };
+
+    await copyDirectory(source, destination, EXCLUDED_TEMPLATE_ENTRIES);
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+
+// ウィザードの1ステップ（options があれば選択肢、なければ自由入力）
+export interface WizardStep {
+    key: string;
+    prompt: string;
+    value?: string;
+    options?: string[];
+    validate?: (value: string) => string | undefined;
+}
+
+type StepResult = { value: string } | 'back' | undefined;
+
+// 戻るボタン付きの複数ステップ入力を行う
+// キャンセルされた場合は undefined を返す
+export async function runWizard(title: string, steps: WizardStep[]): Promise<Record<string, string> | undefined> {
+    const values: Record<string, string> = {};
+    let index = 0;
+
+    while (index < steps.length) {
+        const step = steps[index];
+        const current = { ...step, value: values[step.key] ?? step.value };
+        const result = step.options
+            ? await showPick(title, index, steps.length, current)
+            : await showInput(title, index, steps.length, current);
+
+        if (result === undefined) {
+            return undefined;
+        }
+        if (result === 'back') {
+            index = Math.max(index - 1, 0);
+            continue;
+        }
+
+        values[step.key] = result.value;
+        index++;
+    }
+
+    return values;
+}
+
+function showInput(title: string, index: number, total: number, step: WizardStep): Promise<StepResult> {
+    return new Promise(resolve => {
+        const input = vscode.window.createInputBox();
+        input.title = title;
+        input.step = index + 1;
+        input.totalSteps = total;
+        input.prompt = step.prompt;
+        input.value = step.value ?? '';
+        input.ignoreFocusOut = true;
+        input.buttons = index > 0 ? [vscode.QuickInputButtons.Back] : [];
+
+        let result: StepResult;
+        input.onDidChangeValue(value => {
+            input.validationMessage = step.validate?.(value);
+        });
+        input.onDidTriggerButton(() => {
+            result = 'back';
+            input.hide();
+        });
+        input.onDidAccept(() => {
+            const message = step.validate?.(input.value);
+            if (message) {
+                input.validationMessage = message;
+                return;
+            }
+            result = { value: input.value };
+            input.hide();
+        });
+        input.onDidHide(() => {
+            input.dispose();
+            resolve(result);
+        });
+        input.show();
+    });
+}
+
+function showPick(title: string, index: number, total: number, step: WizardStep): Promise<StepResult> {
+    return new Promise(resolve => {
+        const pick = vscode.window.createQuickPick();
+        pick.title = title;
+        pick.step = index + 1;
+        pick.totalSteps = total;
+        pick.placeholder = step.prompt;
+        pick.ignoreFocusOut = true;
+        pick.items = (step.options ?? []).map(option => ({ label: option }));
+        pick.activeItems = pick.items.filter(item => item.label === step.value);
+        pick.buttons = index > 0 ? [vscode.QuickInputButtons.Back] : [];
+
+        let result: StepResult;
+        pick.onDidTriggerButton(() => {
+            result = 'back';
+            pick.hide();
+        });
+        pick.onDidAccept(() => {
+            const selected = pick.selectedItems[0] ?? pick.activeItems[0];
+            if (selected) {
+                result = { value: selected.label };
+                pick.hide();
+            }
+        });
+        pick.onDidHide(() => {
+            pick.dispose();
+            resolve(result);
+        });
+        pick.show();
+    });
+}
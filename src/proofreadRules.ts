@@ -0,0 +1,497 @@
+import type { LintProblem } from './lintRules';
+
+export const DEFAULT_MAX_SENTENCE_LENGTH = 100;
+
+// 日本語の文章校正の設定（terms は推奨表記と置き換える表記の辞書）
+export interface ProofreadSettings {
+    terms: Record<string, string[]>;
+    maxSentenceLength: number;
+}
+
+export type BlockKind = 'paragraph' | 'list' | 'cell' | 'heading' | 'title';
+
+// 文章として校正する範囲（行ごとに、構文部分を空白に置き換えたテキストを持つ）
+export interface ProseSegment {
+    line: number;
+    character: number;
+    text: string;
+}
+
+export interface ProseBlock {
+    kind: BlockKind;
+    segments: ProseSegment[];
+}
+
+// ブロック内の文（offset はブロック内の連結したテキストでの位置）
+interface Sentence {
+    block: ProseBlock;
+    text: string;
+    offset: number;
+}
+
+interface Position {
+    line: number;
+    character: number;
+}
+
+const VERBATIM_DELIMITER_PATTERN = /^(-{4,}|\.{4,}|\+{4,}|\/{4,})$/;
+const STRUCTURE_LINE_PATTERN = /^(\[.*\]|:[\w-]+!?:.*|[|,:!]?={3,}|={4,}|\*{4,}|_{4,}|--|\+|'{3,}|<{3,}|[a-z][\w-]*::\S*\[.*\])$/;
+// 直後の段落を文章として扱わないブロック属性
+const VERBATIM_STYLE_PATTERN = /^\[(source|listing|literal|pass|stem|latexmath|asciimath|plantuml|mermaid|graphviz|ditaa|[a-z]+diagram)\b/;
+const LIST_ITEM_PATTERN = /^(\s*(?:\*+|-|\.+|\d+\.|[a-z]\.)\s+(?:\[[ x*]\]\s+)?)(.*)$/;
+const DESCRIPTION_ITEM_PATTERN = /^(.*?(?::{2,4}|;;))(?:\s+(.*))?$/;
+const ADMONITION_PATTERN = /^((?:NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+)(.*)$/;
+const SENTENCE_END = '。！？!?．';
+const CLOSING_BRACKETS = '」』）)】';
+
+const KATAKANA_WORD_PATTERN = /[ァ-ヺ][ァ-ヺー]+/g;
+const FULL_WIDTH_ALNUM_PATTERN = /[Ａ-Ｚａ-ｚ０-９]+/g;
+const HALF_WIDTH_KANA_PATTERN = /[｡-ﾟ]+/g;
+
+// 文節の中で繰り返しを検査する助詞（名詞の直後にあるものだけを助詞とみなす）
+const REPEATABLE_PARTICLES = ['より', 'から', 'は', 'が', 'を', 'で'];
+const NOUN_END_PATTERN = /[\p{Script=Han}ァ-ヺーA-Za-z0-9Ａ-Ｚａ-ｚ０-９」』）)]$/u;
+// 「上がる」「繋がった」などの動詞の一部
+const VERB_AFTER_GA_PATTERN = /^[っらりるれろ]/;
+const ADJACENT_PARTICLE_PATTERN = /(から|より|が|を|に|で|は|と|へ)\1/g;
+// 「はは（母）」「からから」などの語と区別するため、名詞の直後にある場合だけ重複とみなす助詞
+const NOUN_ONLY_ADJACENT_PARTICLES = ['から', 'より', 'は', 'と', 'へ'];
+
+// 文末の表現と、もう一方の文体での表現
+const POLITE_ENDINGS: [string, string | undefined][] = [
+    ['ではありません', 'ではない'], ['ありません', 'ない'], ['できません', 'できない'], ['しません', 'しない'],
+    ['でした', 'であった'], ['でしょう', 'であろう'], ['です', 'である'],
+    ['します', 'する'], ['できます', 'できる'], ['あります', 'ある'], ['います', 'いる'], ['なります', 'なる'], ['られます', 'られる'],
+    ['ません', undefined], ['ました', undefined], ['ましょう', undefined], ['ます', undefined], ['ください', undefined]
+];
+const PLAIN_ENDINGS: [string, string | undefined][] = [
+    ['ではない', 'ではありません'], ['であった', 'でした'], ['であろう', 'でしょう'], ['である', 'です'], ['だった', 'でした']
+];
+
+function blank(text: string): string {
+    return ' '.repeat(text.length);
+}
+
+// インラインのコード・パススルー・属性参照・マクロのターゲットなどを空白に置き換える（位置は変えない）
+function maskInline(line: string): string {
+    return line
+        .replace(/`[^`]+`|\+\+\+.*?\+\+\+|\+\+.+?\+\+|(?<![\w+])\+[^+\s](?:[^+]*?[^+\s])?\+(?![\w+])|pass:[a-z,]*\[.*?\]/g, blank)
+        .replace(/\b(?:image|icon|kbd|btn|menu|stem|latexmath|asciimath|anchor|indexterm2?):[^\s[]*\[[^\]]*\]/g, blank)
+        .replace(/(?:\b(?:link|xref|mailto|footnote|footnoteref|include):|\b(?:https?|ftp|file):\/\/)[^\s[]*\[?/g, blank)
+        .replace(/<<[^,>]*>>|<<[^,>]*,|>>/g, blank)
+        .replace(/\[\[[^\]]*\]\]|\[[#.][^\]]*\]|\{[\w-]+\}|\(\(\(.*?\)\)\)/g, blank);
+}
+
+// AsciiDoc の構造を解釈し、校正の対象となる文章をブロックごとに取り出す
+export function extractProse(text: string): ProseBlock[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: ProseBlock[] = [];
+    let current: ProseBlock | undefined;
+    let verbatim: string | undefined;
+    let skipParagraph = false;
+    let inTable = false;
+
+    const flush = () => {
+        if (current) {
+            blocks.push(current);
+        }
+        current = undefined;
+    };
+    const segment = (line: number, character: number, content: string): ProseSegment =>
+        ({ line, character, text: maskInline(content) });
+
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+        if (verbatim) {
+            if (trimmed === verbatim) {
+                verbatim = undefined;
+            }
+            return;
+        }
+        if (VERBATIM_DELIMITER_PATTERN.test(trimmed)) {
+            flush();
+            verbatim = trimmed;
+            return;
+        }
+        if (trimmed === '') {
+            flush();
+            skipParagraph = false;
+            return;
+        }
+        if (/^\|={3,}$/.test(trimmed)) {
+            flush();
+            inTable = !inTable;
+            return;
+        }
+        if (trimmed.startsWith('//') || STRUCTURE_LINE_PATTERN.test(trimmed)) {
+            flush();
+            skipParagraph = VERBATIM_STYLE_PATTERN.test(trimmed);
+            return;
+        }
+        if (skipParagraph) {
+            return;
+        }
+
+        // 表のセルはそれぞれ別の文章として扱う（区切りのない行は直前のセルの続き）
+        if (inTable) {
+            const separator = /(?<!\\)\|/g;
+            let match: RegExpExecArray | null;
+            let start = -1;
+            const cells: [number, number][] = [];
+            while ((match = separator.exec(line)) !== null) {
+                if (start >= 0) {
+                    cells.push([start, match.index]);
+                }
+                start = match.index + 1;
+            }
+            if (start < 0) {
+                current?.segments.push(segment(index, 0, line));
+                return;
+            }
+            cells.push([start, line.length]);
+            for (const [cellStart, cellEnd] of cells) {
+                flush();
+                current = { kind: 'cell', segments: [segment(index, cellStart, line.slice(cellStart, cellEnd))] };
+            }
+            return;
+        }
+
+        const heading = /^(=+\s+)(.*)$/.exec(line);
+        const title = /^\.[^\s.]/.test(line);
+        if (heading || title) {
+            flush();
+            const offset = heading ? heading[1].length : 1;
+            blocks.push({ kind: heading ? 'heading' : 'title', segments: [segment(index, offset, line.slice(offset))] });
+            return;
+        }
+
+        // 行頭が空白の行はリテラル段落
+        if (!current && /^\s/.test(line)) {
+            return;
+        }
+
+        // 説明リストは用語を除いた説明の部分を対象とする
+        const listItem = LIST_ITEM_PATTERN.exec(line);
+        const description = listItem ? null : DESCRIPTION_ITEM_PATTERN.exec(line);
+        if (description && description[2] === undefined) {
+            flush();
+            return;
+        }
+        if (listItem || description) {
+            flush();
+            const offset = listItem ? listItem[1].length : line.indexOf(description![2], description![1].length);
+            current = { kind: 'list', segments: [segment(index, offset, line.slice(offset))] };
+            return;
+        }
+
+        const admonition = ADMONITION_PATTERN.exec(line);
+        if (admonition) {
+            flush();
+            current = { kind: 'paragraph', segments: [segment(index, admonition[1].length, admonition[2])] };
+            return;
+        }
+
+        if (!current) {
+            current = { kind: 'paragraph', segments: [] };
+        }
+        current.segments.push(segment(index, 0, line));
+    });
+    flush();
+
+    return blocks;
+}
+
+// ブロック内の位置を行と桁に変換する（行の間は改行なしで連結しているため、行末の位置は終了位置としてのみ使う）
+function toPosition(block: ProseBlock, offset: number, isEnd = false): Position {
+    let remaining = offset;
+    for (const segment of block.segments) {
+        if (remaining < segment.text.length || (isEnd && remaining === segment.text.length)) {
+            return { line: segment.line, character: segment.character + remaining };
+        }
+        remaining -= segment.text.length;
+    }
+    const last = block.segments[block.segments.length - 1];
+    return { line: last.line, character: last.character + last.text.length };
+}
+
+function splitSentences(block: ProseBlock): Sentence[] {
+    const text = block.segments.map(segment => segment.text).join('');
+    const sentences: Sentence[] = [];
+    let start = 0;
+
+    for (let index = 0; index < text.length; index++) {
+        if (!SENTENCE_END.includes(text[index])) {
+            continue;
+        }
+        let end = index + 1;
+        while (end < text.length && (SENTENCE_END.includes(text[end]) || CLOSING_BRACKETS.includes(text[end]))) {
+            end++;
+        }
+        // 半角の ! ? は文中（! の後に英字が続く場合など）では区切らない
+        if (/[!?]/.test(text[index]) && end < text.length && text[end] !== ' ') {
+            continue;
+        }
+        sentences.push({ block, text: text.slice(start, end), offset: start });
+        start = end;
+        index = end - 1;
+    }
+    if (text.slice(start).trim()) {
+        sentences.push({ block, text: text.slice(start), offset: start });
+    }
+
+    // 先頭の空白は文に含めない
+    return sentences.map(sentence => {
+        const leading = sentence.text.length - sentence.text.trimStart().length;
+        return { ...sentence, text: sentence.text.slice(leading).trimEnd(), offset: sentence.offset + leading };
+    }).filter(sentence => sentence.text !== '');
+}
+
+function problemAt(
+    block: ProseBlock,
+    start: number,
+    end: number,
+    rule: LintProblem['rule'],
+    message: string,
+    replacement?: { title: string; newText: string }
+): LintProblem {
+    const from = toPosition(block, start);
+    const to = toPosition(block, end, true);
+    // 行をまたぐ範囲は開始行の末尾までとする
+    const endCharacter = to.line === from.line ? to.character : Number.MAX_SAFE_INTEGER;
+    const problem: LintProblem = { rule, message, line: from.line, character: from.character, endCharacter };
+    if (replacement && to.line === from.line) {
+        problem.fix = {
+            title: replacement.title,
+            edits: [{
+                line: from.line,
+                character: from.character,
+                endLine: to.line,
+                endCharacter: to.character,
+                newText: replacement.newText
+            }]
+        };
+    }
+    return problem;
+}
+
+// 一文の長さ（空白を除く文字数）
+function checkLongSentences(sentences: Sentence[], maxLength: number): LintProblem[] {
+    return sentences
+        .filter(sentence => sentence.block.kind === 'paragraph' || sentence.block.kind === 'list')
+        .map(sentence => ({ sentence, length: [...sentence.text.replace(/\s/g, '')].length }))
+        .filter(({ length }) => length > maxLength)
+        .map(({ sentence, length }) => problemAt(
+            sentence.block, sentence.offset, sentence.offset + sentence.text.length, 'long-sentence',
+            `一文が長すぎます（${length}文字、上限${maxLength}文字）。文を分けることを検討してください。`
+        ));
+}
+
+function findEnding(text: string, endings: [string, string | undefined][]): [string, string | undefined] | undefined {
+    return endings.find(([ending]) => text.endsWith(ending));
+}
+
+// です・ます調とである調の混在（多い方の文体に合わせる）
+function checkSentenceStyle(sentences: Sentence[]): LintProblem[] {
+    const classified = sentences
+        .filter(sentence => sentence.block.kind !== 'heading' && sentence.block.kind !== 'title' && /[。．]$/.test(sentence.text))
+        .map(sentence => {
+            const body = sentence.text.replace(new RegExp(`[${SENTENCE_END}${CLOSING_BRACKETS}]+$`), '');
+            const polite = findEnding(body, POLITE_ENDINGS);
+            const plain = polite ? undefined : findEnding(body, PLAIN_ENDINGS)
+                ?? (/[\p{Script=Han}ァ-ヺーA-Za-z0-9」）]だ$/u.test(body) ? ['だ', 'です'] as [string, string] : undefined);
+            return { sentence, body, polite, plain };
+        });
+
+    const politeCount = classified.filter(item => item.polite).length;
+    const plainCount = classified.filter(item => item.plain).length;
+    if (politeCount === 0 || plainCount === 0) {
+        return [];
+    }
+
+    const preferPolite = politeCount >= plainCount;
+    const majority = preferPolite ? '「です・ます」調' : '「である」調';
+    return classified
+        .filter(item => preferPolite ? item.plain : item.polite)
+        .map(({ sentence, body, polite, plain }) => {
+            const [ending, replacement] = (preferPolite ? plain : polite)!;
+            const end = sentence.offset + body.length;
+            return problemAt(
+                sentence.block, end - ending.length, end, 'mixed-style',
+                `文体が混在しています。本文の多くは${majority}ですが、この文は「${ending}」で終わっています。`,
+                replacement ? { title: `「${ending}」を「${replacement}」に変更`, newText: replacement } : undefined
+            );
+        });
+}
+
+// 同じ助詞の繰り返し（読点までの文節の中）と連続した重複
+function checkDuplicateParticles(sentences: Sentence[]): LintProblem[] {
+    const problems: LintProblem[] = [];
+
+    for (const sentence of sentences) {
+        let clauseStart = 0;
+        const clauses = sentence.text.split(/[、，,]/).map(clause => {
+            const start = clauseStart;
+            clauseStart += clause.length + 1;
+            return { clause, start };
+        });
+
+        for (const { clause, start } of clauses) {
+            const seen = new Set<string>();
+            let index = 0;
+            while (index < clause.length) {
+                const particle = REPEATABLE_PARTICLES.find(candidate => clause.startsWith(candidate, index));
+                const isParticle = particle
+                    && NOUN_END_PATTERN.test(clause.slice(Math.max(0, index - 2), index))
+                    && !(particle === 'が' && VERB_AFTER_GA_PATTERN.test(clause.slice(index + 1)));
+                if (particle && isParticle) {
+                    if (seen.has(particle)) {
+                        const offset = sentence.offset + start + index;
+                        problems.push(problemAt(
+                            sentence.block, offset, offset + particle.length, 'duplicate-particle',
+                            `助詞「${particle}」が1つの文節の中で繰り返されています。`
+                        ));
+                    }
+                    seen.add(particle);
+                    index += particle.length;
+                } else {
+                    index++;
+                }
+            }
+        }
+
+        for (const match of sentence.text.matchAll(ADJACENT_PARTICLE_PATTERN)) {
+            if (NOUN_ONLY_ADJACENT_PARTICLES.includes(match[1])
+                && !NOUN_END_PATTERN.test(sentence.text.slice(Math.max(0, match.index! - 2), match.index!))) {
+                continue;
+            }
+            const offset = sentence.offset + match.index! + match[1].length;
+            problems.push(problemAt(
+                sentence.block, offset, offset + match[1].length, 'duplicate-particle',
+                `助詞「${match[1]}」が重複しています。`,
+                { title: `重複した「${match[1]}」を削除`, newText: '' }
+            ));
+        }
+    }
+
+    return problems;
+}
+
+// 全角英数字と半角カタカナ
+function checkCharacterWidth(blocks: ProseBlock[]): LintProblem[] {
+    const problems: LintProblem[] = [];
+    for (const block of blocks) {
+        for (const segment of block.segments) {
+            for (const match of segment.text.matchAll(FULL_WIDTH_ALNUM_PATTERN)) {
+                const normalized = match[0].normalize('NFKC');
+                problems.push(segmentProblem(segment, match.index!, match[0], 'character-width',
+                    `全角英数字「${match[0]}」は半角で表記します。`, `「${normalized}」に変更`, normalized));
+            }
+            for (const match of segment.text.matchAll(HALF_WIDTH_KANA_PATTERN)) {
+                const normalized = match[0].normalize('NFKC');
+                problems.push(segmentProblem(segment, match.index!, match[0], 'character-width',
+                    `半角カタカナ「${match[0]}」は全角で表記します。`, `「${normalized}」に変更`, normalized));
+            }
+        }
+    }
+    return problems;
+}
+
+function segmentProblem(
+    segment: ProseSegment,
+    index: number,
+    found: string,
+    rule: LintProblem['rule'],
+    message: string,
+    title: string,
+    newText: string
+): LintProblem {
+    const character = segment.character + index;
+    return {
+        rule,
+        message,
+        line: segment.line,
+        character,
+        endCharacter: character + found.length,
+        fix: {
+            title,
+            edits: [{ line: segment.line, character, endLine: segment.line, endCharacter: character + found.length, newText }]
+        }
+    };
+}
+
+// 推奨表記を含む位置で一致した表記（「ユーザー」の中の「ユーザ」など）は除く
+function isPartOfPreferred(text: string, index: number, variant: string, preferred: string): boolean {
+    for (let offset = preferred.indexOf(variant); offset >= 0; offset = preferred.indexOf(variant, offset + 1)) {
+        if (index - offset >= 0 && text.startsWith(preferred, index - offset)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// 表記揺れ（辞書の表記と、文書内で長音の有無が混在するカタカナ語）
+function checkTermVariants(blocks: ProseBlock[], terms: Record<string, string[]>): LintProblem[] {
+    const problems: LintProblem[] = [];
+    const segments = blocks.flatMap(block => block.segments);
+
+    const dictionary = Object.entries(terms).flatMap(([preferred, variants]) =>
+        variants.filter(variant => variant && variant !== preferred).map(variant => ({ preferred, variant }))
+    );
+    for (const segment of segments) {
+        for (const { preferred, variant } of dictionary) {
+            for (let index = segment.text.indexOf(variant); index >= 0; index = segment.text.indexOf(variant, index + variant.length)) {
+                if (!isPartOfPreferred(segment.text, index, variant, preferred)) {
+                    problems.push(segmentProblem(segment, index, variant, 'term-variant',
+                        `表記揺れ: 「${variant}」は「${preferred}」と表記します。`, `「${preferred}」に変更`, preferred));
+                }
+            }
+        }
+    }
+
+    // 辞書にないカタカナ語は、文書内で多く使われている表記に合わせる（同数の場合は長音ありを優先）
+    const known = new Set(dictionary.flatMap(({ preferred, variant }) => [preferred, variant]));
+    const counts = new Map<string, number>();
+    for (const segment of segments) {
+        for (const match of segment.text.matchAll(KATAKANA_WORD_PATTERN)) {
+            counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+        }
+    }
+    for (const segment of segments) {
+        for (const match of segment.text.matchAll(KATAKANA_WORD_PATTERN)) {
+            const word = match[0];
+            const other = word.endsWith('ー') ? word.slice(0, -1) : `${word}ー`;
+            const otherCount = counts.get(other) ?? 0;
+            const count = counts.get(word)!;
+            if (known.has(word) || known.has(other) || otherCount === 0 || otherCount < count || (otherCount === count && word.endsWith('ー'))) {
+                continue;
+            }
+            problems.push(segmentProblem(segment, match.index!, word, 'term-variant',
+                `表記揺れ: 「${word}」と「${other}」が混在しています。`, `「${other}」に統一`, other));
+        }
+    }
+
+    return problems;
+}
+
+// 日本語の文書か（lang 属性がなければ仮名を含むかで判断する）
+export function isJapaneseDocument(text: string, lang?: string): boolean {
+    const declared = /^:lang:\s*(\S*)/m.exec(text)?.[1] ?? lang;
+    if (declared) {
+        return /^ja\b/i.test(declared);
+    }
+    return /[぀-ヿ]/.test(text);
+}
+
+// コードブロック・属性・マクロを除いた本文を日本語の文章として校正する
+export function checkJapaneseStyle(text: string, settings: ProofreadSettings): LintProblem[] {
+    const blocks = extractProse(text);
+    const sentences = blocks.flatMap(splitSentences);
+
+    return [
+        ...checkTermVariants(blocks, settings.terms),
+        ...checkCharacterWidth(blocks),
+        ...checkSentenceStyle(sentences),
+        ...checkLongSentences(sentences, settings.maxSentenceLength),
+        ...checkDuplicateParticles(sentences)
+    ];
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { runProcess } from './processUtils';
+import { isPathInside } from './projectContext';
+
+// 前回のリリースからの変更（lines はタグにあるテキストファイルの変更された行、1始まり）
+export interface ReleaseChanges {
+    files: Set<string>;
+    lines: Map<string, number[]>;
+}
+
+const GIT_TIMEOUT_SECONDS = 10;
+const HUNK_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+const BINARY_PATTERN = /^Binary files .* and b\/(.*) differ$/;
+const ATTRIBUTE_ENTRY_PATTERN = /^:!?[\w-]+!?:/;
+// ブロック属性の行とブロックタイトル
+const BLOCK_ANNOTATION_PATTERN = /^(\[[^\]]*\]|\.[^\s.].*)$/;
+const VERBATIM_DELIMITER_PATTERN = /^(-{4,}|\.{4,}|\+{4,}|`{3,}.*)$/;
+
+function toGitPath(repository: string, filePath: string): string {
+    return path.relative(repository, filePath).split(path.sep).join('/');
+}
+
+async function git(repository: string, args: string[]) {
+    // 日本語のファイル名をエスケープせずに出力させる
+    return runProcess('git', ['-c', 'core.quotepath=off', ...args], { cwd: repository, timeoutSeconds: GIT_TIMEOUT_SECONDS });
+}
+
+export async function findGitRepository(directory: string): Promise<string | undefined> {
+    const result = await runProcess('git', ['rev-parse', '--show-toplevel'], { cwd: directory, timeoutSeconds: GIT_TIMEOUT_SECONDS });
+    return result.error ? undefined : path.resolve(result.stdout.trim());
+}
+
+// タグの書式に一致し、HEAD に含まれる最新のタグ
+export async function findLastReleaseTag(repository: string, tagPattern: string): Promise<string | undefined> {
+    const tags = await runProcess('git', ['tag', '--list', tagPattern, '--merged', 'HEAD', '--sort=-creatordate'], {
+        cwd: repository,
+        timeoutSeconds: GIT_TIMEOUT_SECONDS
+    });
+    return tags.error ? undefined : tags.stdout.split(/\r?\n/).find(line => line.trim())?.trim();
+}
+
+// git diff -U0 の出力から、ファイルごとの追加・変更された行を取り出す（削除のみの変更は行を持たない）
+export function parseDiffLines(output: string): Map<string, number[]> {
+    const changes = new Map<string, number[]>();
+    let current: number[] | undefined;
+
+    for (const line of output.split(/\r?\n/)) {
+        if (line.startsWith('+++ ')) {
+            current = line.startsWith('+++ b/') ? [] : undefined;
+            if (current) {
+                changes.set(line.slice('+++ b/'.length), current);
+            }
+            continue;
+        }
+        const binary = BINARY_PATTERN.exec(line);
+        if (binary) {
+            changes.set(binary[1], []);
+            current = undefined;
+            continue;
+        }
+        const hunk = current && HUNK_PATTERN.exec(line);
+        if (hunk) {
+            const start = Number(hunk[1]);
+            const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+            for (let lineNumber = start; lineNumber < start + count; lineNumber++) {
+                current!.push(lineNumber);
+            }
+        }
+    }
+    return changes;
+}
+
+// 作業ツリーのファイルとタグの時点の差分（タグにないファイルは新規のファイルとして files にのみ含める）
+export async function collectReleaseChanges(repository: string, tag: string, files: string[]): Promise<ReleaseChanges> {
+    const changes: ReleaseChanges = { files: new Set(), lines: new Map() };
+    const targets = files.filter(file => isPathInside(file, repository));
+    if (targets.length === 0) {
+        return changes;
+    }
+
+    const gitPaths = targets.map(file => toGitPath(repository, file));
+    const tracked = await git(repository, ['ls-tree', '-r', '--name-only', tag, '--', ...gitPaths]);
+    const diff = await git(repository, ['diff', '-U0', '--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/', tag, '--', ...gitPaths]);
+    const failure = tracked.error ?? diff.error;
+    if (failure) {
+        throw new Error(`${tag} との差分を取得できませんでした: ${failure.message}`);
+    }
+
+    const inTag = new Set(tracked.stdout.split(/\r?\n/).filter(Boolean));
+    const diffLines = parseDiffLines(diff.stdout);
+    for (const [index, file] of targets.entries()) {
+        const lines = diffLines.get(gitPaths[index]);
+        if (!inTag.has(gitPaths[index])) {
+            if (await fs.pathExists(file)) {
+                changes.files.add(file);
+            }
+        } else if (lines) {
+            changes.files.add(file);
+            changes.lines.set(file, lines);
+        }
+    }
+    return changes;
+}
+
+// 変更された行のうち、ブロックの本文の行（1始まり）を選ぶ
+// 空行・コメント・属性の定義・インクルードの行は除き、ブロック属性とタイトルの行は直後のブロックの行とする
+export function selectMarkedLines(text: string, changedLines: number[]): number[] {
+    const lines = text.split(/\r?\n/);
+    const skipped = new Set<number>();
+    const verbatim = new Set<number>();
+    let inComment = false;
+    let inVerbatim: string | undefined;
+
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!inVerbatim && trimmed === '////') {
+            inComment = !inComment;
+            skipped.add(index);
+        } else if (inComment) {
+            skipped.add(index);
+        } else if (VERBATIM_DELIMITER_PATTERN.test(trimmed)) {
+            const delimiter = trimmed.startsWith('`') ? '```' : trimmed;
+            inVerbatim = inVerbatim === delimiter ? undefined : inVerbatim ?? delimiter;
+        } else if (inVerbatim) {
+            verbatim.add(index);
+        }
+    });
+
+    const marked = new Set<number>();
+    for (const lineNumber of changedLines) {
+        let index = lineNumber - 1;
+        while (index < lines.length && !verbatim.has(index) && !skipped.has(index) && BLOCK_ANNOTATION_PATTERN.test(lines[index].trim())) {
+            index++;
+        }
+        const trimmed = lines[index]?.trim();
+        if (!trimmed || skipped.has(index)) {
+            continue;
+        }
+        if (!verbatim.has(index) && (trimmed.startsWith('//') || ATTRIBUTE_ENTRY_PATTERN.test(trimmed) || trimmed.startsWith('include::'))) {
+            continue;
+        }
+        marked.add(index + 1);
+    }
+    return [...marked].sort((a, b) => a - b);
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { collectDependencies } from './includeGraph';
+import { runProcess } from './processUtils';
+import { getResourceConfiguration, isPathInside } from './projectContext';
+import { collectEntryDocuments, findEntriesContaining } from './projectManifest';
+import { findGitRepository, findLastReleaseTag } from './releaseChanges';
+import {
+    DEFAULT_TAG_FORMAT,
+    GIT_LOG_FORMAT,
+    GitCommit,
+    ReleaseKind,
+    RevisionEntry,
+    bumpRevision,
+    findRevisionTable,
+    formatDate,
+    formatTagName,
+    parseGitLog,
+    readHeaderAttribute,
+    setHeaderAttributes,
+    updateRevisionTable
+} from './revisionHistory';
+
+const GIT_TIMEOUT_SECONDS = 10;
+
+// ドキュメントのリリース（版数・改訂日の更新、Git のコミットからの改版履歴の作成、タグの作成）
+export class ReleaseManager {
+    async releaseDocument(uri?: vscode.Uri): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        const filePath = uri?.fsPath
+            ?? (editor && editor.document.uri.scheme === 'file' && /\.(adoc|asciidoc)$/i.test(editor.document.fileName) ? editor.document.fileName : undefined);
+        if (!filePath) {
+            vscode.window.showErrorMessage('リリースするAsciiDocドキュメントを開いてください。');
+            return;
+        }
+
+        try {
+            const entryFile = await this.selectEntry(filePath);
+            if (!entryFile) {
+                return;
+            }
+
+            // 依存ファイルを書き換えるため、未保存の変更があれば中止する
+            const dependencies = [...await collectDependencies(entryFile)];
+            const documents = dependencies.filter(file => /\.(adoc|asciidoc)$/i.test(file));
+            const dirty = vscode.workspace.textDocuments.filter(document => document.isDirty && documents.includes(path.resolve(document.fileName)));
+            if (dirty.length > 0) {
+                vscode.window.showWarningMessage(`未保存のドキュメントがあります。保存してから実行してください: ${dirty.map(document => path.basename(document.fileName)).join(', ')}`);
+                return;
+            }
+
+            const entryText = await fs.readFile(entryFile, 'utf8');
+            const revnumber = await this.selectRevision(readHeaderAttribute(entryText, 'revnumber'));
+            if (!revnumber) {
+                return;
+            }
+
+            const name = path.parse(entryFile).name;
+            const tagFormat = getResourceConfiguration(entryFile).get<string>('release.tagFormat', DEFAULT_TAG_FORMAT) || DEFAULT_TAG_FORMAT;
+            const tag = formatTagName(tagFormat, name, revnumber);
+            const repository = await findGitRepository(path.dirname(entryFile));
+            const files = repository ? dependencies.filter(file => isPathInside(file, repository)) : [];
+
+            const commits = repository ? await this.collectCommits(repository, formatTagName(tagFormat, name, '*'), files) : [];
+            const selected = await this.selectCommits(commits);
+            if (!selected) {
+                return;
+            }
+
+            let changes = [...new Set(selected.map(commit => commit.subject.trim()).filter(Boolean))];
+            if (changes.length === 0) {
+                const input = await vscode.window.showInputBox({
+                    prompt: `${revnumber} の変更内容を入力してください`,
+                    validateInput: value => value.trim() ? undefined : '変更内容を入力してください'
+                });
+                if (input === undefined) {
+                    return;
+                }
+                changes = [input.trim()];
+            }
+
+            let authors = [...new Set(selected.map(commit => commit.author))];
+            if (authors.length === 0) {
+                const author = readHeaderAttribute(entryText, 'author')
+                    ?? (repository ? (await this.git(repository, ['config', 'user.name']).catch(() => '')).trim() : '');
+                authors = author ? [author] : [];
+            }
+
+            let createTag = false;
+            if (repository) {
+                const action = await vscode.window.showQuickPick([
+                    { label: 'ファイルのみ更新', description: '版数・改訂日・改版履歴を更新します', createTag: false },
+                    { label: 'コミットしてタグを作成', description: tag, createTag: true }
+                ], { placeHolder: 'リリースの方法を選択してください' });
+                if (!action) {
+                    return;
+                }
+                createTag = action.createTag;
+                if (createTag && await this.tagExists(repository, tag)) {
+                    vscode.window.showErrorMessage(`タグ ${tag} は既に存在します。設定の版数またはタグの書式を確認してください。`);
+                    return;
+                }
+            }
+
+            const changedFiles = await this.writeRelease(entryFile, documents, { revnumber, revdate: formatDate(new Date()), authors, changes });
+
+            if (repository && createTag) {
+                const message = `${name} ${revnumber} をリリース`;
+                await this.git(repository, ['add', '--', ...changedFiles]);
+                await this.git(repository, ['commit', '-m', message, '--', ...changedFiles]);
+                await this.git(repository, ['tag', '-a', tag, '-m', message]);
+                vscode.window.showInformationMessage(`${name} を ${revnumber} としてリリースし、タグ ${tag} を作成しました。`);
+            } else {
+                vscode.window.showInformationMessage(`${name} の版数を ${revnumber} に更新し、改版履歴に追加しました。`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`リリースに失敗しました: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // ファイルをインクルードしているエントリドキュメント（複数あれば選択、なければファイル自身）
+    private async selectEntry(filePath: string): Promise<string | undefined> {
+        const entries = findEntriesContaining(await collectEntryDocuments(), filePath);
+        if (entries.length <= 1) {
+            return entries[0]?.target.filePath ?? filePath;
+        }
+        const selected = await vscode.window.showQuickPick(
+            entries.map(entry => ({ label: vscode.workspace.asRelativePath(entry.target.filePath), filePath: entry.target.filePath })),
+            { placeHolder: 'リリースするドキュメントを選択してください' }
+        );
+        return selected?.filePath;
+    }
+
+    private async selectRevision(current: string | undefined): Promise<string | undefined> {
+        const bump = (kind: ReleaseKind) => bumpRevision(current, kind);
+        const selected = await vscode.window.showQuickPick([
+            { label: bump('minor'), description: 'マイナー版', value: bump('minor') },
+            { label: bump('major'), description: 'メジャー版', value: bump('major') },
+            { label: '版数を指定...', description: '', value: undefined }
+        ], { placeHolder: current ? `現在の版数: ${current}` : '版数が設定されていません' });
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.value) {
+            return selected.value;
+        }
+        const input = await vscode.window.showInputBox({
+            prompt: '版数を入力してください',
+            value: current,
+            validateInput: value => value.trim() ? undefined : '版数を入力してください'
+        });
+        return input?.trim();
+    }
+
+    // 改版履歴に載せるコミットを選択する（キャンセルした場合は undefined）
+    private async selectCommits(commits: GitCommit[]): Promise<GitCommit[] | undefined> {
+        if (commits.length === 0) {
+            return [];
+        }
+        const items = commits.map(commit => ({
+            label: commit.subject,
+            description: `${commit.hash} ${commit.author} ${commit.date}`,
+            picked: true,
+            commit
+        }));
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: '改版履歴に載せるコミットを選択してください（選択しない場合は変更内容を入力します）'
+        });
+        return selected?.map(item => item.commit);
+    }
+
+    // 改訂日と版数をエントリドキュメントに、改版履歴を履歴の表を持つドキュメント（なければエントリ）に書き込む
+    private async writeRelease(
+        entryFile: string,
+        documents: string[],
+        entry: RevisionEntry
+    ): Promise<string[]> {
+        const texts = new Map<string, string>();
+        for (const document of documents) {
+            texts.set(document, await fs.readFile(document, 'utf8'));
+        }
+        const entryPath = path.resolve(entryFile);
+        const historyFile = documents.find(document => findRevisionTable(texts.get(document)!)) ?? entryPath;
+
+        const updated = new Map<string, string>();
+        updated.set(entryPath, setHeaderAttributes(texts.get(entryPath) ?? await fs.readFile(entryPath, 'utf8'), {
+            revnumber: entry.revnumber,
+            revdate: entry.revdate
+        }));
+        updated.set(historyFile, updateRevisionTable(updated.get(historyFile) ?? texts.get(historyFile)!, entry));
+
+        for (const [file, text] of updated) {
+            await fs.writeFile(file, text, 'utf8');
+        }
+        return [...updated.keys()];
+    }
+
+    // 前回のリリースタグ以降に依存ファイルを変更したコミット（タグがなければすべてのコミット）
+    private async collectCommits(repository: string, tagPattern: string, files: string[]): Promise<GitCommit[]> {
+        if (files.length === 0) {
+            return [];
+        }
+        const lastTag = await findLastReleaseTag(repository, tagPattern);
+
+        const result = await runProcess('git', [
+            'log', '--no-merges', `--format=${GIT_LOG_FORMAT}`, '--date=short',
+            ...(lastTag ? [`${lastTag}..HEAD`] : []),
+            '--', ...files.map(file => path.relative(repository, file))
+        ], { cwd: repository, timeoutSeconds: GIT_TIMEOUT_SECONDS });
+        // コミットがまだないリポジトリでは履歴なしとして扱う
+        return result.error ? [] : parseGitLog(result.stdout);
+    }
+
+    private async tagExists(repository: string, tag: string): Promise<boolean> {
+        const result = await runProcess('git', ['rev-parse', '-q', '--verify', `refs/tags/${tag}`], {
+            cwd: repository,
+            timeoutSeconds: GIT_TIMEOUT_SECONDS
+        });
+        return !result.error;
+    }
+
+    private async git(repository: string, args: string[]): Promise<string> {
+        const result = await runProcess('git', args, { cwd: repository, timeoutSeconds: GIT_TIMEOUT_SECONDS });
+        if (result.error) {
+            const detail = result.stderr.trim();
+            throw new Error(detail ? `${result.error.message}\n${detail}` : result.error.message);
+        }
+        return result.stdout;
+    }
+}
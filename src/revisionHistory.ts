@@ -0,0 +1,258 @@
+import { readHeader } from './lintRules';
+
+export type ReleaseKind = 'major' | 'minor';
+
+// 改版履歴の1行分
+export interface RevisionEntry {
+    revnumber: string;
+    revdate: string;
+    authors: string[];
+    changes: string[];
+}
+
+export interface GitCommit {
+    hash: string;
+    author: string;
+    date: string;
+    subject: string;
+}
+
+type ColumnRole = 'revnumber' | 'revdate' | 'author' | 'changes';
+
+interface TableCell {
+    line: number;
+    text: string;
+}
+
+const HISTORY_HEADING_PATTERN = /^(=+)\s+(改版履歴|改訂履歴|変更履歴|更新履歴|Revision History|Change History|Changelog)\s*$/i;
+// 見出しのセルの名前から列の内容を決める（順に判定する）
+const COLUMN_ROLE_PATTERNS: [ColumnRole, RegExp][] = [
+    ['revnumber', /版|バージョン|version|rev/i],
+    ['revdate', /日付|年月日|date/i],
+    ['author', /作成者|更新者|変更者|担当|author/i],
+    ['changes', /内容|概要|変更|change|description|summary/i]
+];
+const DEFAULT_ROLES: ColumnRole[] = ['revnumber', 'revdate', 'author', 'changes'];
+export const GIT_LOG_FORMAT = '%h%x1f%an%x1f%ad%x1f%s';
+export const DEFAULT_TAG_FORMAT = '{name}-v{revnumber}';
+
+// 版数を上げる（1.0 → マイナー 1.1 / メジャー 2.0、接頭辞の v などは残す）
+export function bumpRevision(current: string | undefined, kind: ReleaseKind): string {
+    const match = /^(\D*)(\d+)(?:\.(\d+))?/.exec(current?.trim() ?? '');
+    if (!match) {
+        return kind === 'major' ? '1.0' : '0.1';
+    }
+    const [, prefix, major, minor] = match;
+    return kind === 'major'
+        ? `${prefix}${Number(major) + 1}.0`
+        : `${prefix}${major}.${Number(minor ?? 0) + 1}`;
+}
+
+function compareRevisions(a: string, b: string): number {
+    const numbers = (value: string) => (value.match(/\d+/g) ?? []).map(Number);
+    const [left, right] = [numbers(a), numbers(b)];
+    for (let index = 0; index < Math.max(left.length, right.length); index++) {
+        const difference = (left[index] ?? 0) - (right[index] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+export function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// ドキュメントヘッダーの属性の値
+export function readHeaderAttribute(text: string, name: string): string | undefined {
+    const lines = text.split(/\r?\n/);
+    const { lastLine } = readHeader(lines);
+    for (let index = 0; index <= lastLine; index++) {
+        const attribute = /^:([\w-]+):\s*(.*)$/.exec(lines[index].trim());
+        if (attribute?.[1] === name) {
+            return attribute[2].trim();
+        }
+    }
+    return undefined;
+}
+
+// ヘッダーの属性を書き換える（ない属性はヘッダーの末尾に追加する）
+export function setHeaderAttributes(text: string, values: Record<string, string>): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+    const { lastLine } = readHeader(lines);
+    const added: string[] = [];
+
+    for (const [name, value] of Object.entries(values)) {
+        const index = lines.findIndex((line, lineIndex) => lineIndex <= lastLine && new RegExp(`^:${name}!?:`).test(line.trim()));
+        if (index >= 0) {
+            lines[index] = `:${name}: ${value}`;
+        } else {
+            added.push(`:${name}: ${value}`);
+        }
+    }
+
+    if (added.length > 0) {
+        // ヘッダーがない場合は文書の先頭に属性を置き、本文との間を空ける
+        const separator = lastLine < 0 && lines[0]?.trim() ? [''] : [];
+        lines.splice(lastLine + 1, 0, ...added, ...separator);
+    }
+    return lines.join(eol);
+}
+
+// 行に含まれるセル（| で始まる部分）を取り出す
+function parseCells(lines: string[], from: number, to: number): TableCell[] {
+    const cells: TableCell[] = [];
+    for (let index = from; index < to; index++) {
+        const line = lines[index];
+        const separators = [...line.matchAll(/(?<!\\)\|/g)].map(match => match.index!);
+        if (separators.length === 0) {
+            if (line.trim() && cells.length > 0) {
+                cells[cells.length - 1].text += `\n${line.trim()}`;
+            }
+            continue;
+        }
+        separators.forEach((separator, position) => {
+            const end = separators[position + 1] ?? line.length;
+            // 次のセルの指定子（a| や 2+| など）は除く
+            const text = line.slice(separator + 1, end).replace(/\s+\S*$/, match => /^\s+(\d+[*+])?[<^>]?(\.[<^>])?[aehlmdsv]?$/.test(match) ? '' : match);
+            cells.push({ line: index, text: text.trim() });
+        });
+    }
+    return cells;
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
+
+// 列の内容に合わせて改版履歴の1行を組み立てる（変更が複数ある場合は箇条書きのセル）
+function renderRow(entry: RevisionEntry, roles: (ColumnRole | undefined)[]): string[] {
+    return roles.flatMap(role => {
+        switch (role) {
+            case 'revnumber':
+                return [`|${escapeCell(entry.revnumber)}`];
+            case 'revdate':
+                return [`|${entry.revdate}`];
+            case 'author':
+                return [`|${escapeCell(entry.authors.join('、'))}`];
+            case 'changes':
+                return entry.changes.length > 1
+                    ? ['a|', ...entry.changes.map(change => `* ${escapeCell(change)}`)]
+                    : [`|${escapeCell(entry.changes[0] ?? '')}`];
+            default:
+                return ['|'];
+        }
+    });
+}
+
+// 改版履歴の見出しのセクションにある表
+export function findRevisionTable(text: string): { start: number; end: number } | undefined {
+    const lines = text.split(/\r?\n/);
+    const heading = lines.findIndex(line => HISTORY_HEADING_PATTERN.test(line));
+    if (heading < 0) {
+        return undefined;
+    }
+    const level = /^=+/.exec(lines[heading])![0].length;
+    let start = -1;
+    for (let index = heading + 1; index < lines.length; index++) {
+        const sectionHeading = /^(=+)\s/.exec(lines[index]);
+        if (sectionHeading && sectionHeading[1].length <= level) {
+            return undefined;
+        }
+        if (/^\|={3,}\s*$/.test(lines[index])) {
+            if (start < 0) {
+                start = index;
+            } else {
+                return { start, end: index };
+            }
+        }
+    }
+    return undefined;
+}
+
+// 改版履歴の表に行を追加する（同じ版数の行があれば置き換え、新しい順の表では先頭に追加する）
+// 改版履歴の表がなければ文書の末尾にセクションを作成する
+export function updateRevisionTable(text: string, entry: RevisionEntry): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+    const table = findRevisionTable(text);
+
+    if (!table) {
+        const section = [
+            '== 改版履歴',
+            '',
+            '[cols="1,2,2,3", options="header"]',
+            '|===',
+            '|版数 |日付 |作成者 |変更内容',
+            '',
+            ...renderRow(entry, DEFAULT_ROLES),
+            '|==='
+        ];
+        while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+            lines.pop();
+        }
+        return [...lines, '', ...section, ''].join(eol);
+    }
+
+    // 見出し行（options="header" または直後の空行で判断）と列の内容
+    const attributes = lines[table.start - 1] ?? '';
+    const firstRow = lines.findIndex((line, index) => index > table.start && line.trim() !== '');
+    const hasHeader = firstRow > 0 && firstRow < table.end
+        && (/options\s*=\s*"?[^"\]]*header/.test(attributes) || /%header/.test(attributes) || lines[firstRow + 1]?.trim() === '');
+    const headerCells = hasHeader ? parseCells(lines, firstRow, firstRow + 1) : [];
+    const roles = headerCells.length > 0
+        ? headerCells.map(cell => COLUMN_ROLE_PATTERNS.find(([, pattern]) => pattern.test(cell.text))?.[0])
+        : DEFAULT_ROLES;
+    const columnCount = roles.length;
+
+    const bodyStart = hasHeader ? firstRow + 1 : table.start + 1;
+    const cells = parseCells(lines, bodyStart, table.end);
+    const rows: { start: number; end: number; revnumber: string }[] = [];
+    const versionColumn = Math.max(0, roles.indexOf('revnumber'));
+    for (let index = 0; index + columnCount <= cells.length; index += columnCount) {
+        rows.push({ start: cells[index].line, end: table.end, revnumber: cells[index + versionColumn].text });
+        if (rows.length > 1) {
+            rows[rows.length - 2].end = cells[index].line;
+        }
+    }
+    // 行の範囲の末尾の空行は含めない
+    rows.forEach(row => {
+        while (row.end - 1 > row.start && lines[row.end - 1].trim() === '') {
+            row.end--;
+        }
+    });
+
+    const rendered = renderRow(entry, roles);
+    const existing = rows.find(row => row.revnumber === entry.revnumber);
+    if (existing) {
+        lines.splice(existing.start, existing.end - existing.start, ...rendered);
+        return lines.join(eol);
+    }
+
+    // 行の間の空行の有無は既存の表に合わせる
+    const separated = rows.length === 0 || lines[rows[0].start - 1]?.trim() === '';
+    const descending = rows.length > 1 && compareRevisions(rows[0].revnumber, rows[rows.length - 1].revnumber) > 0;
+    if (descending) {
+        lines.splice(rows[0].start, 0, ...rendered, ...(separated ? [''] : []));
+    } else {
+        const insertAt = rows.length > 0 ? rows[rows.length - 1].end : table.end;
+        lines.splice(insertAt, 0, ...(separated ? [''] : []), ...rendered);
+    }
+    return lines.join(eol);
+}
+
+// git log --format=GIT_LOG_FORMAT の出力を解析する
+export function parseGitLog(output: string): GitCommit[] {
+    return output.split(/\r?\n/).filter(line => line.trim()).map(line => {
+        const [hash, author, date, ...subject] = line.split('\x1f');
+        return { hash, author, date, subject: subject.join('\x1f') };
+    });
+}
+
+// タグ名の書式（{name} は文書のファイル名、{revnumber} は版数）
+export function formatTagName(format: string, name: string, revnumber: string): string {
+    return format.replace(/\{name\}/g, name).replace(/\{revnumber\}/g, revnumber);
+}
@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { ProjectManager } from './projectManager';
 import { BuildManager } from './buildManager';
+import { WatchManager } from './watchManager';
+import { BuildProfileManager } from './buildProfileManager';
+import { getProfileLabel } from './buildProfiles';
 
 export class AsciidocSidebarProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'asciidocActions';
@@ -8,14 +11,30 @@ export class AsciidocSidebarProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private projectManager: ProjectManager;
     private buildManager: BuildManager;
+    private watchManager: WatchManager;
+    private profileManager: BuildProfileManager;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
         projectManager: ProjectManager,
-        buildManager: BuildManager
+        buildManager: BuildManager,
+        watchManager: WatchManager,
+        profileManager: BuildProfileManager
     ) {
         this.projectManager = projectManager;
         this.buildManager = buildManager;
+        this.watchManager = watchManager;
+        this.profileManager = profileManager;
+
+        // 選択中のビルドプロファイルの表示を更新
+        this.profileManager.onDidChangeProfile(() => {
+            this._view?.webview.postMessage({ type: 'profile', label: this.getProfileText() });
+        });
+    }
+
+    private getProfileText(): string {
+        const profile = this.profileManager.activeProfile;
+        return profile ? getProfileLabel(profile) : 'なし';
     }
 
     public resolveWebviewView(
@@ -39,12 +58,36 @@ export class AsciidocSidebarProvider implements vscode.WebviewViewProvider {
                 case 'createProject':
                     await this.projectManager.createNewProject();
                     break;
+                case 'saveProjectAsTemplate':
+                    await this.projectManager.saveProjectAsTemplate();
+                    break;
                 case 'buildPdf':
                     await this.buildManager.buildPdf();
                     break;
+                case 'buildHtml':
+                    await this.buildManager.buildHtml();
+                    break;
+                case 'buildEpub':
+                    await this.buildManager.buildEpub();
+                    break;
+                case 'buildAllFormats':
+                    await this.buildManager.buildAllFormats();
+                    break;
+                case 'buildAll':
+                    await this.buildManager.buildAll();
+                    break;
+                case 'toggleWatch':
+                    this.watchManager.toggleWatch();
+                    break;
                 case 'exportArchive':
                     await this.buildManager.exportArchive();
                     break;
+                case 'selectBuildProfile':
+                    await this.profileManager.selectProfile();
+                    break;
+                case 'checkEnvironment':
+                    await vscode.commands.executeCommand('asciidocSuite.checkEnvironment');
+                    break;
             }
         });
     }
@@ -130,27 +173,51 @@ export class AsciidocSidebarProvider implements vscode.WebviewViewProvider {
             <div class="section">
                 <div class="section-title">プロジェクト管理</div>
                 <div class="description">
-                    新しいAsciidocプロジェクトを作成します。テクニカルドキュメントまたはマニュアル用のテンプレートを選択できます。
+                    新しいAsciidocプロジェクトを作成します。組み込みテンプレートのほか、独自のテンプレートも選択できます。
                 </div>
                 <button class="action-button" onclick="createProject()">
                     <span class="icon">📁</span>新規プロジェクト作成
                 </button>
+                <button class="action-button" onclick="saveProjectAsTemplate()">
+                    <span class="icon">💾</span>テンプレートとして保存
+                </button>
             </div>
             
             <div class="section">
                 <div class="section-title">ビルド</div>
                 <div class="description">
-                    AsciidocファイルをPDFに変換します。Dockerコンテナを使用して安全にビルドが実行されます。
+                    AsciidocファイルをPDF・HTML・EPUBに変換します。ネイティブAsciidoctorまたはDockerコンテナでビルドが実行されます。ビルドプロファイルで下書き・レビュー・リリース用の設定を切り替えられます。
                 </div>
+                <button class="action-button" onclick="selectBuildProfile()">
+                    <span class="icon">🏷️</span>プロファイル: <span id="profile-label">${escapeHtml(this.getProfileText())}</span>
+                </button>
                 <button class="action-button" onclick="buildPdf()">
                     <span class="icon">�</span>PDFビルド
                 </button>
+                <button class="action-button" onclick="buildHtml()">
+                    <span class="icon">🌐</span>HTMLビルド
+                </button>
+                <button class="action-button" onclick="buildEpub()">
+                    <span class="icon">📱</span>EPUBビルド
+                </button>
+                <button class="action-button" onclick="buildAllFormats()">
+                    <span class="icon">📚</span>全形式ビルド
+                </button>
+                <button class="action-button" onclick="buildAll()">
+                    <span class="icon">🗂️</span>全ドキュメントビルド
+                </button>
+                <button class="action-button" onclick="toggleWatch()">
+                    <span class="icon">👁️</span>監視モード切替
+                </button>
+                <button class="action-button" onclick="checkEnvironment()">
+                    <span class="icon">🩺</span>環境診断
+                </button>
             </div>
             
             <div class="section">
                 <div class="section-title">エクスポート</div>
                 <div class="description">
-                    ビルド成果物をZIPアーカイブとしてエクスポートします。配布や共有に便利です。
+                    ビルド成果物やソース一式をアーカイブとしてエクスポートします。配布や共有に便利です。
                 </div>
                 <button class="action-button" onclick="exportArchive()">
                     <span class="icon">📦</span>アーカイブエクスポート
@@ -176,13 +243,71 @@ export class AsciidocSidebarProvider implements vscode.WebviewViewProvider {
                     });
                 }
                 
+                function buildHtml() {
+                    vscode.postMessage({
+                        type: 'buildHtml'
+                    });
+                }
+                
+                function buildEpub() {
+                    vscode.postMessage({
+                        type: 'buildEpub'
+                    });
+                }
+                
+                function buildAllFormats() {
+                    vscode.postMessage({
+                        type: 'buildAllFormats'
+                    });
+                }
+                
+                function buildAll() {
+                    vscode.postMessage({
+                        type: 'buildAll'
+                    });
+                }
+                
+                function toggleWatch() {
+                    vscode.postMessage({
+                        type: 'toggleWatch'
+                    });
+                }
+                
+                function saveProjectAsTemplate() {
+                    vscode.postMessage({
+                        type: 'saveProjectAsTemplate'
+                    });
+                }
+
                 function exportArchive() {
                     vscode.postMessage({
                         type: 'exportArchive'
                     });
                 }
+
+                function checkEnvironment() {
+                    vscode.postMessage({
+                        type: 'checkEnvironment'
+                    });
+                }
+
+                function selectBuildProfile() {
+                    vscode.postMessage({
+                        type: 'selectBuildProfile'
+                    });
+                }
+
+                window.addEventListener('message', event => {
+                    if (event.data.type === 'profile') {
+                        document.getElementById('profile-label').textContent = event.data.label;
+                    }
+                });
             </script>
         </body>
         </html>`;
     }
 }
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,159 @@
+import { TextDecoder } from 'util';
+
+export type ColumnAlignment = 'left' | 'center' | 'right';
+
+export interface TableOptions {
+    header: boolean;
+    // 列ごとの配置（省略時は数値だけの列を右寄せにする）
+    alignments?: (ColumnAlignment | undefined)[];
+}
+
+const ALIGNMENT_MARKS: Record<ColumnAlignment, string> = {
+    left: '<',
+    center: '^',
+    right: '>'
+};
+
+const NUMBER_PATTERN = /^[-+]?[¥$€]?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?%?$/;
+const MAX_COLUMN_WIDTH = 40;
+const MAX_COLUMN_WEIGHT = 10;
+
+// UTF-8 として読めない場合は Excel が出力する Shift_JIS とみなす
+export function decodeText(data: Uint8Array): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(data);
+    } catch {
+        return new TextDecoder('shift_jis').decode(data);
+    }
+}
+
+// 拡張子と1行目から区切り文字を決める（タブ・セミコロン・カンマ）
+export function detectDelimiter(text: string, fileName: string): string {
+    if (/\.tsv$/i.test(fileName)) {
+        return '\t';
+    }
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const counts: [string, number][] = ['\t', ';', ','].map(delimiter => [delimiter, firstLine.split(delimiter).length - 1]);
+    const [delimiter, count] = counts.reduce((best, current) => current[1] > best[1] ? current : best, [',', 0]);
+    return count > 0 ? delimiter : ',';
+}
+
+// RFC 4180 形式（引用符で囲んだ値の中の区切り文字・改行・"" を含む）の行と列に分ける
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let quoted = false;
+    let index = 0;
+
+    const endValue = () => {
+        row.push(value);
+        value = '';
+    };
+    const endRow = () => {
+        endValue();
+        rows.push(row);
+        row = [];
+    };
+
+    while (index < text.length) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                value += '"';
+                index += 2;
+                continue;
+            }
+            if (char === '"') {
+                quoted = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"' && value === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            endValue();
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+            if (char === '\r' && text[index + 1] === '\n') {
+                index++;
+            }
+        } else {
+            value += char;
+        }
+        index++;
+    }
+    if (value !== '' || row.length > 0) {
+        endRow();
+    }
+
+    // 末尾の空行を除き、列数をそろえる
+    while (rows.length > 0 && rows[rows.length - 1].every(cell => cell.trim() === '')) {
+        rows.pop();
+    }
+    const columnCount = Math.max(0, ...rows.map(cells => cells.length));
+    return rows.map(cells => [...cells, ...Array<string>(columnCount - cells.length).fill('')]);
+}
+
+// 全角文字を2文字分として数えた表示幅
+function displayWidth(text: string): number {
+    let width = 0;
+    for (const char of text) {
+        width += /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(char) || char.codePointAt(0)! > 0xffff ? 2 : 1;
+    }
+    return width;
+}
+
+function escapeCell(text: string): string {
+    // セル内の改行は強制改行として残す
+    return text.trim()
+        .replace(/\|/g, '\\|')
+        .replace(/(?<!\\)\{(?=[\w-]+\})/g, '\\{')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .join(' +\n');
+}
+
+// 列の内容の幅から相対的な列幅（cols 属性）を決める
+function columnSpecs(rows: string[][], options: TableOptions): string[] {
+    const columnCount = rows[0]?.length ?? 0;
+    const body = options.header ? rows.slice(1) : rows;
+    const widths = Array.from({ length: columnCount }, (_, column) =>
+        Math.min(MAX_COLUMN_WIDTH, Math.max(1, ...rows.map(cells => Math.max(...cells[column].split(/\r?\n/).map(displayWidth)))))
+    );
+    const narrowest = Math.max(2, Math.min(...widths));
+
+    return widths.map((width, column) => {
+        const values = body.map(cells => cells[column].trim()).filter(Boolean);
+        const alignment = options.alignments?.[column]
+            ?? (values.length > 0 && values.every(value => NUMBER_PATTERN.test(value)) ? 'right' : undefined);
+        const weight = Math.min(MAX_COLUMN_WEIGHT, Math.max(1, Math.round(width / narrowest)));
+        return `${alignment && alignment !== 'left' ? ALIGNMENT_MARKS[alignment] : ''}${weight}`;
+    });
+}
+
+// 行と列から AsciiDoc の表を組み立てる（見出し行は1行、本文はセルごとに1行）
+export function renderAsciidocTable(rows: string[][], options: TableOptions): string {
+    if (rows.length === 0) {
+        return '';
+    }
+
+    const attributes = [`cols="${columnSpecs(rows, options).join(',')}"`];
+    if (options.header) {
+        attributes.push('options="header"');
+    }
+
+    const lines = [`[${attributes.join(', ')}]`, '|==='];
+    const [first, ...rest] = rows;
+    if (options.header) {
+        lines.push(first.map(cell => `|${escapeCell(cell)}`).join(' '));
+    }
+    for (const cells of options.header ? rest : rows) {
+        if (lines.length > 2) {
+            lines.push('');
+        }
+        lines.push(...cells.map(cell => `|${escapeCell(cell)}`));
+    }
+    lines.push('|===');
+    return lines.join('\n');
+}
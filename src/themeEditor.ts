@@ -0,0 +1,865 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BuildManager } from './buildManager';
+import {
+    LoadedTheme,
+    PAGE_SIZES,
+    ThemeIssue,
+    loadPdfTheme,
+    resolveThemeValue,
+    toPoints,
+    updateThemeText
+} from './pdfTheme';
+
+type FieldKind = 'text' | 'number' | 'color' | 'select' | 'font' | 'margin';
+
+// フォームで編集できるテーマのキー（path はキーが未定義の場合に追加する位置）
+interface ThemeField {
+    key: string;
+    path: string[];
+    label: string;
+    group: string;
+    kind: FieldKind;
+    options?: string[];
+}
+
+const RUNNING_CONTENT_POSITIONS = ['left', 'center', 'right'] as const;
+const POSITION_LABELS: Record<typeof RUNNING_CONTENT_POSITIONS[number], string> = { left: '左', center: '中央', right: '右' };
+
+const THEME_FIELDS: ThemeField[] = [
+    { key: 'page_size', path: ['page', 'size'], label: '用紙サイズ', group: 'ページ', kind: 'select', options: Object.keys(PAGE_SIZES) },
+    { key: 'page_layout', path: ['page', 'layout'], label: '向き', group: 'ページ', kind: 'select', options: ['portrait', 'landscape'] },
+    { key: 'page_margin', path: ['page', 'margin'], label: '余白（上・右・下・左）', group: 'ページ', kind: 'margin' },
+    { key: 'page_background_color', path: ['page', 'background_color'], label: '背景色', group: 'ページ', kind: 'color' },
+    { key: 'base_font_family', path: ['base', 'font_family'], label: 'フォント', group: '本文', kind: 'font' },
+    { key: 'base_font_size', path: ['base', 'font_size'], label: '文字サイズ', group: '本文', kind: 'number' },
+    { key: 'base_font_color', path: ['base', 'font_color'], label: '文字色', group: '本文', kind: 'color' },
+    { key: 'heading_font_family', path: ['heading', 'font_family'], label: 'フォント', group: '見出し', kind: 'font' },
+    { key: 'heading_font_color', path: ['heading', 'font_color'], label: '文字色', group: '見出し', kind: 'color' },
+    { key: 'heading_h1_font_color', path: ['heading', 'h1_font_color'], label: 'レベル1の文字色', group: '見出し', kind: 'color' },
+    { key: 'heading_h2_font_color', path: ['heading', 'h2_font_color'], label: 'レベル2の文字色', group: '見出し', kind: 'color' },
+    { key: 'heading_h3_font_color', path: ['heading', 'h3_font_color'], label: 'レベル3の文字色', group: '見出し', kind: 'color' },
+    { key: 'header_height', path: ['header', 'height'], label: '高さ', group: 'ヘッダー', kind: 'number' },
+    ...runningContentFields('header', 'ヘッダー'),
+    { key: 'footer_height', path: ['footer', 'height'], label: '高さ', group: 'フッター', kind: 'number' },
+    ...runningContentFields('footer', 'フッター')
+];
+
+function runningContentFields(category: 'header' | 'footer', group: string): ThemeField[] {
+    const fields: ThemeField[] = [];
+    for (const side of ['recto', 'verso']) {
+        for (const position of RUNNING_CONTENT_POSITIONS) {
+            fields.push({
+                key: `${category}_${side}_${position}_content`,
+                path: [category, side, position, 'content'],
+                label: `${side === 'recto' ? '奇数' : '偶数'}ページ・${POSITION_LABELS[position]}`,
+                group,
+                kind: 'text'
+            });
+        }
+    }
+    return fields;
+}
+
+// プレビューで実行時の値の代わりに表示する属性
+const SAMPLE_ATTRIBUTES: Record<string, string> = {
+    'page-number': '1',
+    'page-count': '12',
+    'document-title': 'サンプル文書',
+    'document-subtitle': 'サブタイトル',
+    'section-title': '1. はじめに',
+    'chapter-title': '1. はじめに',
+    'section-or-chapter-title': '1. はじめに',
+    revnumber: '1.0',
+    revdate: new Date().toISOString().slice(0, 10),
+    author: '作成者'
+};
+
+const SAMPLE_DOCUMENT = `= テーマ見本
+:lang: ja
+:doctype: book
+:revnumber: 1.0
+:toc:
+
+== 見出しレベル1
+
+本文の段落です。テーマの文字サイズ、行間、色を確認するための文章です。
+*強調*、_斜体_、\`等幅\` の表示も確認できます。
+
+=== 見出しレベル2
+
+* 箇条書きの項目
+* 箇条書きの項目
+** 入れ子の項目
+
+NOTE: 注記ブロックの表示です。
+
+==== 見出しレベル3
+
+.表のタイトル
+[cols="1,3"]
+|===
+|項目 |説明
+
+|項目A |説明文
+|項目B |説明文
+|===
+
+[source,java]
+----
+public class Sample {
+    public static void main(String[] args) {
+        System.out.println("Hello");
+    }
+}
+----
+`;
+
+export function isThemeFile(filePath: string): boolean {
+    return /\.ya?ml$/i.test(filePath)
+        && (/theme\.ya?ml$/i.test(path.basename(filePath)) || path.basename(path.dirname(filePath)) === 'theme');
+}
+
+// フォントカタログの名前からプレビューで使用するCSSのフォント指定を作る
+function toCssFontFamily(family: unknown): string {
+    const name = String(family ?? '');
+    const generic = /mono|mn$|courier|code/i.test(name) ? 'monospace'
+        : /serif|mincho|明朝|times/i.test(name) && !/sans/i.test(name) ? 'serif'
+        : 'sans-serif';
+    return name ? `"${name.replace(/"/g, '')}", ${generic}` : generic;
+}
+
+function toCssColor(value: unknown, fallback: string): string {
+    if (typeof value === 'number') {
+        return `#${String(value).padStart(6, '0')}`;
+    }
+    const text = String(value ?? '');
+    if (text === 'transparent') {
+        return text;
+    }
+    return /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(text) ? `#${text.replace(/^#/, '')}` : fallback;
+}
+
+// PDFのテーマを検証し、フォームで主要なキーを編集してサンプルページを表示する
+export class ThemeEditor {
+    public static readonly viewType = 'asciidocSuite.themeEditor';
+
+    private panel?: vscode.WebviewPanel;
+    private theme?: LoadedTheme;
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    // 最後に検証したときに問題があったファイル（テーマごと）
+    private diagnosedFiles = new Map<string, string[]>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly buildManager: BuildManager) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('asciidoc-theme');
+        this.disposables.push(
+            this.diagnosticCollection,
+            vscode.workspace.onDidOpenTextDocument(document => this.validateDocument(document)),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                this.validateDocument(document);
+                if (this.theme && this.theme.chain.includes(path.resolve(document.fileName))) {
+                    this.reload();
+                }
+            })
+        );
+        vscode.workspace.textDocuments.forEach(document => this.validateDocument(document));
+    }
+
+    // テーマエディタを開く（未指定の場合はアクティブなエディタまたは選択したテーマ）
+    async openThemeEditor(uri?: vscode.Uri): Promise<void> {
+        const themeFile = uri?.fsPath ?? await this.selectThemeFile();
+        if (!themeFile) {
+            return;
+        }
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                ThemeEditor.viewType,
+                'PDFテーマエディタ',
+                vscode.ViewColumn.Beside,
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            this.panel.webview.html = this.getHtmlForWebview(this.panel.webview);
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.theme = undefined;
+            }, null, this.disposables);
+
+            this.panel.webview.onDidReceiveMessage(async data => {
+                switch (data.type) {
+                    case 'setValue':
+                        await this.setValue(data.key, data.value);
+                        break;
+                    case 'reveal':
+                        await this.revealIssue(data.file, data.line);
+                        break;
+                    case 'openSource':
+                        if (this.theme) {
+                            await vscode.window.showTextDocument(vscode.Uri.file(this.theme.file), { viewColumn: vscode.ViewColumn.One });
+                        }
+                        break;
+                    case 'buildSample':
+                        await this.buildSamplePdf();
+                        break;
+                }
+            }, null, this.disposables);
+        }
+
+        this.panel.title = `テーマ: ${path.basename(themeFile)}`;
+        this.theme = await this.loadTheme(themeFile);
+        this.postState();
+    }
+
+    private async selectThemeFile(): Promise<string | undefined> {
+        const activeFile = vscode.window.activeTextEditor?.document.fileName;
+        if (activeFile && isThemeFile(activeFile)) {
+            return activeFile;
+        }
+
+        const files = (await vscode.workspace.findFiles('**/*.{yml,yaml}', '**/node_modules/**'))
+            .filter(file => isThemeFile(file.fsPath));
+        if (files.length === 0) {
+            vscode.window.showErrorMessage('ワークスペース内にPDFテーマファイル（theme/*.yml）が見つかりません。');
+            return undefined;
+        }
+        if (files.length === 1) {
+            return files[0].fsPath;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            files.map(file => ({ label: path.basename(file.fsPath), description: vscode.workspace.asRelativePath(file), file: file.fsPath })),
+            { placeHolder: '編集するPDFテーマを選択してください' }
+        );
+        return selected?.file;
+    }
+
+    private async reload(): Promise<void> {
+        if (!this.theme) {
+            return;
+        }
+        this.theme = await this.loadTheme(this.theme.file);
+        this.postState();
+    }
+
+    // テーマを読み込み、問題を診断結果として表示する
+    private async loadTheme(themeFile: string): Promise<LoadedTheme> {
+        const theme = await loadPdfTheme(themeFile);
+        this.publishDiagnostics(theme);
+        return theme;
+    }
+
+    private async validateDocument(document: vscode.TextDocument): Promise<void> {
+        if (document.uri.scheme !== 'file' || !isThemeFile(document.fileName)) {
+            return;
+        }
+        try {
+            this.publishDiagnostics(await loadPdfTheme(document.fileName));
+        } catch (error) {
+            // 読み込めなかった場合は、前回の結果の代わりにエラーをテーマファイルの診断結果として表示する
+            const themeFile = path.resolve(document.fileName);
+            for (const file of this.diagnosedFiles.get(themeFile) ?? []) {
+                this.diagnosticCollection.delete(vscode.Uri.file(file));
+            }
+            const line = (error as { mark?: { line?: number } }).mark?.line ?? 0;
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+                `テーマを検証できませんでした: ${error instanceof Error ? error.message : error}`,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'asciidoc-theme';
+            this.diagnosticCollection.set(document.uri, [diagnostic]);
+            this.diagnosedFiles.set(themeFile, [themeFile]);
+        }
+    }
+
+    private publishDiagnostics(theme: LoadedTheme): void {
+        // 前回の検証で問題があったファイルの診断結果を消去する
+        for (const file of this.diagnosedFiles.get(theme.file) ?? []) {
+            this.diagnosticCollection.delete(vscode.Uri.file(file));
+        }
+
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+        for (const issue of theme.issues) {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(issue.line, 0, issue.line, Number.MAX_SAFE_INTEGER),
+                issue.message,
+                issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'asciidoc-theme';
+            const list = byFile.get(issue.file) ?? [];
+            list.push(diagnostic);
+            byFile.set(issue.file, list);
+        }
+
+        for (const [file, diagnostics] of byFile) {
+            this.diagnosticCollection.set(vscode.Uri.file(file), diagnostics);
+        }
+        this.diagnosedFiles.set(theme.file, [...byFile.keys()]);
+    }
+
+    // フォームの値をテーマファイルに反映する
+    private async setValue(key: string, rawValue: string | string[]): Promise<void> {
+        const field = THEME_FIELDS.find(item => item.key === key);
+        if (!this.theme || !field) {
+            return;
+        }
+
+        const toScalar = (text: string): string | number => /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text;
+        let value: unknown;
+        if (Array.isArray(rawValue)) {
+            const values = rawValue.map(item => item.trim());
+            if (values.some(item => item) && values.some(item => !item)) {
+                vscode.window.showErrorMessage('余白は上・右・下・左のすべてを入力してください。');
+                return;
+            }
+            value = values.every(item => !item) ? undefined : values.map(toScalar);
+        } else {
+            const text = rawValue.trim();
+            value = !text ? undefined
+                : field.kind === 'number' ? toScalar(text)
+                : field.kind === 'color' ? text.replace(/^#/, '')
+                : text;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(this.theme.file);
+            const text = document.getText();
+            const updated = updateThemeText(text, key, field.path, value);
+            if (updated === text) {
+                return;
+            }
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(text.length)), updated);
+            await vscode.workspace.applyEdit(edit);
+            // 保存時に再読み込みされる
+            await document.save();
+        } catch (error) {
+            vscode.window.showErrorMessage(`テーマを更新できませんでした: ${error instanceof Error ? error.message : error}`);
+            this.postState();
+        }
+    }
+
+    private async revealIssue(file: string, line: number): Promise<void> {
+        const position = new vscode.Position(line, 0);
+        await vscode.window.showTextDocument(vscode.Uri.file(file), {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position)
+        });
+    }
+
+    // サンプル文書をこのテーマでPDFにビルドして開く
+    private async buildSamplePdf(): Promise<void> {
+        if (!this.theme) {
+            return;
+        }
+
+        const themeFile = this.theme.file;
+        const errors = this.theme.issues.filter(issue => issue.severity === 'error').length;
+        if (errors > 0) {
+            const answer = await vscode.window.showWarningMessage(
+                `テーマに${errors}件のエラーがあります。このままサンプルPDFを生成しますか？`,
+                '生成',
+                'キャンセル'
+            );
+            if (answer !== '生成') {
+                return;
+            }
+        }
+
+        // コンテナでもビルドできるよう、ワークスペース内に作成する
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(themeFile));
+        const baseDir = workspaceFolder?.uri.fsPath ?? path.dirname(themeFile);
+        const sampleDir = path.join(baseDir, '.asciidoctor', 'theme-preview');
+        const sampleFile = path.join(sampleDir, 'theme-sample.adoc');
+        await fs.ensureDir(sampleDir);
+        await fs.writeFile(sampleFile, SAMPLE_DOCUMENT, 'utf8');
+
+        const result = await this.buildManager.buildDocuments([{
+            filePath: sampleFile,
+            formats: ['pdf'],
+            options: {
+                outputDirectory: sampleDir,
+                outputName: 'theme-sample',
+                pdfTheme: path.relative(sampleDir, themeFile).split(path.sep).join('/'),
+                applyProfile: false,
+                recordHistory: false
+            }
+        }]);
+
+        const pdfFile = path.join(sampleDir, 'theme-sample.pdf');
+        if (result && !result.cancelled && result.failures.length === 0 && await fs.pathExists(pdfFile)) {
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(pdfFile), vscode.ViewColumn.Beside);
+        } else if (result && !result.cancelled) {
+            vscode.window.showErrorMessage('サンプルPDFの生成に失敗しました。出力パネルを確認してください。');
+        }
+    }
+
+    private postState(): void {
+        if (!this.panel || !this.theme) {
+            return;
+        }
+
+        const theme = this.theme;
+        const relative = (file: string) => vscode.workspace.asRelativePath(file);
+        const families = ['Helvetica', 'Times-Roman', 'Courier', ...theme.fontCatalog.keys()];
+        const display = (value: unknown) => value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+
+        const fields = THEME_FIELDS.map(field => {
+            const entry = theme.values.get(field.key);
+            const own = entry && entry.file === theme.file ? entry.value : undefined;
+            const options = field.kind === 'font' ? families : field.options;
+            return {
+                ...field,
+                options,
+                value: field.kind === 'margin'
+                    ? (Array.isArray(own) ? own : own !== undefined ? [own, own, own, own] : ['', '', '', '']).map(display)
+                    : display(own),
+                // 継承元の値（またはこのファイルの値の計算結果）
+                resolved: display(resolveThemeValue(theme, field.key))
+            };
+        });
+
+        this.panel.webview.postMessage({
+            type: 'update',
+            state: {
+                file: relative(theme.file),
+                chain: theme.chain.map(relative),
+                extendsBuiltin: theme.extendsBuiltin,
+                issues: theme.issues.map((issue: ThemeIssue) => ({ ...issue, label: `${relative(issue.file)}:${issue.line + 1}` })),
+                fields,
+                preview: this.createPreviewModel(theme)
+            }
+        });
+    }
+
+    // サンプルページの描画に必要な値をポイント単位で求める
+    private createPreviewModel(theme: LoadedTheme) {
+        const value = (key: string) => resolveThemeValue(theme, key);
+        const points = (key: string, fallback: number) => toPoints(value(key)) ?? fallback;
+
+        const size = value('page_size');
+        let [width, height] = Array.isArray(size) && size.length === 2
+            ? [toPoints(size[0]) ?? PAGE_SIZES.A4[0], toPoints(size[1]) ?? PAGE_SIZES.A4[1]]
+            : PAGE_SIZES[String(size ?? 'A4').toUpperCase()] ?? PAGE_SIZES.A4;
+        if (value('page_layout') === 'landscape') {
+            [width, height] = [height, width];
+        }
+
+        const rawMargin = value('page_margin');
+        const margins = (Array.isArray(rawMargin) ? rawMargin : [rawMargin ?? '0.5in']).map(item => toPoints(item) ?? 36);
+        const margin = margins.length === 4 ? margins
+            : margins.length === 2 ? [margins[0], margins[1], margins[0], margins[1]]
+            : [margins[0], margins[0], margins[0], margins[0]];
+
+        const baseSize = points('base_font_size', 10.5);
+        const baseColor = toCssColor(value('base_font_color'), '#333333');
+        const baseFamily = value('base_font_family');
+        const headingFamily = value('heading_font_family') ?? baseFamily;
+        const headingColor = toCssColor(value('heading_font_color'), baseColor);
+
+        const headings = [1, 2, 3].map(level => ({
+            level,
+            size: points(`heading_h${level}_font_size`, baseSize * [2.2, 1.7, 1.4][level - 1]),
+            color: toCssColor(value(`heading_h${level}_font_color`), headingColor),
+            font: toCssFontFamily(value(`heading_h${level}_font_family`) ?? headingFamily),
+            bold: String(value(`heading_h${level}_font_style`) ?? value('heading_font_style') ?? 'bold').includes('bold')
+        }));
+
+        const substitute = (content: unknown) => String(content ?? '')
+            .replace(/\{([\w-]+)\}/g, (match, name: string) => SAMPLE_ATTRIBUTES[name] ?? match)
+            .replace(/image:[^\[]*\[[^\]]*\]/g, '[画像]')
+            .replace(/<[^>]+>/g, '');
+        const running = (category: 'header' | 'footer') => {
+            const height = toPoints(value(`${category}_height`));
+            return height === undefined ? undefined : {
+                height,
+                size: points(`${category}_font_size`, baseSize * 0.85),
+                color: toCssColor(value(`${category}_font_color`), baseColor),
+                background: toCssColor(value(`${category}_background_color`), 'transparent'),
+                content: Object.fromEntries(RUNNING_CONTENT_POSITIONS.map(position =>
+                    [position, substitute(value(`${category}_recto_${position}_content`))]
+                ))
+            };
+        };
+
+        return {
+            width,
+            height,
+            margin,
+            background: toCssColor(value('page_background_color'), '#ffffff'),
+            base: {
+                size: baseSize,
+                color: baseColor,
+                font: toCssFontFamily(baseFamily),
+                lineHeight: Number(value('base_line_height')) || 1.15,
+                align: String(value('base_text_align') ?? 'left')
+            },
+            headings,
+            header: running('header'),
+            footer: running('footer')
+        };
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+        <html lang="ja">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>PDFテーマエディタ</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 0 16px 32px;
+                }
+
+                .toolbar {
+                    position: sticky;
+                    top: 0;
+                    display: flex;
+                    gap: 8px;
+                    align-items: center;
+                    padding: 8px 0;
+                    background-color: var(--vscode-editor-background);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    z-index: 1;
+                }
+
+                .toolbar .file {
+                    flex: 1;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                button {
+                    padding: 4px 10px;
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                .layout {
+                    display: flex;
+                    gap: 24px;
+                    align-items: flex-start;
+                    margin-top: 12px;
+                }
+
+                .form {
+                    flex: 1;
+                    min-width: 280px;
+                }
+
+                .preview {
+                    position: sticky;
+                    top: 56px;
+                }
+
+                h3 {
+                    margin: 16px 0 8px;
+                    font-size: 1.05em;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                .row {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    margin: 4px 0;
+                }
+
+                .row label {
+                    width: 140px;
+                    flex-shrink: 0;
+                }
+
+                .row input[type="text"], .row select {
+                    flex: 1;
+                    min-width: 0;
+                    padding: 3px 6px;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                }
+
+                .row input[type="color"] {
+                    width: 32px;
+                    height: 24px;
+                    padding: 0;
+                    border: none;
+                    background: none;
+                }
+
+                .issues {
+                    margin: 8px 0;
+                    padding: 0;
+                    list-style: none;
+                }
+
+                .issues li {
+                    padding: 2px 0;
+                    cursor: pointer;
+                }
+
+                .issues li:hover {
+                    text-decoration: underline;
+                }
+
+                .issues .error {
+                    color: var(--vscode-errorForeground);
+                }
+
+                .issues .warning {
+                    color: var(--vscode-editorWarning-foreground);
+                }
+
+                .valid {
+                    color: var(--vscode-testing-iconPassed, var(--vscode-foreground));
+                }
+
+                .chain, .note {
+                    color: var(--vscode-descriptionForeground);
+                    font-size: 0.9em;
+                }
+
+                .page {
+                    position: relative;
+                    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.4);
+                    overflow: hidden;
+                }
+
+                .page .body {
+                    position: absolute;
+                    overflow: hidden;
+                }
+
+                .page .running {
+                    position: absolute;
+                    left: 0;
+                    right: 0;
+                    display: flex;
+                    align-items: center;
+                    white-space: nowrap;
+                }
+
+                .page .running span {
+                    flex: 1;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                }
+
+                .page .margin-guide {
+                    position: absolute;
+                    border: 1px dashed rgba(128, 128, 128, 0.5);
+                    pointer-events: none;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <span class="file" id="file"></span>
+                <button id="open-source">📝 YAMLを開く</button>
+                <button id="build-sample">📄 サンプルPDFを生成</button>
+            </div>
+            <div id="chain" class="chain"></div>
+            <div id="issues"></div>
+            <div class="layout">
+                <div class="form" id="form"></div>
+                <div class="preview">
+                    <div id="page" class="page"></div>
+                    <p class="note">簡易プレビュー（1ページ目・奇数ページ）。フォントはPCにインストールされたものを使用します。</p>
+                </div>
+            </div>
+
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                const PREVIEW_WIDTH = 320;
+
+                document.getElementById('open-source').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'openSource' });
+                });
+                document.getElementById('build-sample').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'buildSample' });
+                });
+
+                function element(tag, properties, children) {
+                    const node = document.createElement(tag);
+                    Object.assign(node, properties || {});
+                    (children || []).forEach(child => node.append(child));
+                    return node;
+                }
+
+                function renderIssues(state) {
+                    const container = document.getElementById('issues');
+                    container.replaceChildren();
+                    if (state.issues.length === 0) {
+                        container.append(element('p', { className: 'valid', textContent: '✓ テーマに問題は見つかりませんでした。' }));
+                        return;
+                    }
+                    const list = element('ul', { className: 'issues' });
+                    for (const issue of state.issues) {
+                        const item = element('li', {
+                            className: issue.severity,
+                            textContent: (issue.severity === 'error' ? '✗ ' : '⚠ ') + issue.message + '（' + issue.label + '）'
+                        });
+                        item.addEventListener('click', () => vscode.postMessage({ type: 'reveal', file: issue.file, line: issue.line }));
+                        list.append(item);
+                    }
+                    container.append(list);
+                }
+
+                function createInput(field) {
+                    const send = value => vscode.postMessage({ type: 'setValue', key: field.key, value });
+
+                    if (field.kind === 'select' || field.kind === 'font') {
+                        const select = element('select');
+                        const options = field.options.slice();
+                        if (field.value && !options.includes(field.value)) {
+                            options.unshift(field.value);
+                        }
+                        select.append(element('option', { value: '', textContent: field.resolved ? '（継承: ' + field.resolved + '）' : '（未設定）' }));
+                        options.forEach(option => select.append(element('option', { value: option, textContent: option })));
+                        select.value = field.value;
+                        select.addEventListener('change', () => send(select.value));
+                        return [select];
+                    }
+
+                    if (field.kind === 'margin') {
+                        const inputs = field.value.map(value => element('input', { type: 'text', value, size: 5 }));
+                        inputs.forEach(input => input.addEventListener('change', () => send(inputs.map(item => item.value))));
+                        return inputs;
+                    }
+
+                    const input = element('input', { type: 'text', value: field.value, placeholder: field.resolved });
+                    input.addEventListener('change', () => send(input.value));
+                    if (field.kind !== 'color') {
+                        return [input];
+                    }
+
+                    // カラーピッカーはテキストと同期する（変数参照などの場合は計算結果を表示）
+                    const picker = element('input', { type: 'color' });
+                    const hex = (field.value || field.resolved).replace(/^#/, '');
+                    if (/^[0-9a-f]{6}$/i.test(hex)) {
+                        picker.value = '#' + hex;
+                    }
+                    picker.addEventListener('change', () => {
+                        input.value = picker.value.slice(1);
+                        send(input.value);
+                    });
+                    return [picker, input];
+                }
+
+                function renderForm(state) {
+                    const form = document.getElementById('form');
+                    form.replaceChildren();
+                    let group;
+                    for (const field of state.fields) {
+                        if (field.group !== group) {
+                            group = field.group;
+                            form.append(element('h3', { textContent: group }));
+                        }
+                        form.append(element('div', { className: 'row' }, [element('label', { textContent: field.label }), ...createInput(field)]));
+                    }
+                }
+
+                function renderPreview(model) {
+                    const scale = PREVIEW_WIDTH / model.width;
+                    const px = value => (value * scale) + 'px';
+                    const page = document.getElementById('page');
+                    page.replaceChildren();
+                    Object.assign(page.style, { width: px(model.width), height: px(model.height), background: model.background });
+
+                    const [top, right, bottom, left] = model.margin;
+                    page.append(element('div', { className: 'margin-guide' }));
+                    Object.assign(page.lastChild.style, { top: px(top), right: px(right), bottom: px(bottom), left: px(left) });
+
+                    const body = element('div', { className: 'body' });
+                    Object.assign(body.style, {
+                        top: px(top), right: px(right), bottom: px(bottom), left: px(left),
+                        fontFamily: model.base.font, fontSize: px(model.base.size), color: model.base.color,
+                        lineHeight: model.base.lineHeight, textAlign: model.base.align
+                    });
+
+                    const texts = ['サンプル文書', '1. はじめに', '1.1 目的'];
+                    const paragraph = '本文の段落です。テーマの文字サイズや行間、色を確認するための文章です。The quick brown fox jumps over the lazy dog.';
+                    for (const heading of model.headings) {
+                        const node = element('div', { textContent: texts[heading.level - 1] });
+                        Object.assign(node.style, {
+                            fontFamily: heading.font, fontSize: px(heading.size), color: heading.color,
+                            fontWeight: heading.bold ? 'bold' : 'normal', margin: px(heading.size * 0.5) + ' 0', lineHeight: 1.2
+                        });
+                        body.append(node, element('p', { textContent: paragraph }));
+                    }
+                    page.append(body);
+
+                    for (const [name, running] of [['header', model.header], ['footer', model.footer]]) {
+                        if (!running) {
+                            continue;
+                        }
+                        const node = element('div', { className: 'running' }, ['left', 'center', 'right'].map(position => {
+                            const span = element('span', { textContent: running.content[position] });
+                            span.style.textAlign = position;
+                            return span;
+                        }));
+                        Object.assign(node.style, {
+                            height: px(running.height), fontSize: px(running.size), color: running.color, background: running.background,
+                            fontFamily: model.base.font, padding: '0 ' + px(left)
+                        });
+                        node.style[name === 'header' ? 'top' : 'bottom'] = '0';
+                        page.append(node);
+                    }
+                }
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.type !== 'update') {
+                        return;
+                    }
+                    const state = message.state;
+                    document.getElementById('file').textContent = state.file;
+                    const parents = state.chain.slice(0, -1);
+                    if (state.extendsBuiltin) {
+                        parents.unshift('組み込みテーマ');
+                    }
+                    document.getElementById('chain').textContent = parents.length > 0 ? '継承元: ' + parents.join(' → ') : '';
+                    renderIssues(state);
+                    renderForm(state);
+                    renderPreview(state.preview);
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuildManager } from './buildManager';
+import { EntryDocument, MANIFEST_FILE_NAME, collectEntryDocuments } from './projectManifest';
+
+type WatchState = 'idle' | 'building' | 'failed';
+
+const WATCH_PATTERN = '**/*.{adoc,asciidoc,yml,yaml,png,jpg,jpeg,gif,svg,puml,css}';
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.svg'];
+const DEBOUNCE_DELAY = 500;
+// エントリ構成・依存関係に影響するファイル
+const STRUCTURE_PATTERN = /\.(adoc|asciidoc)$/i;
+
+export class WatchManager {
+    private watcher?: vscode.FileSystemWatcher;
+    private statusBarItem: vscode.StatusBarItem;
+    private pendingChanges = new Set<string>();
+    // エントリドキュメントと依存ファイル（.adoc またはマニフェストの変更時に作り直す）
+    private entries?: Promise<EntryDocument[]>;
+    private debounceTimer?: NodeJS.Timeout;
+    private building = false;
+
+    constructor(private readonly buildManager: BuildManager) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.statusBarItem.command = 'asciidocSuite.toggleWatch';
+    }
+
+    get isWatching(): boolean {
+        return this.watcher !== undefined;
+    }
+
+    toggleWatch(): void {
+        if (this.isWatching) {
+            this.stopWatch();
+            vscode.window.showInformationMessage('監視モードを終了しました。');
+        } else {
+            this.startWatch();
+            vscode.window.showInformationMessage('監視モードを開始しました。ファイルの変更時に影響するドキュメントを再ビルドします。');
+        }
+    }
+
+    private startWatch(): void {
+        this.watcher = vscode.workspace.createFileSystemWatcher(WATCH_PATTERN);
+        this.watcher.onDidChange(uri => this.onFileChanged(uri));
+        this.watcher.onDidCreate(uri => this.onFileChanged(uri));
+        this.watcher.onDidDelete(uri => this.onFileChanged(uri));
+
+        this.updateStatus('idle');
+        this.statusBarItem.show();
+    }
+
+    private stopWatch(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.entries = undefined;
+        this.pendingChanges.clear();
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+        this.statusBarItem.hide();
+    }
+
+    private onFileChanged(uri: vscode.Uri): void {
+        const filePath = uri.fsPath;
+        if (filePath.split(path.sep).includes('node_modules')) {
+            return;
+        }
+
+        // ビルド中に生成される図表画像による再ビルドの連鎖を防ぐ
+        if (this.building && IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+            return;
+        }
+
+        this.pendingChanges.add(filePath);
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => this.processChanges(), DEBOUNCE_DELAY);
+    }
+
+    private async processChanges(): Promise<void> {
+        this.debounceTimer = undefined;
+
+        // ビルド中の変更はビルド完了後にまとめて処理する
+        if (this.building || this.pendingChanges.size === 0) {
+            return;
+        }
+
+        const changedFiles = [...this.pendingChanges];
+        this.pendingChanges.clear();
+
+        this.building = true;
+        try {
+            if (changedFiles.some(file => STRUCTURE_PATTERN.test(file) || path.basename(file) === MANIFEST_FILE_NAME)) {
+                this.entries = undefined;
+            }
+            if (!this.entries) {
+                this.entries = collectEntryDocuments();
+            }
+            const entries = await this.entries;
+            const affected = entries.filter(entry =>
+                changedFiles.some(file => entry.dependencies.has(path.resolve(file)))
+            );
+
+            if (affected.length > 0) {
+                this.updateStatus('building');
+                // 保存のたびの再ビルドでビルド履歴が埋まらないよう、監視モードのビルドは記録しない
+                const result = await this.buildManager.buildDocuments(affected.map(entry => ({
+                    ...entry.target,
+                    options: { ...entry.target.options, recordHistory: false }
+                })));
+                this.updateStatus(result && (result.cancelled || result.failures.length === 0) ? 'idle' : 'failed');
+            }
+        } catch (error) {
+            this.entries = undefined;
+            this.updateStatus('failed');
+            vscode.window.showErrorMessage(`監視モードでのビルド中にエラーが発生しました: ${error}`);
+        } finally {
+            this.building = false;
+        }
+
+        if (this.isWatching && this.pendingChanges.size > 0) {
+            await this.processChanges();
+        }
+    }
+
+    private updateStatus(state: WatchState): void {
+        switch (state) {
+            case 'idle':
+                this.statusBarItem.text = '$(eye) Asciidoc: 監視中';
+                this.statusBarItem.tooltip = '監視モード: 待機中（クリックで終了）';
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'building':
+                this.statusBarItem.text = '$(sync~spin) Asciidoc: ビルド中';
+                this.statusBarItem.tooltip = '監視モード: 変更されたドキュメントをビルド中';
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'failed':
+                this.statusBarItem.text = '$(error) Asciidoc: ビルド失敗';
+                this.statusBarItem.tooltip = '監視モード: 直前のビルドが失敗しました（詳細は出力パネル）';
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                break;
+        }
+    }
+
+    dispose(): void {
+        this.stopWatch();
+        this.statusBarItem.dispose();
+    }
+}